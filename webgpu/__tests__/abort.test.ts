@@ -0,0 +1,66 @@
+import { SearchAbortedError, abortable, isSearchAborted, sleep, throwIfAborted } from '../src/abort';
+
+describe('SearchAbortedError', () => {
+  test('carries the abort reason', () => {
+    const controller = new AbortController();
+    controller.abort(new Error('user pressed stop'));
+
+    expect(() => throwIfAborted(controller.signal)).toThrow(SearchAbortedError);
+    try {
+      throwIfAborted(controller.signal);
+    } catch (e) {
+      expect(isSearchAborted(e)).toBe(true);
+      expect((e as SearchAbortedError).reason).toBe(controller.signal.reason);
+      expect((e as Error).message).toBe('Search aborted: user pressed stop');
+    }
+  });
+
+  test('is only thrown for a fired signal', () => {
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    expect(isSearchAborted(new Error('Search aborted'))).toBe(false);
+  });
+});
+
+describe('abortable', () => {
+  test('passes results and errors through while the signal is quiet', async () => {
+    const signal = new AbortController().signal;
+    await expect(abortable(Promise.resolve(7), signal)).resolves.toBe(7);
+    await expect(abortable(Promise.reject(new Error('boom')), signal)).rejects.toThrow('boom');
+  });
+
+  test('rejects as soon as the signal fires', async () => {
+    const controller = new AbortController();
+    let settle!: (value: number) => void;
+    const pending = abortable(new Promise<number>((resolve) => (settle = resolve)), controller.signal);
+
+    controller.abort();
+    await expect(pending).rejects.toThrow(SearchAbortedError);
+    settle(1);
+  });
+
+  test('rejects at once for a signal that already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(abortable(Promise.reject(new Error('ignored')), controller.signal)).rejects.toThrow(
+      SearchAbortedError
+    );
+  });
+});
+
+describe('sleep', () => {
+  test('resolves after the pause', async () => {
+    const start = Date.now();
+    await sleep(20);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  test('rejects as soon as the signal fires', async () => {
+    const controller = new AbortController();
+    const pending = sleep(60_000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toThrow(SearchAbortedError);
+
+    await expect(sleep(10, controller.signal)).rejects.toThrow(SearchAbortedError);
+  });
+});
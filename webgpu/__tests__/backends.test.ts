@@ -0,0 +1,242 @@
+import * as webgpuNode from '../src/webgpu-node';
+import { BACKENDS, createGrinder, getBackend, parseBackendChoice, probeBackends } from '../src/backends';
+import { BackendUnavailableError } from '../src/backend-error';
+import { CpuPoolGrinder } from '../src/cpu-pool-grinder';
+import { DeterministicCpuGrinder } from '../src/deterministic-grinder';
+import { WebGpuGrinder } from '../src/webgpu-grinder';
+import { HybridGrinder } from '../src/hybrid-grinder';
+import { createPattern } from '../src/pattern';
+import { FakeGpu } from '../src/fake-gpu';
+
+const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
+
+// A WebGPU implementation with no adapter, like a machine without a GPU
+function withoutGpu(): void {
+  jest.spyOn(webgpuNode, 'getNodeGpu').mockReturnValue({ requestAdapter: async () => null } as unknown as GPU);
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('backend registry', () => {
+  test('lists every backend once', () => {
+    expect(BACKENDS.map((backend) => backend.name)).toEqual(['cpu', 'noble', 'webgpu']);
+    expect(getBackend('noble').label).toBe('CPU (noble)');
+    expect(() => getBackend('opencl')).toThrow("Unknown backend 'opencl'");
+  });
+
+  test('parses backend choices', () => {
+    expect(parseBackendChoice('auto')).toBe('auto');
+    expect(parseBackendChoice('hybrid')).toBe('hybrid');
+    expect(parseBackendChoice('webgpu')).toBe('webgpu');
+    expect(() => parseBackendChoice('gpu')).toThrow('expected one of: auto, hybrid, cpu, noble, webgpu');
+  });
+
+  test('probes report CPU backends as available', async () => {
+    withoutGpu();
+    const probes = await probeBackends();
+
+    expect(probes.map((probe) => probe.backend)).toEqual(['cpu', 'noble', 'webgpu']);
+    expect(probes[0]).toMatchObject({ available: true });
+    expect(probes[0].threads).toBeGreaterThan(0);
+    expect(probes[1]).toMatchObject({ available: true, threads: 1 });
+  });
+
+  test('probes report a missing GPU with a reason', async () => {
+    withoutGpu();
+    expect(await getBackend('webgpu').probe()).toEqual({
+      backend: 'webgpu',
+      available: false,
+      reason: 'No WebGPU adapter found',
+    });
+  });
+
+  test('probes report a missing webgpu package with a reason', async () => {
+    jest.spyOn(webgpuNode, 'getNodeGpu').mockImplementation(() => {
+      throw new BackendUnavailableError('webgpu', 'webgpu package not available');
+    });
+    expect(await getBackend('webgpu').probe()).toMatchObject({
+      available: false,
+      reason: 'webgpu package not available',
+    });
+  });
+});
+
+describe('createGrinder', () => {
+  test('falls back to the CPU pool when auto finds no GPU', async () => {
+    withoutGpu();
+    const { grinder, backend, label, probes } = await createGrinder(pattern, { threads: 1 });
+
+    expect(grinder).toBeInstanceOf(CpuPoolGrinder);
+    expect(backend).toBe('cpu');
+    expect(label).toBe('CPU');
+    expect(probes).toHaveLength(3);
+    (grinder as CpuPoolGrinder).destroy();
+  });
+
+  test('searches on the CPU when auto finds a GPU that then fails to initialize', async () => {
+    const gpu = new FakeGpu({ validationErrors: { createComputePipeline: 'Invalid compute pipeline' } });
+    jest.spyOn(webgpuNode, 'getNodeGpu').mockReturnValue(gpu as unknown as GPU);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const gpuOptions = { batchSize: 64, tuningCache: null, maxRecoveries: 0 };
+
+    const { grinder, backend, probes } = await createGrinder(pattern, { threads: 1, gpu: gpuOptions });
+    expect(grinder).toBeInstanceOf(CpuPoolGrinder);
+    expect(backend).toBe('cpu');
+    expect(probes.find((probe) => probe.backend === 'webgpu')).toMatchObject({
+      available: false,
+      reason: expect.stringContaining('Invalid compute pipeline'),
+    });
+    (grinder as CpuPoolGrinder).destroy();
+
+    await expect(createGrinder(pattern, { backend: 'hybrid', threads: 1, gpu: gpuOptions })).rejects.toThrow(
+      'Invalid compute pipeline'
+    );
+  });
+
+  test('refuses an unavailable backend instead of searching with it', async () => {
+    withoutGpu();
+    await expect(createGrinder(pattern, { backend: 'webgpu' })).rejects.toThrow(
+      new BackendUnavailableError('webgpu', 'No WebGPU adapter found')
+    );
+    await expect(createGrinder(pattern, { backend: 'hybrid' })).rejects.toBeInstanceOf(BackendUnavailableError);
+  });
+
+  test('uses the noble backend for a master seed', async () => {
+    const masterSeed = new Uint8Array(32).fill(1);
+    const { grinder, backend } = await createGrinder(pattern, { deterministic: { masterSeed, startCounter: 5 } });
+
+    expect(backend).toBe('noble');
+    expect(grinder).toBeInstanceOf(DeterministicCpuGrinder);
+    expect((grinder as DeterministicCpuGrinder).counter).toBe(5);
+  });
+
+  test('rejects a master seed for backends that would ignore it', async () => {
+    const masterSeed = new Uint8Array(32);
+    await expect(createGrinder(pattern, { backend: 'cpu', deterministic: { masterSeed } })).rejects.toThrow(
+      "Backend 'cpu' can't search from a master seed"
+    );
+  });
+});
+
+describe('WebGpuGrinder on a software GPU', () => {
+  test('searches with the kernel model when the GPU probes available', async () => {
+    const gpu = new FakeGpu();
+    jest.spyOn(webgpuNode, 'getNodeGpu').mockReturnValue(gpu as unknown as GPU);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { grinder, backend, probes } = await createGrinder(pattern, {
+      backend: 'webgpu',
+      gpu: { batchSize: 64, tuningCache: null },
+    });
+    expect(backend).toBe('webgpu');
+    expect(probes[0]).toMatchObject({ available: true, adapter: { vendor: 'fake' } });
+
+    const found = await grinder.searchBatch(1000);
+    expect(found.length).toBeGreaterThan(0);
+    expect(found[0].address[0]).toMatch(/[aA]/);
+    (grinder as WebGpuGrinder).destroy();
+    expect(gpu.device!.isLost).toBe(true);
+  });
+});
+
+describe('Several GPUs', () => {
+  // A discrete GPU for high performance and an integrated one for low power
+  function twoGpus() {
+    const discrete = new FakeGpu({ info: { vendor: 'discrete' } });
+    const integrated = new FakeGpu({ info: { vendor: 'integrated' } });
+    const provider = {
+      requestAdapter: async (options?: GPURequestAdapterOptions) => {
+        if (options?.forceFallbackAdapter) return null;
+        return (options?.powerPreference === 'low-power' ? integrated : discrete).requestAdapter();
+      },
+    };
+    jest.spyOn(webgpuNode, 'getNodeGpu').mockReturnValue(provider as unknown as GPU);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    return { discrete, integrated };
+  }
+
+  test('runs one grinder per selected adapter and combines their stats', async () => {
+    const { discrete, integrated } = twoGpus();
+
+    const { grinder, backend } = await createGrinder(pattern, {
+      backend: 'webgpu',
+      gpu: { batchSize: 64, tuningCache: null },
+      gpuAdapters: [{ kind: 'all' }],
+    });
+    expect(backend).toBe('webgpu');
+    expect(grinder).toBeInstanceOf(HybridGrinder);
+    const hybrid = grinder as HybridGrinder;
+    expect(hybrid.getBackendStats().map((stats) => stats.name)).toEqual(['GPU 0', 'GPU 1']);
+
+    await hybrid.searchBatch(2000);
+    const [first, second] = hybrid.getBackendStats();
+    expect(first.attempts).toBeGreaterThan(0n);
+    expect(second.attempts).toBeGreaterThan(0n);
+    expect(hybrid.getStats().attempts).toBe(first.attempts + second.attempts);
+    expect(discrete.device!.dispatches).toBeGreaterThan(0);
+    expect(integrated.device!.dispatches).toBeGreaterThan(0);
+    hybrid.destroy();
+    expect(discrete.device!.isLost).toBe(true);
+    expect(integrated.device!.isLost).toBe(true);
+  });
+
+  test('puts the selected adapters next to the CPU pool in a hybrid', async () => {
+    const { discrete } = twoGpus();
+
+    const { grinder, label } = await createGrinder(pattern, {
+      backend: 'hybrid',
+      threads: 1,
+      gpu: { batchSize: 64, tuningCache: null },
+      gpuAdapters: [{ kind: 'name', name: 'discrete' }],
+    });
+    expect(label).toBe('GPU + CPU');
+    expect(discrete.devices).toHaveLength(1);
+    (grinder as HybridGrinder).destroy();
+  });
+
+  test('refuses a selection that matches no adapter', async () => {
+    twoGpus();
+
+    const gpuAdapters = [{ kind: 'index' as const, index: 5 }];
+    await expect(createGrinder(pattern, { backend: 'webgpu', gpu: { tuningCache: null }, gpuAdapters })).rejects.toThrow(
+      "No GPU adapter matches '5'"
+    );
+  });
+});
+
+describe('WebGpuGrinder fallback', () => {
+  test('hands the search to the CPU pool when the GPU fails for good', async () => {
+    const gpu = new FakeGpu();
+    let adapters = 0;
+    // One adapter for the probe and one for the grinder, then the GPU is gone
+    const provider = { requestAdapter: async () => (adapters++ < 2 ? gpu.requestAdapter() : null) };
+    jest.spyOn(webgpuNode, 'getNodeGpu').mockReturnValue(provider as unknown as GPU);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const rare = createPattern('zzzzzz', { ignoreCase: false, matchMode: 'prefix' });
+
+    const { grinder } = await createGrinder(rare, {
+      backend: 'webgpu',
+      threads: 1,
+      gpu: { batchSize: 64, tuningCache: null, maxRecoveries: 0 },
+    });
+    gpu.device!.lose();
+
+    expect(await grinder.searchBatch(100)).toEqual([]);
+    const stats = grinder.getStats();
+    expect(stats.attempts).toBe(100n);
+    expect(stats.incidents).toMatchObject([{ kind: 'device-lost', attempts: 0n, outcome: 'fallback' }]);
+    (grinder as WebGpuGrinder).destroy();
+  });
+});
+
+describe('WebGpuGrinder without a GPU', () => {
+  test('fails to search instead of returning empty batches', async () => {
+    withoutGpu();
+    const grinder = new WebGpuGrinder(pattern);
+
+    await expect(grinder.searchBatch(1000)).rejects.toBeInstanceOf(BackendUnavailableError);
+    expect(grinder.getStats().attempts).toBe(0n);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  alternativeProbability,
+  anywhereProbability,
+  charDistribution,
+  classProbability,
+} from '../src/base58-distribution';
+import { compilePattern } from '../src/pattern-syntax';
+import { BASE58_ALPHABET, CharClass } from '../src/types';
+
+const KEY_SPACE = 2 ** 256;
+
+function cls(pattern: string, ignoreCase: boolean = false): CharClass {
+  return compilePattern(pattern, ignoreCase)[0][0];
+}
+
+describe('Base58 Character Distribution', () => {
+  test('every position sums to the odds that the address reaches it', () => {
+    const sum = (p: number[]) => p.reduce((a, b) => a + b, 0);
+    expect(sum(charDistribution(0))).toBeCloseTo(1, 12);
+    expect(sum(charDistribution(31))).toBeCloseTo(1, 12);
+
+    // Only 44-character addresses have a 44th character: keys of at least
+    // 58^43, or a leading zero byte followed by 43 digits
+    const long = Number(2n ** 256n - 58n ** 43n + 2n ** 248n - 58n ** 42n) / KEY_SPACE;
+    expect(sum(charDistribution(43))).toBeCloseTo(long, 12);
+  });
+
+  test('a leading 1 means a leading zero byte', () => {
+    expect(charDistribution(0)[0]).toBeCloseTo(1 / 256, 15);
+  });
+
+  test('late first digits only start 43-character addresses', () => {
+    // 'Z' (digit 32) leads exactly the keys in [32 * 58^42, 33 * 58^42)
+    const z = BASE58_ALPHABET.indexOf('Z');
+    expect(charDistribution(0)[z]).toBeCloseTo(Number(58n ** 42n) / KEY_SPACE, 15);
+    expect(charDistribution(0)[1]).toBeGreaterThan(50 * charDistribution(0)[z]);
+  });
+
+  test('the last character is uniform', () => {
+    for (const p of charDistribution(0, true)) {
+      expect(p).toBeCloseTo(1 / 58, 12);
+    }
+  });
+});
+
+describe('Class Probabilities', () => {
+  test('case folding weights each character by its own probability', () => {
+    const folded = classProbability(cls('a', true), 0);
+    const upper = classProbability(cls('A'), 0);
+    const lower = classProbability(cls('a'), 0);
+    expect(folded).toBeCloseTo(upper + lower, 15);
+    expect(upper).toBeGreaterThan(10 * lower);
+  });
+
+  test('digits are counted once when ignoring case', () => {
+    expect(classProbability(cls('3', true), 0, true)).toBeCloseTo(1 / 58, 12);
+  });
+});
+
+describe('Alternative Probabilities', () => {
+  test('a single head position matches its class probability', () => {
+    const a = cls('A');
+    expect(alternativeProbability({ head: [a], tail: [] })).toBeCloseTo(classProbability(a, 0), 15);
+  });
+
+  test('head offsets shift the pattern along the address', () => {
+    const a = cls('A');
+    expect(alternativeProbability({ head: [a], tail: [] }, 5)).toBeCloseTo(classProbability(a, 5), 15);
+  });
+
+  test('alternatives longer than any address have zero probability', () => {
+    expect(alternativeProbability({ head: new Array(45).fill(cls('?')), tail: [] })).toBe(0);
+    expect(alternativeProbability({ head: [], tail: new Array(45).fill(cls('?')) })).toBe(0);
+  });
+
+  test('anywhere is more likely than any single offset', () => {
+    const alternative = { head: [cls('A'), cls('B')], tail: [] };
+    const anywhere = anywhereProbability(alternative);
+    expect(anywhere).toBeGreaterThan(alternativeProbability(alternative, 0));
+    expect(anywhere).toBeLessThan(1);
+  });
+});
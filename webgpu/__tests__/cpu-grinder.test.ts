@@ -1,6 +1,9 @@
 import { CpuGrinder } from '../src/cpu-grinder';
-import { createPattern } from '../src/pattern';
+import { createPattern, createPatternSet } from '../src/pattern';
+import { SearchAbortedError } from '../src/abort';
+import { CryptoProvider } from '../src/platform';
 import bs58 from 'bs58';
+import { webcrypto } from 'crypto';
 
 describe('CpuGrinder', () => {
   test('generates valid Solana addresses', async () => {
@@ -8,10 +11,10 @@ describe('CpuGrinder', () => {
     const pattern = createPattern('1', { ignoreCase: false, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
-    const result = await grinder.searchBatch(100000);
+    const [result] = await grinder.searchBatch(100000);
 
     // Should find at least one match with such a common pattern
-    expect(result).not.toBeNull();
+    expect(result).toBeDefined();
     if (result) {
       expect(result.address).toMatch(/^[1-9A-HJ-NP-Za-km-z]+$/);
       expect(result.address.length).toBeGreaterThanOrEqual(32);
@@ -25,9 +28,9 @@ describe('CpuGrinder', () => {
     const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
-    const result = await grinder.searchBatch(100000);
+    const [result] = await grinder.searchBatch(100000);
 
-    expect(result).not.toBeNull();
+    expect(result).toBeDefined();
     if (result) {
       // Verify address is Base58 encoding of public key
       const encodedPubKey = bs58.encode(result.publicKey);
@@ -39,9 +42,9 @@ describe('CpuGrinder', () => {
     const pattern = createPattern('B', { ignoreCase: true, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
-    const result = await grinder.searchBatch(100000);
+    const [result] = await grinder.searchBatch(100000);
 
-    expect(result).not.toBeNull();
+    expect(result).toBeDefined();
     if (result) {
       // Private key should be 64 bytes: 32-byte seed + 32-byte public key
       expect(result.privateKey.length).toBe(64);
@@ -52,17 +55,39 @@ describe('CpuGrinder', () => {
     }
   });
 
+  test('returns an empty batch when nothing matches', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    const grinder = new CpuGrinder(pattern);
+
+    expect(await grinder.searchBatch(100)).toEqual([]);
+  });
+
+  test('stops at an abort and keeps the attempts made', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    const grinder = new CpuGrinder(pattern);
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 50);
+    await expect(grinder.searchBatch(1_000_000, controller.signal)).rejects.toThrow(SearchAbortedError);
+
+    const attempts = grinder.getStats().attempts;
+    expect(attempts).toBeGreaterThan(0n);
+    expect(attempts).toBeLessThan(1_000_000n);
+    await expect(grinder.searchBatch(10, controller.signal)).rejects.toThrow(SearchAbortedError);
+    expect(grinder.getStats().attempts).toBe(attempts);
+  });
+
   test('tracks attempts correctly', async () => {
     const pattern = createPattern('ZZZZ', { ignoreCase: true, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
     await grinder.searchBatch(1000);
     const stats1 = grinder.getStats();
-    expect(stats1.attempts).toBe(1000);
+    expect(stats1.attempts).toBe(1000n);
 
     await grinder.searchBatch(500);
     const stats2 = grinder.getStats();
-    expect(stats2.attempts).toBe(1500);
+    expect(stats2.attempts).toBe(1500n);
   });
 
   test('reset clears attempts', async () => {
@@ -70,20 +95,20 @@ describe('CpuGrinder', () => {
     const grinder = new CpuGrinder(pattern);
 
     await grinder.searchBatch(1000);
-    expect(grinder.getStats().attempts).toBe(1000);
+    expect(grinder.getStats().attempts).toBe(1000n);
 
     grinder.reset();
-    expect(grinder.getStats().attempts).toBe(0);
+    expect(grinder.getStats().attempts).toBe(0n);
   });
 
   test('finds pattern match', async () => {
     const pattern = createPattern('AB', { ignoreCase: true, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
-    const result = await grinder.searchBatch(1000000);
+    const [result] = await grinder.searchBatch(1000000);
 
     // AB prefix should be found within 1M attempts (expected ~1156)
-    expect(result).not.toBeNull();
+    expect(result).toBeDefined();
     if (result) {
       expect(result.address.toLowerCase().startsWith('ab')).toBe(true);
     }
@@ -93,7 +118,7 @@ describe('CpuGrinder', () => {
     const pattern = createPattern('AB', { ignoreCase: false, matchMode: 'prefix' });
     const grinder = new CpuGrinder(pattern);
 
-    const result = await grinder.searchBatch(1000000);
+    const [result] = await grinder.searchBatch(1000000);
 
     if (result) {
       // Case-sensitive: must start with exactly 'AB'
@@ -113,8 +138,41 @@ describe('CpuGrinder', () => {
     const stats = grinder.getStats();
 
     // Rate should be approximately attempts / time
-    const expectedRate = stats.attempts / (elapsed / 1000);
+    const expectedRate = Number(stats.attempts) / (elapsed / 1000);
     expect(stats.rate).toBeGreaterThan(0);
     expect(Math.abs(stats.rate - expectedRate)).toBeLessThan(expectedRate * 0.1); // Within 10%
   });
+
+  test('searches every pattern of a set and reports the match', async () => {
+    const patterns = createPatternSet(['ZZZZZ', 'A', 'B'], { ignoreCase: true, matchMode: 'prefix' });
+    const grinder = new CpuGrinder(patterns);
+
+    const [result] = await grinder.searchBatch(100000);
+
+    expect(result).toBeDefined();
+    if (result) {
+      const matched = patterns.patterns[result.patternIndex].raw.toLowerCase();
+      expect(result.patternIndex).toBeGreaterThan(0);
+      expect(result.address.toLowerCase().startsWith(matched)).toBe(true);
+    }
+  });
+
+  test('generates keys with the crypto provider it is given', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    let generated = 0;
+    const subtle = {
+      generateKey: (...args: Parameters<SubtleCrypto['generateKey']>) => {
+        generated++;
+        return webcrypto.subtle.generateKey(...args);
+      },
+      exportKey: (...args: Parameters<SubtleCrypto['exportKey']>) => webcrypto.subtle.exportKey(...args),
+    } as unknown as SubtleCrypto;
+    const grinder = new CpuGrinder(pattern, {
+      subtle,
+      getRandomValues: (array) => globalThis.crypto.getRandomValues(array),
+    } as CryptoProvider);
+
+    await grinder.searchBatch(20);
+    expect(generated).toBe(20);
+  });
 });
@@ -0,0 +1,105 @@
+import { createPrivateKey, createPublicKey } from 'crypto';
+import bs58 from 'bs58';
+import { CpuPoolGrinder } from '../src/cpu-pool-grinder';
+import { createPattern, createPatternSet, matchesPattern } from '../src/pattern';
+import { SearchAbortedError } from '../src/abort';
+
+// Workers load TypeScript through ts-node, which takes a moment per thread
+jest.setTimeout(60_000);
+
+// Public key of an Ed25519 seed according to Node's own crypto
+function nodePublicKey(seed: Uint8Array): Uint8Array {
+  const pkcs8Prefix = Buffer.from('302e020100300506032b657004220420', 'hex');
+  const key = createPrivateKey({ key: Buffer.concat([pkcs8Prefix, seed]), format: 'der', type: 'pkcs8' });
+  const spki = createPublicKey(key).export({ format: 'der', type: 'spki' });
+  return new Uint8Array(spki.subarray(spki.length - 32));
+}
+
+describe('CpuPoolGrinder', () => {
+  let grinder: CpuPoolGrinder | null = null;
+
+  afterEach(() => {
+    grinder?.destroy();
+    grinder = null;
+  });
+
+  test('returns working key pairs that match', async () => {
+    const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
+    grinder = new CpuPoolGrinder(pattern, 2);
+
+    const found = await grinder.searchBatch(100000);
+
+    expect(found.length).toBeGreaterThan(0);
+    for (const key of found) {
+      expect(matchesPattern(key.address, pattern)).toBe(true);
+      expect(key.address).toBe(bs58.encode(key.publicKey));
+      expect(nodePublicKey(key.privateKey.slice(0, 32))).toEqual(key.publicKey);
+      expect(key.privateKey.slice(32)).toEqual(key.publicKey);
+    }
+  });
+
+  test('stops every worker at the first match without losing or repeating hits', async () => {
+    const patterns = createPatternSet(['ZZZZZZ', '?'], { ignoreCase: true });
+    grinder = new CpuPoolGrinder(patterns, 2);
+
+    const found = await grinder.searchBatch(100000);
+    const attempts = grinder.getStats().attempts;
+
+    // Every key matches '?', so each worker stops after its first one
+    expect(found.length).toBeGreaterThanOrEqual(1);
+    expect(found.length).toBeLessThanOrEqual(2);
+    expect(attempts).toBeLessThan(1000n);
+    expect(new Set(found.map((key) => key.address)).size).toBe(found.length);
+    for (const key of found) {
+      expect(key.patternIndex).toBe(1);
+      expect(key.attempts).toBe(attempts);
+    }
+  });
+
+  test('combines attempts across workers', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    grinder = new CpuPoolGrinder(pattern, 3);
+
+    expect(await grinder.searchBatch(301)).toEqual([]);
+    expect(grinder.getStats().attempts).toBe(301n);
+
+    await grinder.searchBatch(2);
+    expect(grinder.getStats().attempts).toBe(303n);
+
+    grinder.reset();
+    expect(grinder.getStats().attempts).toBe(0n);
+  });
+
+  test('stops every worker at an abort and counts their keys', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    grinder = new CpuPoolGrinder(pattern, 2);
+    await grinder.searchBatch(2); // Start the workers
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 500);
+    const started = Date.now();
+    await expect(grinder.searchBatch(10_000_000, controller.signal)).rejects.toThrow(SearchAbortedError);
+
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(grinder.getStats().attempts).toBeGreaterThan(2n);
+
+    // The next batch runs normally
+    expect(await grinder.searchBatch(4)).toEqual([]);
+  });
+
+  test('starts new workers after being destroyed', async () => {
+    const pattern = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    grinder = new CpuPoolGrinder(pattern, 1);
+
+    await grinder.searchBatch(10);
+    grinder.destroy();
+    await grinder.searchBatch(10);
+    expect(grinder.getStats().attempts).toBe(20n);
+  });
+
+  test('rejects invalid thread counts', () => {
+    const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
+    expect(() => new CpuPoolGrinder(pattern, 0)).toThrow(/Invalid thread count/);
+    expect(() => new CpuPoolGrinder(pattern, 1.5)).toThrow(/Invalid thread count/);
+  });
+});
@@ -0,0 +1,117 @@
+import { createPrivateKey, createPublicKey } from 'crypto';
+import bs58 from 'bs58';
+import {
+  DeterministicCpuGrinder,
+  deriveSeed,
+  parseMasterSeed,
+  replayKey,
+} from '../src/deterministic-grinder';
+import { createPattern, createPatternSet } from '../src/pattern';
+import { SearchAbortedError } from '../src/abort';
+
+const MASTER_SEED = parseMasterSeed('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f');
+
+// Public key of an Ed25519 seed according to Node's own crypto
+function nodePublicKey(seed: Uint8Array): Uint8Array {
+  const pkcs8Prefix = Buffer.from('302e020100300506032b657004220420', 'hex');
+  const key = createPrivateKey({ key: Buffer.concat([pkcs8Prefix, seed]), format: 'der', type: 'pkcs8' });
+  const spki = createPublicKey(key).export({ format: 'der', type: 'spki' });
+  return new Uint8Array(spki.subarray(spki.length - 32));
+}
+
+describe('Seed Derivation', () => {
+  test('is deterministic per master seed and counter', () => {
+    expect(deriveSeed(MASTER_SEED, 7)).toEqual(deriveSeed(MASTER_SEED, 7));
+    expect(deriveSeed(MASTER_SEED, 7)).not.toEqual(deriveSeed(MASTER_SEED, 8));
+
+    const other = MASTER_SEED.slice();
+    other[0] ^= 1;
+    expect(deriveSeed(other, 7)).not.toEqual(deriveSeed(MASTER_SEED, 7));
+  });
+
+  test('uses the full 64-bit counter', () => {
+    expect(deriveSeed(MASTER_SEED, 2 ** 32)).not.toEqual(deriveSeed(MASTER_SEED, 0));
+    expect(() => deriveSeed(MASTER_SEED, -1)).toThrow(/Invalid seed counter/);
+    expect(() => deriveSeed(MASTER_SEED, 1.5)).toThrow(/Invalid seed counter/);
+  });
+
+  test('replayed keys agree with Node crypto', () => {
+    const key = replayKey(MASTER_SEED, 3);
+    const seed = deriveSeed(MASTER_SEED, 3);
+    expect(key.publicKey).toEqual(nodePublicKey(seed));
+    expect(key.privateKey.slice(0, 32)).toEqual(seed);
+    expect(key.privateKey.slice(32)).toEqual(key.publicKey);
+    expect(key.address).toBe(bs58.encode(key.publicKey));
+  });
+
+  test('parses hex master seeds', () => {
+    expect(MASTER_SEED[31]).toBe(0x1f);
+    expect(() => parseMasterSeed('abcd')).toThrow(/64 hex characters/);
+    expect(() => parseMasterSeed('zz'.repeat(32))).toThrow(/64 hex characters/);
+  });
+});
+
+describe('DeterministicCpuGrinder', () => {
+  const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
+
+  test('finds the same hit for the same master seed', async () => {
+    const [first] = await new DeterministicCpuGrinder(pattern, MASTER_SEED).searchBatch(1000);
+    const [second] = await new DeterministicCpuGrinder(pattern, MASTER_SEED).searchBatch(1000);
+
+    expect(first).toBeDefined();
+    expect(second).toEqual(first);
+    expect(first!.counter).toBe(Number(first!.attempts) - 1);
+  });
+
+  test('hits can be replayed from their counter', async () => {
+    const [found] = await new DeterministicCpuGrinder(pattern, MASTER_SEED).searchBatch(1000);
+    const replayed = replayKey(MASTER_SEED, found!.counter!);
+
+    expect(replayed.address).toBe(found!.address);
+    expect(replayed.privateKey).toEqual(found!.privateKey);
+  });
+
+  test('resumes from a starting counter', async () => {
+    const grinder = new DeterministicCpuGrinder(pattern, MASTER_SEED);
+    const [first] = await grinder.searchBatch(1000);
+    const [next] = await grinder.searchBatch(1000);
+
+    const resumed = new DeterministicCpuGrinder(pattern, MASTER_SEED, first!.counter! + 1);
+    const [found] = await resumed.searchBatch(1000);
+    expect(found!.address).toBe(next!.address);
+    expect(found!.counter).toBe(next!.counter);
+  });
+
+  test('reset replays the same keys', async () => {
+    const grinder = new DeterministicCpuGrinder(pattern, MASTER_SEED);
+    const [first] = await grinder.searchBatch(1000);
+    grinder.reset();
+    expect(grinder.getStats().attempts).toBe(0n);
+    expect(await grinder.searchBatch(1000)).toEqual([first]);
+  });
+
+  test('tracks attempts and pattern indices', async () => {
+    const set = createPatternSet(['ZZZZZ', '?'], { ignoreCase: true });
+    const grinder = new DeterministicCpuGrinder(set, MASTER_SEED, 10);
+
+    const [found] = await grinder.searchBatch(5);
+    expect(found!.patternIndex).toBe(1);
+    expect(found!.counter).toBe(10);
+    expect(grinder.getStats().attempts).toBe(1n);
+    expect(grinder.counter).toBe(11);
+  });
+
+  test('yields to notice an abort', async () => {
+    const unlikely = createPattern('ZZZZZZ', { ignoreCase: false, matchMode: 'prefix' });
+    const grinder = new DeterministicCpuGrinder(unlikely, MASTER_SEED);
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 20);
+    await expect(grinder.searchBatch(1_000_000, controller.signal)).rejects.toThrow(SearchAbortedError);
+    expect(grinder.counter).toBe(Number(grinder.getStats().attempts));
+  });
+
+  test('rejects master seeds of the wrong length', () => {
+    expect(() => new DeterministicCpuGrinder(pattern, new Uint8Array(16))).toThrow(/32 bytes/);
+  });
+});
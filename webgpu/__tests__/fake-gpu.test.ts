@@ -0,0 +1,146 @@
+import { FakeGpu, FakeGpuBuffer, FakeGpuDevice } from '../src/fake-gpu';
+
+async function createDevice(gpu: FakeGpu = new FakeGpu()): Promise<FakeGpuDevice> {
+  const adapter = await gpu.requestAdapter();
+  await adapter.requestDevice();
+  return gpu.device!;
+}
+
+// Submits a copy of `source` into a fresh MAP_READ buffer and returns it
+function copyToStaging(device: FakeGpuDevice, source: FakeGpuBuffer): FakeGpuBuffer {
+  const staging = device.createBuffer({ size: source.size, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+  const encoder = device.createCommandEncoder();
+  encoder.copyBufferToBuffer(source, 0, staging, 0, source.size);
+  device.queue.submit([encoder.finish()]);
+  return staging;
+}
+
+describe('FakeGpu', () => {
+  test('defines the WebGPU flag globals and describes its adapter', async () => {
+    const gpu = new FakeGpu({ info: { vendor: 'test' }, limits: { maxComputeWorkgroupSizeX: 128 } });
+    const adapter = await gpu.requestAdapter();
+
+    expect(GPUBufferUsage.STORAGE).toBe(0x80);
+    expect(GPUMapMode.READ).toBe(1);
+    expect(adapter.info.vendor).toBe('test');
+    expect(adapter.limits.maxComputeWorkgroupSizeX).toBe(128);
+    expect(adapter.limits.maxComputeWorkgroupsPerDimension).toBe(65535);
+  });
+
+  test('runs queued writes, clears and copies in order before a map settles', async () => {
+    const device = await createDevice();
+    const source = device.createBuffer({ size: 16, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC });
+    device.queue.writeBuffer(source, 0, Uint32Array.of(1, 2, 3, 4));
+    const encoder = device.createCommandEncoder();
+    encoder.clearBuffer(source, 8, 4);
+    device.queue.submit([encoder.finish()]);
+    const staging = copyToStaging(device, source);
+
+    expect(source.words).toEqual(new Uint32Array(4)); // Nothing ran yet
+    await staging.mapAsync(GPUMapMode.READ);
+    expect(new Uint32Array(staging.getMappedRange())).toEqual(Uint32Array.of(1, 2, 0, 4));
+    staging.unmap();
+    expect(staging.mapState).toBe('unmapped');
+  });
+
+  test('dispatches one kernel invocation per thread with the bound buffers', async () => {
+    const invocations: number[] = [];
+    const device = await createDevice(
+      new FakeGpu({ kernel: (globalId, { results, params }) => void invocations.push(globalId + params[0] + results[0]) })
+    );
+    const [results, params, patterns] = [16, 16, 16].map((size) => device.createBuffer({ size, usage: 0 }));
+    device.queue.writeBuffer(params, 0, Uint32Array.of(100));
+    const pipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: { module: device.createShaderModule({ code: '' }) as GPUShaderModule, constants: { WORKGROUP_SIZE: 2 } },
+    });
+    const bindGroup = device.createBindGroup({
+      entries: [
+        { binding: 0, resource: { buffer: results } },
+        { binding: 1, resource: { buffer: params } },
+        { binding: 2, resource: { buffer: patterns } },
+      ],
+    });
+    const encoder = device.createCommandEncoder();
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroup);
+    pass.dispatchWorkgroups(3);
+    pass.end();
+    device.queue.submit([encoder.finish()]);
+    await device.queue.onSubmittedWorkDone();
+
+    expect(invocations).toEqual([100, 101, 102, 103, 104, 105]);
+    expect(device.dispatches).toBe(1);
+  });
+
+  test('aborts a pending map on unmap', async () => {
+    const device = await createDevice();
+    const buffer = device.createBuffer({ size: 4, usage: GPUBufferUsage.MAP_READ });
+    const mapped = buffer.mapAsync(GPUMapMode.READ);
+    buffer.unmap();
+
+    await expect(mapped).rejects.toMatchObject({ name: 'AbortError' });
+    expect(() => buffer.getMappedRange()).toThrow('Buffer is not mapped');
+  });
+
+  test('fails as many maps as asked to', async () => {
+    const device = await createDevice();
+    const buffer = device.createBuffer({ size: 4, usage: GPUBufferUsage.MAP_READ });
+    device.failMaps(1);
+
+    await expect(buffer.mapAsync(GPUMapMode.READ)).rejects.toMatchObject({ name: 'OperationError' });
+    await expect(buffer.mapAsync(GPUMapMode.READ)).resolves.toBeUndefined();
+  });
+
+  test('drops queued work and rejects maps once the device is lost', async () => {
+    const device = await createDevice();
+    const source = device.createBuffer({ size: 4, usage: GPUBufferUsage.COPY_SRC });
+    device.queue.writeBuffer(source, 0, Uint32Array.of(7));
+    const staging = copyToStaging(device, source);
+    const mapped = staging.mapAsync(GPUMapMode.READ);
+    device.lose('GPU hung');
+
+    await expect(mapped).rejects.toThrow('Device is lost');
+    await expect(device.lost).resolves.toEqual({ reason: 'unknown', message: 'GPU hung' });
+    expect(source.words[0]).toBe(0);
+  });
+
+  test('sends errors to the innermost matching error scope', async () => {
+    const device = await createDevice(new FakeGpu({ validationErrors: { createBindGroup: 'Missing binding 2' } }));
+    const uncaptured = jest.fn();
+    device.addEventListener('uncapturederror', uncaptured);
+
+    device.pushErrorScope('validation');
+    device.pushErrorScope('out-of-memory');
+    device.createBindGroup({ entries: [] });
+    device.raiseError('Second error', 'validation');
+    await expect(device.popErrorScope()).resolves.toBeNull();
+    await expect(device.popErrorScope()).resolves.toEqual({ message: 'Missing binding 2' });
+    await expect(device.popErrorScope()).rejects.toMatchObject({ name: 'OperationError' });
+
+    device.createBindGroup({ entries: [] });
+    expect(uncaptured).toHaveBeenCalledWith(expect.objectContaining({ error: { message: 'Missing binding 2' } }));
+  });
+
+  test('rejects an oversized workgroup from the async pipeline call', async () => {
+    const device = await createDevice(new FakeGpu({ limits: { maxComputeWorkgroupSizeX: 64 } }));
+    const module = device.createShaderModule({ code: '' }) as GPUShaderModule;
+    const descriptor = { layout: 'auto' as const, compute: { module, constants: { WORKGROUP_SIZE: 128 } } };
+
+    await expect(device.createComputePipelineAsync(descriptor)).rejects.toMatchObject({ name: 'GPUPipelineError' });
+    device.pushErrorScope('validation');
+    device.createComputePipeline(descriptor);
+    await expect(device.popErrorScope()).resolves.toEqual({
+      message: 'Workgroup size 128 exceeds maxComputeWorkgroupSizeX',
+    });
+  });
+
+  test('reports destroy() as a destroyed device', async () => {
+    const device = await createDevice();
+    device.destroy();
+
+    await expect(device.lost).resolves.toMatchObject({ reason: 'destroyed' });
+    expect(device.isLost).toBe(true);
+  });
+});
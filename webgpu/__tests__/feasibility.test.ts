@@ -0,0 +1,60 @@
+import { analyzeFeasibility } from '../src/feasibility';
+import { createPattern, createPatternSet, createCompositePattern } from '../src/pattern';
+
+describe('Feasibility Analysis', () => {
+  test('short patterns are feasible', () => {
+    const report = analyzeFeasibility(createPattern('Sun', { matchMode: 'prefix' }));
+    expect(report.verdict).toBe('feasible');
+    expect(report.unmatchablePatterns).toEqual([]);
+    expect(report.expectedSeconds).toBeCloseTo(report.difficulty.expectedAttempts / report.rate, 12);
+  });
+
+  test('44-character addresses cannot start with a late digit', () => {
+    // 2^256 < 18 * 58^43, so a 44-digit value never starts past 'J'
+    const report = analyzeFeasibility(
+      createPattern('z' + '?'.repeat(43), { ignoreCase: false, matchMode: 'prefix' })
+    );
+    expect(report.verdict).toBe('impossible');
+    expect(report.difficulty.matchProbability).toBe(0);
+    expect(report.reason).toMatch(/No 32-byte public key has an address matching 'z\?+' as a prefix/);
+    expect(report.unmatchablePatterns).toEqual([0]);
+  });
+
+  test('the same character is possible in a shorter address', () => {
+    const report = analyzeFeasibility(createPattern('z' + '?'.repeat(42), { ignoreCase: false }));
+    expect(report.verdict).toBe('feasible');
+  });
+
+  test('composite segments can rule each other out', () => {
+    const start = { raw: 'z', anchor: 'start' as const };
+    expect(analyzeFeasibility(createCompositePattern([start])).verdict).toBe('feasible');
+    expect(
+      analyzeFeasibility(createCompositePattern([start, { raw: '?', anchor: 43 }], { ignoreCase: false }))
+        .verdict
+    ).toBe('impossible');
+  });
+
+  test('patterns needing centuries are astronomical', () => {
+    const report = analyzeFeasibility(createPattern('ABCDEFGHJKMN', { ignoreCase: false }));
+    expect(report.verdict).toBe('astronomical');
+    expect(report.reason).toMatch(/years at 1\.00B keys\/sec/);
+  });
+
+  test('the rate decides between feasible and astronomical', () => {
+    const pattern = createPattern('ABCDEFGH', { ignoreCase: true });
+    expect(analyzeFeasibility(pattern).verdict).toBe('feasible');
+    expect(analyzeFeasibility(pattern, 1).verdict).toBe('astronomical');
+  });
+
+  test('a set is feasible while any of its patterns is', () => {
+    const set = createPatternSet(['Sun', 'z' + '?'.repeat(43)], { ignoreCase: false });
+    const report = analyzeFeasibility(set);
+    expect(report.verdict).toBe('feasible');
+    expect(report.unmatchablePatterns).toEqual([1]);
+  });
+
+  test('a set is impossible when none of its patterns can match', () => {
+    const set = createPatternSet(['z' + '?'.repeat(43), 'x' + '?'.repeat(43)], { ignoreCase: false });
+    expect(analyzeFeasibility(set).verdict).toBe('impossible');
+  });
+});
@@ -0,0 +1,21 @@
+import { formatCount, formatDuration } from '../src/format';
+
+describe('formatCount', () => {
+  test('abbreviates large counts', () => {
+    expect(formatCount(999)).toBe('999');
+    expect(formatCount(1500)).toBe('1.50K');
+    expect(formatCount(2_500_000)).toBe('2.50M');
+    expect(formatCount(7e9)).toBe('7.00B');
+    expect(formatCount(3e12)).toBe('3.00T');
+    expect(formatCount(4.5e21)).toBe('4.50e+21');
+  });
+});
+
+describe('formatDuration', () => {
+  test('picks the largest unit that fits', () => {
+    expect(formatDuration(0.2)).toBe('<1 second');
+    expect(formatDuration(90)).toBe('1.5 minutes');
+    expect(formatDuration(86400 * 730)).toBe('2.0 years');
+    expect(formatDuration(86400 * 365 * 2.5e6)).toBe('2.50M years');
+  });
+});
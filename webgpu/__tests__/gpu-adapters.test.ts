@@ -0,0 +1,69 @@
+import { listGpuAdapters, parseGpuAdapterSelector, selectGpuAdapters } from '../src/gpu-adapters';
+import { FakeGpu } from '../src/fake-gpu';
+
+// A discrete GPU for high performance, an integrated one for low power, and no fallback adapter
+const discrete = new FakeGpu({ info: { vendor: 'acme', device: 'Discrete X1' } });
+const integrated = new FakeGpu({ info: { vendor: 'acme', device: 'Integrated 7' } });
+const laptop = {
+  requestAdapter: async (options?: GPURequestAdapterOptions) => {
+    if (options?.forceFallbackAdapter) return null;
+    return (options?.powerPreference === 'low-power' ? integrated : discrete).requestAdapter();
+  },
+};
+
+describe('listGpuAdapters', () => {
+  test('lists each adapter the power preferences lead to', async () => {
+    const adapters = await listGpuAdapters(laptop);
+
+    expect(adapters).toEqual([
+      expect.objectContaining({ index: 0, requests: [{ powerPreference: 'high-performance' }] }),
+      expect.objectContaining({ index: 1, requests: [{ powerPreference: 'low-power' }] }),
+    ]);
+    expect(adapters[0].name).toContain('Discrete X1');
+    expect(adapters[1].info.device).toBe('Integrated 7');
+  });
+
+  test('lists an adapter that answers several requests once', async () => {
+    const adapters = await listGpuAdapters(new FakeGpu());
+
+    expect(adapters).toHaveLength(1);
+    expect(adapters[0].requests).toEqual([
+      { powerPreference: 'high-performance' },
+      { powerPreference: 'low-power' },
+      { forceFallbackAdapter: true },
+    ]);
+  });
+});
+
+describe('parseGpuAdapterSelector', () => {
+  test('reads indices, power preferences, all and names', () => {
+    expect(parseGpuAdapterSelector('1')).toEqual({ kind: 'index', index: 1 });
+    expect(parseGpuAdapterSelector('low-power')).toEqual({ kind: 'power', powerPreference: 'low-power' });
+    expect(parseGpuAdapterSelector('all')).toEqual({ kind: 'all' });
+    expect(parseGpuAdapterSelector('RTX 4090')).toEqual({ kind: 'name', name: 'RTX 4090' });
+    expect(() => parseGpuAdapterSelector('')).toThrow('Empty GPU adapter selector');
+  });
+});
+
+describe('selectGpuAdapters', () => {
+  test('picks adapters by index, name or power preference, once each and in listing order', async () => {
+    const adapters = await listGpuAdapters(laptop);
+    const select = (...values: string[]) =>
+      selectGpuAdapters(adapters, values.map(parseGpuAdapterSelector)).map((adapter) => adapter.index);
+
+    expect(select('all')).toEqual([0, 1]);
+    expect(select('1', '0')).toEqual([0, 1]);
+    expect(select('integrated')).toEqual([1]);
+    expect(select('high-performance', 'discrete')).toEqual([0]);
+    expect(select('low-power')).toEqual([1]);
+  });
+
+  test('refuses a selector that matches no adapter', async () => {
+    const adapters = await listGpuAdapters(laptop);
+
+    expect(() => selectGpuAdapters(adapters, [{ kind: 'index', index: 0 }, { kind: 'index', index: 2 }])).toThrow(
+      /^No GPU adapter matches '2' \(found: 0: acme\/.*Discrete X1.*, 1: acme\/.*Integrated 7.*\)$/
+    );
+    expect(() => selectGpuAdapters([], [{ kind: 'all' }])).toThrow("No GPU adapter matches 'all' (found: none)");
+  });
+});
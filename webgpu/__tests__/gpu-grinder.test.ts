@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GpuGrinder, GpuGrinderOptions } from '../src/gpu-grinder';
+import { CpuGrinder } from '../src/cpu-grinder';
+import { BackendUnavailableError } from '../src/backend-error';
+import { GpuInitError } from '../src/gpu-init-report';
+import { SearchAbortedError } from '../src/abort';
+import { createPattern } from '../src/pattern';
+import { FakeGpu, FakeGpuOptions } from '../src/fake-gpu';
+import { KernelDispatchKey, kernelDispatchKey, kernelKey, kernelMain } from '../src/kernel-model';
+import { KeyVerificationError, PatternLayoutError, RESULT_HEADER_SIZE } from '../src/gpu-utils';
+import { CryptoProvider } from '../src/platform';
+
+const pattern = createPattern('A', { ignoreCase: true, matchMode: 'prefix' });
+
+describe('GpuGrinder', () => {
+  test('reports a GPU without adapters as unavailable', async () => {
+    const shaderSource = jest.fn(() => '');
+    const grinder = new GpuGrinder(pattern, { gpu: { requestAdapter: async () => null }, shaderSource });
+
+    await expect(grinder.init()).rejects.toThrow(new BackendUnavailableError('webgpu', 'No WebGPU adapter found'));
+    expect(grinder.initReport).toMatchObject({ ok: false, failedStage: 'adapter', error: 'No WebGPU adapter found' });
+    expect(grinder.initReport!.adapter).toBeUndefined();
+    await expect(grinder.searchBatch(1000)).rejects.toBeInstanceOf(BackendUnavailableError);
+    expect(shaderSource).not.toHaveBeenCalled();
+    expect(grinder.dispatchSize).toBe(0);
+  });
+
+  test('frees the device when setup fails', async () => {
+    const destroy = jest.fn();
+    const adapter = {
+      info: { vendor: 'test' },
+      features: new Set(),
+      limits: {},
+      requestDevice: async () => ({ destroy, lost: new Promise(() => {}), addEventListener: () => {} }),
+    } as unknown as GPUAdapter;
+    const grinder = new GpuGrinder(pattern, {
+      gpu: { requestAdapter: async () => adapter },
+      shaderSource: () => {
+        throw new Error('shader missing');
+      },
+      log: () => {},
+    });
+
+    await expect(grinder.init()).rejects.toThrow("Backend 'webgpu' is unavailable: initialization failed (shader missing)");
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(grinder.initReport).toMatchObject({ ok: false, failedStage: 'shader' });
+  });
+
+  test('validates its options', () => {
+    const providers = { gpu: { requestAdapter: async () => null }, shaderSource: () => '' };
+    expect(() => new GpuGrinder(pattern, providers, { pipelineDepth: 0 })).toThrow('Invalid pipeline depth 0');
+    expect(() => new GpuGrinder(pattern, providers, { batchSize: 1.5 })).toThrow('Invalid batch size 1.5');
+    expect(() => new GpuGrinder(pattern, providers, { readbackTimeoutMs: 0 })).toThrow('Invalid readback timeout 0');
+    expect(() => new GpuGrinder(pattern, providers, { maxRecoveries: -1 })).toThrow('Invalid recovery count -1');
+    expect(() => new GpuGrinder(pattern, providers, { seedSpace: { index: -1 } })).toThrow('Invalid seed space -1');
+    expect(() => new GpuGrinder(pattern, providers, { seedSpace: { index: 2 ** 32 } })).toThrow(
+      'Invalid seed space 4294967296'
+    );
+  });
+});
+
+describe('GpuGrinder on a software GPU', () => {
+  const shaderSource = () => fs.readFileSync(path.join(__dirname, '../src/shaders/vanity.wgsl'), 'utf-8');
+  const rare = createPattern('zzzzzz', { ignoreCase: false, matchMode: 'prefix' });
+
+  // Base seeds 1, 2, 3, ... so every run searches the same keys
+  function countingCrypto(): CryptoProvider {
+    let next = 1;
+    return {
+      getRandomValues: <T extends ArrayBufferView | null>(array: T): T => {
+        (array as unknown as Uint32Array).fill(next++);
+        return array;
+      },
+    } as CryptoProvider;
+  }
+
+  function createGrinder(patternInput = pattern, options: FakeGpuOptions = {}, gpuOptions: GpuGrinderOptions = {}) {
+    const gpu = new FakeGpu(options);
+    const grinder = new GpuGrinder(
+      patternInput,
+      { gpu, shaderSource, crypto: countingCrypto(), log: () => {} },
+      { batchSize: 64, workgroupSize: 32, recoveryBackoffMs: 1, ...gpuOptions }
+    );
+    return { gpu, grinder };
+  }
+
+  test('returns keys the kernel derived, verified on the host', async () => {
+    const { gpu, grinder } = createGrinder();
+
+    const found = await grinder.searchBatch(1000);
+    expect(found.length).toBeGreaterThan(0);
+    for (const key of found) {
+      expect(key.address[0]).toMatch(/[aA]/);
+      expect(key.attempts).toBe(64n);
+    }
+    // The first dispatch ran with key words all 1 and nonce 0 from thread 0
+    const dispatchKey = { key: new Uint32Array(8).fill(1), nonceLo: 0, nonceHi: 0 };
+    const expected = Array.from({ length: 64 }, (_, tid) => kernelKey(dispatchKey, BigInt(tid)).address).filter(
+      (address) => /^[aA]/.test(address)
+    );
+    expect(found.map((key) => key.address).sort()).toEqual(expected.sort());
+    expect(gpu.device!.dispatches).toBeGreaterThanOrEqual(1);
+    grinder.destroy();
+  });
+
+  test('keeps the dispatch key and thread of every match so it can be replayed', async () => {
+    const { grinder } = createGrinder();
+
+    const found = await grinder.searchBatch(1000);
+    expect(found.length).toBeGreaterThan(0);
+    for (const key of found) {
+      expect(key.origin).toMatchObject({ key: new Uint32Array(8).fill(1), nonceLo: 0, nonceHi: 0 });
+      expect(key.origin!.threadId).toBeLessThan(64n);
+      const replayed = kernelKey(key.origin!, key.origin!.threadId);
+      expect(replayed.address).toBe(key.address);
+      expect(replayed.privateKey).toEqual(key.privateKey);
+    }
+    grinder.destroy();
+  });
+
+  test('gives every dispatch a fresh 256-bit key from its crypto provider', async () => {
+    const dispatchKeys: KernelDispatchKey[] = [];
+    const gpu = new FakeGpu({
+      kernel: (globalId, { params }) => {
+        if (globalId === 0) dispatchKeys.push(kernelDispatchKey(Uint32Array.from(params)));
+      },
+    });
+    const crypto = countingCrypto();
+    const getRandomValues = jest.spyOn(crypto, 'getRandomValues');
+    const grinder = new GpuGrinder(rare, { gpu, shaderSource, crypto, log: () => {} }, { batchSize: 64 });
+
+    await grinder.searchBatch(128);
+    expect(getRandomValues.mock.calls.map(([array]) => (array as Uint32Array).length)).toEqual([8, 8]);
+    expect(dispatchKeys).toEqual([
+      { key: new Uint32Array(8).fill(1), nonceLo: 0, nonceHi: 0 },
+      { key: new Uint32Array(8).fill(2), nonceLo: 0, nonceHi: 0 },
+    ]);
+    grinder.destroy();
+  });
+
+  test('requests the adapter it was given and puts its seed space in the nonce', async () => {
+    const nonces = new Set<number>();
+    const gpu = new FakeGpu({ kernel: (_globalId, { params }) => void nonces.add(params[2]) });
+    const requestAdapter = jest.spyOn(gpu, 'requestAdapter');
+    const grinder = new GpuGrinder(
+      rare,
+      { gpu, shaderSource, crypto: countingCrypto(), log: () => {} },
+      { batchSize: 64, adapter: { powerPreference: 'low-power' }, seedSpace: { index: 1 } }
+    );
+
+    await grinder.searchBatch(128);
+    expect(requestAdapter).toHaveBeenCalledWith({ powerPreference: 'low-power' });
+    expect([...nonces]).toEqual([1]);
+    grinder.destroy();
+  });
+
+  test('counts every dispatch it reads back and keeps the ring full', async () => {
+    const { gpu, grinder } = createGrinder(rare);
+
+    expect(await grinder.searchBatch(256)).toEqual([]);
+    expect(grinder.getStats().attempts).toBe(256n);
+    expect(gpu.device!.dispatches).toBe(4);
+    expect(grinder.dispatchSize).toBe(64);
+    grinder.destroy();
+  });
+
+  test('drops the batches in flight when reset', async () => {
+    const { gpu, grinder } = createGrinder();
+
+    await grinder.searchBatch(1000); // Returns with the first batch, the second still in flight
+    grinder.reset();
+    expect(grinder.getStats().attempts).toBe(0n);
+
+    await grinder.searchBatch(64);
+    expect(grinder.getStats().attempts).toBe(64n);
+    expect(gpu.device!.dispatches).toBe(3);
+    grinder.destroy();
+  });
+
+  test('recreates a device lost mid-search and keeps counting', async () => {
+    const { gpu, grinder } = createGrinder(rare);
+    await grinder.init();
+    gpu.device!.onDispatch = (index) => {
+      if (index === 1) gpu.device!.lose('GPU reset');
+    };
+
+    expect(await grinder.searchBatch(256)).toEqual([]);
+    const stats = grinder.getStats();
+    expect(stats.attempts).toBe(256n);
+    expect(stats.incidents).toEqual([
+      expect.objectContaining({
+        kind: 'device-lost',
+        message: 'GPU device lost (unknown: GPU reset)',
+        attempts: 64n,
+        outcome: 'recovered',
+      }),
+    ]);
+    expect(gpu.devices).toHaveLength(2);
+    expect(gpu.devices[0].isLost).toBe(true);
+    grinder.destroy();
+  });
+
+  test('recovers from a failed map', async () => {
+    const { gpu, grinder } = createGrinder(rare);
+    await grinder.init();
+    gpu.device!.failMaps(1);
+
+    expect(await grinder.searchBatch(128)).toEqual([]);
+    expect(grinder.getStats().attempts).toBe(128n);
+    expect(grinder.getStats().incidents).toMatchObject([{ kind: 'dispatch-failed', outcome: 'recovered' }]);
+    grinder.destroy();
+  });
+
+  test('treats an uncaptured GPU error as a failed device', async () => {
+    const { gpu, grinder } = createGrinder(rare);
+    await grinder.init();
+    gpu.device!.onDispatch = () => gpu.device!.raiseError('Out of memory');
+
+    expect(await grinder.searchBatch(64)).toEqual([]);
+    expect(grinder.getStats().incidents![0]).toMatchObject({
+      kind: 'gpu-error',
+      message: 'GPU error: Out of memory',
+      outcome: 'recovered',
+    });
+    grinder.destroy();
+  });
+
+  test('replaces a GPU whose readback never completes', async () => {
+    const { gpu, grinder } = createGrinder(rare, {}, { readbackTimeoutMs: 100 });
+    await grinder.init();
+    gpu.device!.hang();
+
+    expect(await grinder.searchBatch(64)).toEqual([]);
+    expect(grinder.getStats().incidents).toMatchObject([
+      { kind: 'hang', message: 'GPU readback took over 100 ms', outcome: 'recovered' },
+    ]);
+    expect(gpu.devices).toHaveLength(2);
+    grinder.destroy();
+  });
+
+  // A GPU whose first device gets lost at its second dispatch, and that has no adapter after that
+  function failingGpu() {
+    const gpu = new FakeGpu();
+    let adapters = 0;
+    const provider = { requestAdapter: async () => (adapters++ === 0 ? gpu.requestAdapter() : null) };
+    const loseDevice = () => {
+      gpu.device!.onDispatch = (index) => {
+        if (index === 1) gpu.device!.lose();
+      };
+    };
+    return { provider, loseDevice };
+  }
+
+  test('continues on the fallback grinder when the GPU cannot be recovered', async () => {
+    const { provider, loseDevice } = failingGpu();
+    const fallback = new CpuGrinder(rare);
+    const grinder = new GpuGrinder(
+      rare,
+      { gpu: provider, shaderSource, log: () => {}, fallback: () => fallback },
+      { batchSize: 64, recoveryBackoffMs: 1, maxRecoveries: 2 }
+    );
+    await grinder.init();
+    loseDevice();
+
+    expect(await grinder.searchBatch(200)).toEqual([]);
+    expect(fallback.getStats().attempts).toBe(200n - 64n);
+    expect(grinder.getStats().attempts).toBe(200n);
+    expect(grinder.getStats().incidents).toMatchObject([{ kind: 'device-lost', outcome: 'fallback' }]);
+
+    // Later searches stay on the fallback
+    expect(await grinder.searchBatch(10)).toEqual([]);
+    expect(grinder.getStats().attempts).toBe(210n);
+    grinder.destroy();
+  });
+
+  test('fails the search when the GPU cannot be recovered and there is no fallback', async () => {
+    const { provider, loseDevice } = failingGpu();
+    const grinder = new GpuGrinder(
+      rare,
+      { gpu: provider, shaderSource, log: () => {} },
+      { batchSize: 64, recoveryBackoffMs: 1, maxRecoveries: 1 }
+    );
+    await grinder.init();
+    loseDevice();
+
+    await expect(grinder.searchBatch(1000)).rejects.toThrow(
+      new BackendUnavailableError('webgpu', 'GPU failed and could not be recovered (No WebGPU adapter found)')
+    );
+    expect(grinder.getStats().attempts).toBe(64n);
+    expect(grinder.getStats().incidents).toMatchObject([{ kind: 'device-lost', outcome: 'failed' }]);
+    grinder.destroy();
+  });
+
+  test('cancels dispatches in flight when aborted', async () => {
+    const { gpu, grinder } = createGrinder(rare);
+    await grinder.init();
+    const controller = new AbortController();
+    gpu.device!.onDispatch = () => controller.abort();
+
+    await expect(grinder.searchBatch(10000, controller.signal)).rejects.toBeInstanceOf(SearchAbortedError);
+    expect(grinder.getStats().attempts).toBe(0n);
+
+    gpu.device!.onDispatch = undefined;
+    expect(await grinder.searchBatch(64)).toEqual([]);
+    expect(grinder.getStats().attempts).toBe(64n);
+    grinder.destroy();
+  });
+
+  test('rejects a key pair the GPU got wrong', async () => {
+    const { grinder } = createGrinder(pattern, {
+      kernel: (globalId, bindings) => {
+        kernelMain(globalId, bindings);
+        // Once the dispatch is done, flip a bit of the first match's public key
+        if (globalId === 63) bindings.results[RESULT_HEADER_SIZE / 4 + 4] ^= 1;
+      },
+    });
+
+    await expect(grinder.searchBatch(1000)).rejects.toBeInstanceOf(KeyVerificationError);
+    grinder.destroy();
+  });
+
+  test('reports a pattern buffer the kernel rejects', async () => {
+    const { grinder } = createGrinder(pattern, {
+      kernel: (globalId, bindings) => kernelMain(globalId, { ...bindings, patterns: Uint32Array.of(1, 0, 0, 0) }),
+    });
+
+    await expect(grinder.searchBatch(1000)).rejects.toBeInstanceOf(PatternLayoutError);
+    grinder.destroy();
+  });
+
+  test('logs matches that did not fit the result buffer', async () => {
+    const log = jest.fn();
+    const gpu = new FakeGpu();
+    const grinder = new GpuGrinder(
+      pattern,
+      { gpu, shaderSource, crypto: countingCrypto(), log },
+      { batchSize: 64, resultCapacity: 1 }
+    );
+
+    const found = await grinder.searchBatch(64);
+    expect(found).toHaveLength(1);
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\d+ matches didn't fit the result buffer/));
+    grinder.destroy();
+  });
+
+  test('treats shader compilation errors as an unavailable backend', async () => {
+    const { gpu, grinder } = createGrinder(pattern, {
+      compilationMessages: [{ type: 'error', message: 'unknown type vec5', lineNum: 12, linePos: 7 }],
+    });
+
+    await expect(grinder.init()).rejects.toThrow(
+      new BackendUnavailableError(
+        'webgpu',
+        'initialization failed (shader compilation error at line 12:7: unknown type vec5)'
+      )
+    );
+    expect(gpu.device!.isLost).toBe(true); // Destroyed
+    expect(grinder.initReport).toMatchObject({
+      failedStage: 'shader',
+      shaderMessages: [{ type: 'error', message: 'unknown type vec5', line: 12, column: 7 }],
+    });
+  });
+
+  test('reports the adapter, shader warnings and dispatch size of a successful init', async () => {
+    const { grinder } = createGrinder(pattern, {
+      info: { vendor: 'test', architecture: 'soft' },
+      limits: { maxComputeWorkgroupSizeX: 128 },
+      compilationMessages: [{ type: 'warning', message: 'unused variable', lineNum: 3, linePos: 9 }],
+    });
+    await grinder.init();
+
+    const report = grinder.initReport!;
+    expect(report.ok).toBe(true);
+    expect(report.failedStage).toBeUndefined();
+    expect(report.adapter).toMatchObject({ vendor: 'test', architecture: 'soft', features: [] });
+    expect(report.adapter!.limits).toMatchObject({ maxComputeWorkgroupSizeX: 128, maxBufferSize: 268435456 });
+    expect(report.shaderMessages).toEqual([{ type: 'warning', message: 'unused variable', line: 3, column: 9 }]);
+    expect(report.scopeErrors).toEqual([]);
+    expect(report.dispatch).toEqual({ batchSize: 64, workgroupSize: 32, source: 'options' });
+    grinder.destroy();
+  });
+
+  test('captures pipeline validation errors in the report', async () => {
+    const { gpu, grinder } = createGrinder(pattern, { limits: { maxComputeWorkgroupSizeX: 16 } });
+
+    await expect(grinder.init()).rejects.toBeInstanceOf(GpuInitError);
+    const report = grinder.initReport!;
+    expect(report).toMatchObject({ ok: false, failedStage: 'pipeline' });
+    expect(report.scopeErrors).toEqual([
+      { stage: 'pipeline', filter: 'validation', message: 'Workgroup size 32 exceeds maxComputeWorkgroupSizeX' },
+    ]);
+    expect(report.error).toBe(
+      'initialization failed (validation error creating pipeline: Workgroup size 32 exceeds maxComputeWorkgroupSizeX)'
+    );
+    expect(gpu.device!.isLost).toBe(true);
+  });
+
+  test('attaches the report to the error of a failed init', async () => {
+    const { grinder } = createGrinder(pattern, { validationErrors: { createBindGroup: 'Binding 2 is too small' } });
+
+    const error = await grinder.init().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(GpuInitError);
+    expect((error as GpuInitError).report).toBe(grinder.initReport);
+    expect((error as GpuInitError).report).toMatchObject({
+      failedStage: 'bind-groups',
+      scopeErrors: [{ stage: 'bind-groups', filter: 'validation', message: 'Binding 2 is too small' }],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { GpuInitError, GpuInitReport, describeAdapter, formatGpuInitReport } from '../src/gpu-init-report';
+import { BackendUnavailableError } from '../src/backend-error';
+import { FakeGpu } from '../src/fake-gpu';
+
+const failed: GpuInitReport = {
+  ok: false,
+  shaderMessages: [
+    { type: 'warning', message: 'unused variable', line: 3, column: 9 },
+    { type: 'error', message: 'unknown type vec5', line: 12, column: 7 },
+  ],
+  scopeErrors: [{ stage: 'shader', filter: 'validation', message: 'Invalid ShaderModule' }],
+  failedStage: 'shader',
+  error: 'initialization failed (shader compilation error at line 12:7: unknown type vec5)',
+  durationMs: 12,
+};
+
+describe('describeAdapter', () => {
+  test('collects the adapter info, sorted features and limits', async () => {
+    const adapter = await new FakeGpu({
+      info: { vendor: 'test', architecture: 'soft', description: 'Software GPU' },
+      limits: { maxComputeWorkgroupSizeX: 128 },
+    }).requestAdapter();
+    (adapter.features as Set<string>).add('timestamp-query').add('shader-f16');
+
+    const report = describeAdapter(adapter);
+    expect(report).toMatchObject({ vendor: 'test', architecture: 'soft', device: '', description: 'Software GPU' });
+    expect(report.features).toEqual(['shader-f16', 'timestamp-query']);
+    expect(report.limits).toMatchObject({ maxComputeWorkgroupSizeX: 128, maxComputeWorkgroupsPerDimension: 65535 });
+  });
+});
+
+describe('formatGpuInitReport', () => {
+  test('prints where init failed, shader messages with positions and captured errors', () => {
+    expect(formatGpuInitReport(failed)).toEqual([
+      'WebGPU initialization: failed at shader (initialization failed (shader compilation error at line 12:7: ' +
+        'unknown type vec5))',
+      'Adapter: none',
+      'Shader: 1 error(s), 1 warning(s)',
+      '  warning at 3:9: unused variable',
+      '  error at 12:7: unknown type vec5',
+      'Captured errors:',
+      '  shader (validation): Invalid ShaderModule',
+    ]);
+  });
+
+  test('prints the adapter and dispatch size of a successful init', () => {
+    const lines = formatGpuInitReport({
+      ok: true,
+      adapter: {
+        vendor: 'test',
+        architecture: '',
+        device: '',
+        description: 'Software GPU',
+        features: [],
+        limits: { maxBufferSize: 268435456 },
+      },
+      shaderMessages: [],
+      scopeErrors: [],
+      dispatch: { batchSize: 65536, workgroupSize: 64, source: 'cached' },
+      durationMs: 40,
+    });
+
+    expect(lines).toEqual([
+      'WebGPU initialization: ok (40 ms)',
+      'Adapter: test (Software GPU)',
+      '  Features: none',
+      '  Limits:',
+      '    maxBufferSize: 268435456',
+      'Shader: 0 error(s), 0 warning(s)',
+      'Dispatch: 65536 threads in workgroups of 64 (cached)',
+    ]);
+  });
+});
+
+describe('GpuInitError', () => {
+  test('is a BackendUnavailableError that carries the report', () => {
+    const error = new GpuInitError('initialization failed (boom)', failed);
+
+    expect(error).toBeInstanceOf(BackendUnavailableError);
+    expect(error.name).toBe('GpuInitError');
+    expect(error.message).toBe("Backend 'webgpu' is unavailable: initialization failed (boom)");
+    expect(error.report).toBe(failed);
+  });
+});
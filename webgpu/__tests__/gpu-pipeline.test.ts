@@ -0,0 +1,242 @@
+import { GpuDispatchRing } from '../src/gpu-pipeline';
+import { WORKGROUP_SIZE } from '../src/gpu-utils';
+
+// Node has no WebGPU globals; the ring only needs the flag values
+Object.assign(globalThis, {
+  GPUBufferUsage: { MAP_READ: 1, COPY_SRC: 4, COPY_DST: 8, UNIFORM: 64, STORAGE: 128 },
+  GPUMapMode: { READ: 1 },
+});
+
+// Buffer whose mapAsync only settles when the test says so
+class FakeBuffer {
+  contents: Uint32Array<ArrayBuffer>;
+  pendingMap: { resolve: () => void; reject: (e: Error) => void } | null = null;
+  mapped = false;
+  destroyed = false;
+
+  constructor(size: number) {
+    this.contents = new Uint32Array(size / 4);
+  }
+
+  mapAsync(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pendingMap = {
+        resolve: () => {
+          this.mapped = true;
+          resolve();
+        },
+        reject,
+      };
+    });
+  }
+
+  getMappedRange(): ArrayBuffer {
+    if (!this.mapped) throw new Error('Buffer is not mapped');
+    return this.contents.buffer;
+  }
+
+  // Like WebGPU, unmapping a buffer whose map is pending aborts the map
+  unmap(): void {
+    if (this.pendingMap && !this.mapped) this.pendingMap.reject(new Error('mapAsync aborted'));
+    this.mapped = false;
+    this.pendingMap = null;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+interface Dispatch {
+  params: Uint32Array;
+  workgroups: number;
+  staging: FakeBuffer;
+}
+
+// Records what was dispatched, with which params, into which staging buffer
+function fakeDevice() {
+  const buffers: FakeBuffer[] = [];
+  const dispatches: Dispatch[] = [];
+  const bindGroups = new Map<object, { params: FakeBuffer; result: FakeBuffer }>();
+
+  const device = {
+    createBuffer: ({ size }: { size: number }) => {
+      const buffer = new FakeBuffer(size);
+      buffers.push(buffer);
+      return buffer;
+    },
+    createBindGroup: ({ entries }: { entries: { resource: { buffer: FakeBuffer } }[] }) => {
+      const bindGroup = {};
+      bindGroups.set(bindGroup, { result: entries[0].resource.buffer, params: entries[1].resource.buffer });
+      return bindGroup;
+    },
+    createCommandEncoder: () => {
+      let current: Omit<Dispatch, 'staging'> | null = null;
+      return {
+        clearBuffer: () => {},
+        beginComputePass: () => ({
+          setPipeline: () => {},
+          setBindGroup: (_index: number, bindGroup: object) => {
+            current = { params: Uint32Array.from(bindGroups.get(bindGroup)!.params.contents), workgroups: 0 };
+          },
+          dispatchWorkgroups: (workgroups: number) => {
+            current!.workgroups = workgroups;
+          },
+          end: () => {},
+        }),
+        copyBufferToBuffer: (_src: FakeBuffer, _srcOffset: number, staging: FakeBuffer) => {
+          dispatches.push({ ...current!, staging });
+        },
+        finish: () => ({}),
+      };
+    },
+    queue: {
+      writeBuffer: (buffer: FakeBuffer, _offset: number, data: Uint32Array) => {
+        buffer.contents.set(data);
+      },
+      submit: () => {},
+    },
+  };
+  const pipeline = { getBindGroupLayout: () => ({}) };
+
+  return { device: device as unknown as GPUDevice, pipeline: pipeline as unknown as GPUComputePipeline, buffers, dispatches };
+}
+
+function createRing(depth: number, workgroupSize: number = WORKGROUP_SIZE) {
+  const fake = fakeDevice();
+  const patternBuffer = fake.device.createBuffer({ size: 16, usage: 0 });
+  const ring = new GpuDispatchRing(fake.device, fake.pipeline, patternBuffer, 64, depth, workgroupSize);
+  return { ring, ...fake };
+}
+
+describe('GpuDispatchRing', () => {
+  test('queues the next batch before the first is read back', async () => {
+    const { ring, dispatches } = createRing(2);
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 1, 2, 0]));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([WORKGROUP_SIZE, 3, 4, 0]));
+
+    expect(ring.inFlight).toBe(2);
+    expect(dispatches.length).toBe(2);
+    expect(dispatches.map((d) => d.staging.pendingMap !== null)).toEqual([true, true]);
+  });
+
+  test('gives every submission its own params and staging buffer', () => {
+    const { ring, dispatches } = createRing(3);
+
+    for (let i = 0; i < 3; i++) ring.submit(WORKGROUP_SIZE, new Uint32Array([i * WORKGROUP_SIZE, i, 0, 0]));
+
+    expect(dispatches.map((d) => d.params[1])).toEqual([0, 1, 2]);
+    expect(new Set(dispatches.map((d) => d.staging)).size).toBe(3);
+  });
+
+  test('returns results in submission order even if a later one maps first', async () => {
+    const { ring, dispatches } = createRing(2);
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 10, 0, 0]));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([WORKGROUP_SIZE, 20, 0, 0]));
+    dispatches[0].staging.contents[0] = 111;
+    dispatches[1].staging.contents[0] = 222;
+
+    dispatches[1].staging.pendingMap!.resolve();
+    const first = ring.next();
+    dispatches[0].staging.pendingMap!.resolve();
+
+    const a = await first;
+    expect(a.params[1]).toBe(10);
+    expect(a.data[0]).toBe(111);
+
+    const b = await ring.next();
+    expect(b.params[1]).toBe(20);
+    expect(b.data[0]).toBe(222);
+    expect(ring.inFlight).toBe(0);
+  });
+
+  test('reuses a slot once its results have been read', async () => {
+    const { ring, dispatches } = createRing(1);
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+    expect(() => ring.submit(WORKGROUP_SIZE, new Uint32Array(4))).toThrow(/ring is full/);
+
+    dispatches[0].staging.pendingMap!.resolve();
+    await ring.next();
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+    expect(dispatches[1].staging).toBe(dispatches[0].staging);
+  });
+
+  test('counts threads in whole workgroups', async () => {
+    const { ring, dispatches } = createRing(2);
+
+    ring.submit(WORKGROUP_SIZE + 1, new Uint32Array(4));
+    ring.submit(1, new Uint32Array(4));
+
+    expect(dispatches.map((d) => d.workgroups)).toEqual([2, 1]);
+    expect(ring.pendingThreads).toBe(3 * WORKGROUP_SIZE);
+    expect(ring.threadsFor(WORKGROUP_SIZE + 1)).toBe(2 * WORKGROUP_SIZE);
+
+    dispatches[0].staging.pendingMap!.resolve();
+    expect((await ring.next()).threads).toBe(2 * WORKGROUP_SIZE);
+    expect(ring.pendingThreads).toBe(WORKGROUP_SIZE);
+  });
+
+  test('sizes dispatches by its own workgroup size', () => {
+    const { ring, dispatches } = createRing(1, 256);
+
+    ring.submit(300, new Uint32Array(4));
+
+    expect(dispatches[0].workgroups).toBe(2);
+    expect(ring.pendingThreads).toBe(512);
+    expect(ring.threadsFor(256)).toBe(256);
+  });
+
+  test('retires a submission whose map fails', async () => {
+    const { ring, dispatches } = createRing(2);
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 1, 0, 0]));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 2, 0, 0]));
+    dispatches[0].staging.pendingMap!.reject(new Error('device lost'));
+    dispatches[1].staging.pendingMap!.resolve();
+
+    await expect(ring.next()).rejects.toThrow('device lost');
+    expect((await ring.next()).params[1]).toBe(2);
+    await expect(ring.next()).rejects.toThrow(/No GPU dispatch in flight/);
+
+    // Both slots are free again
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+  });
+
+  test('cancel drops every submission in flight', async () => {
+    const { ring, dispatches } = createRing(2);
+
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array(4));
+    const waiting = ring.next();
+    ring.cancel();
+
+    await expect(waiting).rejects.toThrow(/aborted/);
+    expect(ring.inFlight).toBe(0);
+    expect(ring.pendingThreads).toBe(0);
+    await expect(ring.next()).rejects.toThrow(/No GPU dispatch in flight/);
+
+    // Both slots are usable again, and a late map of a dropped one isn't read
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 5, 0, 0]));
+    ring.submit(WORKGROUP_SIZE, new Uint32Array([0, 6, 0, 0]));
+    dispatches[2].staging.pendingMap!.resolve();
+    expect((await ring.next()).params[1]).toBe(5);
+  });
+
+  test('destroys its buffers and rejects invalid depths', () => {
+    const { ring, buffers } = createRing(2);
+    ring.destroy();
+    // Everything but the caller's pattern buffer
+    expect(buffers.slice(1).every((buffer) => buffer.destroyed)).toBe(true);
+    expect(buffers[0].destroyed).toBe(false);
+
+    const { device, pipeline } = fakeDevice();
+    const patternBuffer = device.createBuffer({ size: 16, usage: 0 });
+    expect(() => new GpuDispatchRing(device, pipeline, patternBuffer, 64, 0)).toThrow(/Invalid pipeline depth/);
+    expect(() => new GpuDispatchRing(device, pipeline, patternBuffer, 64, 1.5)).toThrow(/Invalid pipeline depth/);
+  });
+});
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DispatchTimer,
+  GpuTuning,
+  TuningLimits,
+  adapterKey,
+  searchTuning,
+  tuneGpu,
+  tuningCandidates,
+} from '../src/gpu-tuner';
+import { FileTuningCache } from '../src/gpu-tuning-cache';
+
+const LIMITS: TuningLimits = {
+  maxComputeWorkgroupSizeX: 256,
+  maxComputeInvocationsPerWorkgroup: 256,
+  maxComputeWorkgroupsPerDimension: 65535,
+};
+
+// GPU model: a fixed cost per dispatch plus a per-workgroup-size throughput
+function modelTimer(keysPerMs: Record<number, number>, overheadMs: number = 1) {
+  const calls: [number, number][] = [];
+  const timer: DispatchTimer = {
+    async time(workgroupSize, batchSize) {
+      calls.push([workgroupSize, batchSize]);
+      const rate = keysPerMs[workgroupSize];
+      if (rate === undefined) throw new Error(`workgroup size ${workgroupSize} unsupported`);
+      return overheadMs + batchSize / rate;
+    },
+  };
+  return { timer, calls };
+}
+
+describe('tuningCandidates', () => {
+  test('stays within the adapter limits', () => {
+    const candidates = tuningCandidates({ ...LIMITS, maxComputeInvocationsPerWorkgroup: 128 });
+
+    expect(candidates.workgroupSizes).toEqual([32, 64, 128]);
+    expect(candidates.batchSizes[0]).toBe(4096);
+    // 65535 workgroups of 32 threads
+    expect(candidates.batchSizes[candidates.batchSizes.length - 1]).toBe(1 << 20);
+    for (let i = 1; i < candidates.batchSizes.length; i++) {
+      expect(candidates.batchSizes[i]).toBe(candidates.batchSizes[i - 1] * 2);
+    }
+  });
+
+  test('can be restricted to given workgroup sizes', () => {
+    expect(tuningCandidates(LIMITS, [64, 512]).workgroupSizes).toEqual([64]);
+  });
+});
+
+describe('searchTuning', () => {
+  test('picks the fastest setting whose dispatches stay under the target', async () => {
+    const { timer } = modelTimer({ 32: 2000, 64: 5000, 128: 4000, 256: 3000 });
+
+    const tuning = await searchTuning(tuningCandidates(LIMITS), timer, 50);
+
+    expect(tuning.workgroupSize).toBe(64);
+    // 131072 keys take 27 ms, 262144 would take 53 ms
+    expect(tuning.batchSize).toBe(131072);
+    expect(tuning.dispatchMs).toBeLessThanOrEqual(50);
+    expect(tuning.rate).toBeCloseTo((131072 / tuning.dispatchMs) * 1000);
+  });
+
+  test('stops growing a workgroup size once it misses the target', async () => {
+    const { timer, calls } = modelTimer({ 32: 1000, 64: 1000, 128: 1000, 256: 1000 });
+
+    await searchTuning(tuningCandidates(LIMITS), timer, 20);
+
+    // 4096..16384 fit in 20 ms, 32768 is the one timed over it
+    const sizes = calls.filter(([workgroupSize]) => workgroupSize === 64).map(([, batchSize]) => batchSize);
+    expect(sizes).toEqual([4096, 8192, 16384, 32768]);
+  });
+
+  test('skips workgroup sizes the device cannot run', async () => {
+    const { timer } = modelTimer({ 32: 1000, 64: 1500 });
+
+    const tuning = await searchTuning(tuningCandidates(LIMITS), timer, 50);
+    expect(tuning.workgroupSize).toBe(64);
+  });
+
+  test('falls back to the quickest dispatch when none meets the target', async () => {
+    const { timer } = modelTimer({ 32: 10, 64: 20, 128: 15, 256: 5 });
+
+    const tuning = await searchTuning(tuningCandidates(LIMITS), timer, 50);
+    expect(tuning).toMatchObject({ workgroupSize: 64, batchSize: 4096 });
+  });
+
+  test('fails when no setting can be timed', async () => {
+    const { timer } = modelTimer({});
+    await expect(searchTuning(tuningCandidates(LIMITS), timer)).rejects.toThrow(/GPU tuning failed/);
+  });
+});
+
+describe('tuneGpu', () => {
+  test('tunes once per adapter and latency target', async () => {
+    const cache = new Map<string, GpuTuning>();
+    const { timer, calls } = modelTimer({ 32: 2000, 64: 5000, 128: 4000, 256: 3000 });
+
+    const first = await tuneGpu({ adapterKey: 'gpu-a', limits: LIMITS, timer, cache });
+    const timed = calls.length;
+    const second = await tuneGpu({ adapterKey: 'gpu-a', limits: LIMITS, timer, cache });
+
+    expect(first.fromCache).toBe(false);
+    expect(second).toEqual({ tuning: first.tuning, fromCache: true });
+    expect(calls.length).toBe(timed);
+
+    await tuneGpu({ adapterKey: 'gpu-b', limits: LIMITS, timer, cache });
+    await tuneGpu({ adapterKey: 'gpu-a', limits: LIMITS, timer, cache, targetDispatchMs: 10 });
+    expect(cache.size).toBe(3);
+  });
+
+  test('tunes again for a pattern set of another size', async () => {
+    const cache = new Map<string, GpuTuning>();
+    const { timer } = modelTimer({ 32: 2000, 64: 5000, 128: 4000, 256: 3000 });
+
+    const tune = async (alternatives: number) =>
+      (await tuneGpu({ adapterKey: 'gpu', limits: LIMITS, timer, cache, alternatives })).fromCache;
+
+    expect(await tune(1)).toBe(false);
+    expect(await tune(256)).toBe(false);
+    expect(await tune(200)).toBe(true);
+    expect([...cache.keys()]).toEqual(['gpu@50ms/1alt', 'gpu@50ms/256alt']);
+  });
+
+  test('retunes when the cached setting is outside the current limits', async () => {
+    const cache = new Map<string, GpuTuning>();
+    const { timer } = modelTimer({ 32: 2000, 64: 3000, 128: 5000, 256: 4000 });
+
+    await tuneGpu({ adapterKey: 'gpu', limits: LIMITS, timer, cache });
+    const { tuning, fromCache } = await tuneGpu({
+      adapterKey: 'gpu',
+      limits: { ...LIMITS, maxComputeInvocationsPerWorkgroup: 64 },
+      timer,
+      cache,
+    });
+
+    expect(fromCache).toBe(false);
+    expect(tuning.workgroupSize).toBe(64);
+  });
+});
+
+describe('adapterKey', () => {
+  test('joins the known adapter details', () => {
+    expect(adapterKey({ vendor: 'nvidia', architecture: 'ampere', device: '', description: '' })).toBe('nvidia/ampere');
+    expect(adapterKey(undefined)).toBe('unknown-adapter');
+  });
+});
+
+describe('FileTuningCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpu-tuning-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps tunings across instances', () => {
+    const file = path.join(dir, 'nested', 'gpu-tuning.json');
+    const tuning: GpuTuning = { batchSize: 65536, workgroupSize: 64, rate: 1e6, dispatchMs: 40 };
+
+    new FileTuningCache(file).set('gpu-a@50ms', tuning);
+
+    expect(new FileTuningCache(file).get('gpu-a@50ms')).toEqual(tuning);
+    expect(new FileTuningCache(file).get('gpu-b@50ms')).toBeUndefined();
+  });
+
+  test('treats a corrupt file as empty', () => {
+    const file = path.join(dir, 'gpu-tuning.json');
+    fs.writeFileSync(file, '{ not json');
+
+    const cache = new FileTuningCache(file);
+    expect(cache.get('gpu')).toBeUndefined();
+
+    cache.set('gpu', { batchSize: 4096, workgroupSize: 32, rate: 1, dispatchMs: 1 });
+    expect(cache.get('gpu')?.batchSize).toBe(4096);
+  });
+});
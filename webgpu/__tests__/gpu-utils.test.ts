@@ -0,0 +1,322 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PATTERN_CONFIG_SIZE,
+  PATTERN_LAYOUT_VERSION,
+  RESULT_LAYOUT_MISMATCH,
+  PatternLayoutError,
+  KeyVerificationError,
+  checkGpuMatch,
+  checkShaderLayout,
+  decodePatternSetConfig,
+  verifyPatternSetConfig,
+  PATTERN_SET_HEADER_SIZE,
+  RESULT_BUFFER_SIZE,
+  RESULT_ENTRY_SIZE,
+  RESULT_HEADER_SIZE,
+  droppedResults,
+  resultBufferSize,
+  createPatternConfig,
+  createPatternSetConfig,
+  patternSetBufferSize,
+  kernelParams,
+  parseResultBuffer,
+  verifyGpuKey,
+} from '../src/gpu-utils';
+import { kernelKey, kernelScalar } from '../src/kernel-model';
+import { createPattern, createPatternSet, createCompositePattern } from '../src/pattern';
+import { ANY_CHAR, charClassHas } from '../src/pattern-syntax';
+import { BASE58_ALPHABET, CharClass, MAX_PATTERN_LENGTH } from '../src/types';
+
+function maskAt(config: Uint32Array, base: number, position: number): CharClass {
+  return { lo: config[base + 4 + position * 2], hi: config[base + 5 + position * 2] };
+}
+
+function tailMaskAt(config: Uint32Array, base: number, position: number): CharClass {
+  return maskAt(config, base + MAX_PATTERN_LENGTH * 2, position);
+}
+
+describe('Pattern Config Packing', () => {
+  test('packs a single pattern entry as per-position masks', () => {
+    const config = createPatternConfig(createPattern('A?[2-3]', { ignoreCase: false, matchMode: 'prefix' }));
+    expect(config.byteLength).toBe(PATTERN_CONFIG_SIZE);
+    expect(config[0]).toBe(3); // head length
+    expect(config[1]).toBe(0); // tail length
+    expect(config[2]).toBe(0); // anchored
+    expect(config[3]).toBe(0); // pattern index
+
+    const a = BASE58_ALPHABET.indexOf('A');
+    expect(maskAt(config, 0, 0)).toEqual({ lo: 1 << a, hi: 0 });
+    expect(maskAt(config, 0, 1)).toEqual(ANY_CHAR);
+    expect(maskAt(config, 0, 2)).toEqual({ lo: 0b110, hi: 0 });
+  });
+
+  test('suffix patterns are packed as tail masks', () => {
+    const config = createPatternConfig(createPattern('A?[2-3]', { ignoreCase: false, matchMode: 'suffix' }));
+    expect(config[0]).toBe(0);
+    expect(config[1]).toBe(3);
+    expect(config[2]).toBe(0);
+    expect(tailMaskAt(config, 0, 2)).toEqual({ lo: 0b110, hi: 0 });
+  });
+
+  test('composite patterns pack both head and tail', () => {
+    const pattern = createCompositePattern(
+      [
+        { raw: 'AB', anchor: 'start' },
+        { raw: 'Z', anchor: 'end' },
+        { raw: '9', anchor: 3 },
+      ],
+      { ignoreCase: false }
+    );
+    const config = createPatternConfig(pattern);
+    expect(config[0]).toBe(4);
+    expect(config[1]).toBe(1);
+    expect(config[2]).toBe(0);
+    expect(maskAt(config, 0, 2)).toEqual(ANY_CHAR);
+    expect(maskAt(config, 0, 3)).toEqual({ lo: 1 << 8, hi: 0 });
+    expect(tailMaskAt(config, 0, 0)).toEqual({ lo: 0, hi: 1 << (BASE58_ALPHABET.indexOf('Z') - 32) });
+  });
+
+  test('case-insensitive masks include both cases', () => {
+    const config = createPatternConfig(createPattern('z', { ignoreCase: true }));
+    const mask = maskAt(config, 0, 0);
+    expect(charClassHas(mask, BASE58_ALPHABET.indexOf('z'))).toBe(true);
+    expect(charClassHas(mask, BASE58_ALPHABET.indexOf('Z'))).toBe(true);
+  });
+
+  test('full-length patterns keep every position', () => {
+    const raw = '2'.repeat(43) + 'z';
+    const config = createPatternConfig(createPattern(raw, { ignoreCase: false }));
+    expect(config[0]).toBe(44);
+    expect(maskAt(config, 0, 43)).toEqual({ lo: 0, hi: 1 << (57 - 32) });
+  });
+
+  test('alternation produces one entry per alternative', () => {
+    const config = createPatternConfig(createPattern('(ab|xyz)', { ignoreCase: false }), 5);
+    const words = PATTERN_CONFIG_SIZE / 4;
+    expect(config.byteLength).toBe(2 * PATTERN_CONFIG_SIZE);
+    expect(config[0]).toBe(2);
+    expect(config[words]).toBe(3);
+    expect(config[3]).toBe(5);
+    expect(config[words + 3]).toBe(5);
+  });
+
+  test('pattern set buffer holds a header and one entry per alternative', () => {
+    expect(patternSetBufferSize(1)).toBe(PATTERN_SET_HEADER_SIZE + PATTERN_CONFIG_SIZE);
+    expect(patternSetBufferSize(20)).toBe(PATTERN_SET_HEADER_SIZE + 20 * PATTERN_CONFIG_SIZE);
+  });
+
+  test('packs every pattern of a set with its pattern index', () => {
+    const set = createPatternSet(['Sun', '(Max|Min)', 'XYZ'], { matchMode: 'anywhere' });
+    const config = createPatternSetConfig(set);
+
+    expect(config.byteLength).toBe(patternSetBufferSize(4));
+    expect(config[0]).toBe(PATTERN_LAYOUT_VERSION);
+    expect(config[1]).toBe(4);
+    expect(config[2]).toBe(PATTERN_CONFIG_SIZE);
+    expect(config[3]).toBe(MAX_PATTERN_LENGTH);
+
+    const indices = [0, 1, 2, 3].map((i) => {
+      const base = (PATTERN_SET_HEADER_SIZE + i * PATTERN_CONFIG_SIZE) / 4;
+      expect(config[base + 2]).toBe(1); // anywhere
+      return config[base + 3];
+    });
+    expect(indices).toEqual([0, 1, 1, 2]);
+  });
+});
+
+describe('Pattern Layout Checks', () => {
+  const shaderCode = fs.readFileSync(path.join(__dirname, '../src/shaders/vanity.wgsl'), 'utf-8');
+
+  test('full 44-character patterns decode to what the CPU matches', () => {
+    const raw = '[1-9]' + '?'.repeat(32) + 'ABCDEFGHJKM';
+    const set = createPatternSet([raw, 'xyz'], { ignoreCase: false, matchMode: 'suffix' });
+    const entries = decodePatternSetConfig(createPatternSetConfig(set));
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].tail).toEqual(set.patterns[0].alternatives[0].tail);
+    expect(entries[0].tail).toHaveLength(44);
+    expect(entries[1].patternIndex).toBe(1);
+  });
+
+  test('rejects alternatives longer than the layout', () => {
+    const pattern = createPattern('A', { ignoreCase: false });
+    pattern.alternatives[0].head = new Array(45).fill(ANY_CHAR);
+    expect(() => createPatternConfig(pattern)).toThrow(PatternLayoutError);
+  });
+
+  test('rejects masks outside the Base58 alphabet', () => {
+    const pattern = createPattern('A', { ignoreCase: false });
+    pattern.alternatives[0].head = [{ lo: 0, hi: 1 << 26 }];
+    expect(() => createPatternConfig(pattern)).toThrow(/outside the Base58 alphabet/);
+  });
+
+  test('detects buffers that differ from the pattern set', () => {
+    const set = createPatternSet(['AB', 'CD'], { ignoreCase: false });
+    const config = createPatternSetConfig(set);
+
+    const tampered = config.slice();
+    tampered[PATTERN_SET_HEADER_SIZE / 4 + 4] = 0b11;
+    expect(() => verifyPatternSetConfig(set, tampered)).toThrow(/does not match pattern 'AB'/);
+
+    const oldVersion = config.slice();
+    oldVersion[0] = PATTERN_LAYOUT_VERSION - 1;
+    expect(() => verifyPatternSetConfig(set, oldVersion)).toThrow(/layout version/);
+
+    const extra = createPatternSetConfig(createPatternSet(['AB', 'CD', 'EF'], { ignoreCase: false }));
+    expect(() => verifyPatternSetConfig(set, extra)).toThrow(/3 entries, expected 2/);
+  });
+
+  test('accepts the bundled shader layout', () => {
+    expect(() => checkShaderLayout(shaderCode)).not.toThrow();
+  });
+
+  test('rejects shaders built for another layout', () => {
+    const stale = shaderCode.replace(/PATTERN_LAYOUT_VERSION: u32 = \d+u/, 'PATTERN_LAYOUT_VERSION: u32 = 1u');
+    expect(() => checkShaderLayout(stale)).toThrow(/layout version 1/);
+
+    const short = shaderCode.replace('head: array<vec2<u32>, 44>', 'head: array<vec2<u32>, 32>');
+    expect(() => checkShaderLayout(short)).toThrow(PatternLayoutError);
+  });
+
+  test('rejects GPU matches the CPU matcher disagrees with', () => {
+    const set = createPatternSet(['AB'], { ignoreCase: false });
+    const found = {
+      publicKey: new Uint8Array(32),
+      privateKey: new Uint8Array(64),
+      address: 'ABcdef',
+      attempts: 1n,
+      patternIndex: 0,
+    };
+    expect(() => checkGpuMatch(found, set)).not.toThrow();
+    expect(() => checkGpuMatch({ ...found, address: 'Abcdef' }, set)).toThrow(/CPU matcher rejects it/);
+    expect(() => checkGpuMatch({ ...found, patternIndex: 3 }, set)).toThrow(/pattern index 3/);
+  });
+});
+
+describe('Result Buffer Parsing', () => {
+  // Writes one match into a result buffer slot
+  function writeEntry(data: Uint32Array, slot: number, address: string, patternIndex: number): void {
+    const base = (RESULT_HEADER_SIZE + slot * RESULT_ENTRY_SIZE) / 4;
+    data[base] = 42 + slot;
+    data[base + 1] = address.length;
+    data[base + 2] = patternIndex;
+    for (let i = 0; i < 8; i++) data[base + 4 + i] = 0x04030201 * (i + 1);
+    for (let i = 0; i < 16; i++) data[base + 12 + i] = 0x08070605 + slot;
+    for (let i = 0; i < address.length; i++) {
+      data[base + 28 + Math.floor(i / 4)] |= address.charCodeAt(i) << ((i % 4) * 8);
+    }
+  }
+
+  test('sizes the buffer from its capacity', () => {
+    expect(RESULT_BUFFER_SIZE).toBe(resultBufferSize());
+    expect(resultBufferSize(1)).toBe(RESULT_HEADER_SIZE + RESULT_ENTRY_SIZE);
+    expect(resultBufferSize(4) % 16).toBe(0);
+    expect(() => resultBufferSize(0)).toThrow(/Invalid result capacity/);
+  });
+
+  test('returns nothing when nothing was found', () => {
+    expect(parseResultBuffer(new Uint32Array(RESULT_BUFFER_SIZE / 4), 100n)).toEqual([]);
+  });
+
+  test('throws when the shader rejected the pattern buffer', () => {
+    const data = new Uint32Array(RESULT_BUFFER_SIZE / 4);
+    data[0] = RESULT_LAYOUT_MISMATCH;
+    expect(() => parseResultBuffer(data, 100n)).toThrow(PatternLayoutError);
+  });
+
+  test('extracts the key, address and matching pattern index', () => {
+    const data = new Uint32Array(RESULT_BUFFER_SIZE / 4);
+    const address = 'XYZabc';
+    data[0] = 1;
+    writeEntry(data, 0, address, 2);
+
+    const found = parseResultBuffer(data, 65536n);
+    expect(found).toHaveLength(1);
+    expect(found[0].address).toBe(address);
+    expect(found[0].patternIndex).toBe(2);
+    expect(found[0].attempts).toBe(65536n);
+    expect(Array.from(found[0].publicKey.slice(0, 4))).toEqual([1, 2, 3, 4]);
+    expect(Array.from(found[0].privateKey.slice(0, 4))).toEqual([5, 6, 7, 8]);
+  });
+
+  test('returns every stored match of a dispatch', () => {
+    const data = new Uint32Array(resultBufferSize(4) / 4);
+    data[0] = 3;
+    writeEntry(data, 0, 'AAAA', 0);
+    writeEntry(data, 1, 'BBBBB', 1);
+    writeEntry(data, 2, 'CCC', 0);
+
+    const found = parseResultBuffer(data, 1000n);
+    expect(found.map((key) => key.address)).toEqual(['AAAA', 'BBBBB', 'CCC']);
+    expect(found.map((key) => key.patternIndex)).toEqual([0, 1, 0]);
+    expect(found[1].privateKey[0]).toBe(6);
+    expect(droppedResults(data)).toBe(0);
+  });
+
+  test('never reads an address past its field', () => {
+    const data = new Uint32Array(resultBufferSize(2) / 4);
+    data[0] = 2;
+    writeEntry(data, 0, 'A'.repeat(44), 0);
+    writeEntry(data, 1, 'BBBB', 0);
+    data[RESULT_HEADER_SIZE / 4 + 1] = 0xffffffff;
+
+    const found = parseResultBuffer(data, 1000n);
+    expect(found[0].address).toBe('A'.repeat(44));
+    expect(found[1].address).toBe('BBBB');
+  });
+
+  test('records the dispatch key and 64-bit thread id of each match', () => {
+    const data = new Uint32Array(resultBufferSize(2) / 4);
+    data[0] = 2;
+    writeEntry(data, 0, 'AAAA', 0);
+    writeEntry(data, 1, 'BBBB', 0);
+    data[(RESULT_HEADER_SIZE + RESULT_ENTRY_SIZE) / 4 + 3] = 5;
+    const key = new Uint32Array(8).fill(7);
+
+    expect(parseResultBuffer(data, 1000n)[0].origin).toBeUndefined();
+    const found = parseResultBuffer(data, 1000n, kernelParams(0n, key, 3, 4));
+    expect(found.map((match) => match.origin)).toEqual([
+      { key, nonceLo: 3, nonceHi: 4, threadId: 42n },
+      { key, nonceLo: 3, nonceHi: 4, threadId: (5n << 32n) | 43n },
+    ]);
+  });
+
+  test('counts matches beyond the capacity as dropped', () => {
+    const data = new Uint32Array(resultBufferSize(2) / 4);
+    data[0] = 5;
+    writeEntry(data, 0, 'AAAA', 0);
+    writeEntry(data, 1, 'BBBB', 0);
+
+    expect(parseResultBuffer(data, 1000n)).toHaveLength(2);
+    expect(droppedResults(data)).toBe(3);
+  });
+});
+
+describe('Host Key Verification', () => {
+  const key = kernelKey({ key: new Uint32Array(8).fill(0xdeadbeef), nonceLo: 0, nonceHi: 0x12345678 }, 7n);
+  const set = createPatternSet([key.address.slice(0, 2)], { ignoreCase: false });
+  const found = { ...key, attempts: 1n, patternIndex: 0 };
+
+  test('accepts a working key pair that matches', () => {
+    expect(() => verifyGpuKey(found, set)).not.toThrow();
+  });
+
+  test('rejects a private key holding the clamped scalar instead of the seed', () => {
+    const privateKey = found.privateKey.slice();
+    privateKey.set(kernelScalar(key.seed), 0);
+    expect(() => verifyGpuKey({ ...found, privateKey }, set)).toThrow(KeyVerificationError);
+  });
+
+  test('rejects a mismatched public key or address', () => {
+    const publicKey = found.publicKey.slice();
+    publicKey[0] ^= 1;
+    expect(() => verifyGpuKey({ ...found, publicKey }, set)).toThrow(KeyVerificationError);
+    expect(() => verifyGpuKey({ ...found, address: found.address + '1' }, set)).toThrow(KeyVerificationError);
+  });
+
+  test('re-runs the CPU matcher on the re-encoded address', () => {
+    const other = createPatternSet([key.address.slice(0, 2) === 'zz' ? 'yy' : 'zz'], { ignoreCase: false });
+    expect(() => verifyGpuKey(found, other)).toThrow(PatternLayoutError);
+  });
+});
@@ -0,0 +1,168 @@
+import { grind, grindAll, GrindProgress, GrindSummary } from '../src/grind';
+import { FoundKey, Grinder, GrinderStats } from '../src/types';
+import { SearchAbortedError, abortable } from '../src/abort';
+import { matchesPattern, createPattern } from '../src/pattern';
+
+// Grinder that takes `msPerBatch` per call and matches on chosen attempts
+class FakeGrinder implements Grinder {
+  attempts = 0;
+  batches: number[] = [];
+  destroyed = false;
+
+  constructor(
+    private matchAt: number[] = [],
+    private msPerBatch: number = 0
+  ) {}
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    this.batches.push(maxAttempts);
+    const start = this.attempts;
+    await abortable(new Promise((resolve) => setTimeout(resolve, this.msPerBatch)), signal);
+    this.attempts += maxAttempts;
+
+    return this.matchAt
+      .filter((n) => n > start && n <= this.attempts)
+      .map((n) => ({
+        publicKey: new Uint8Array(32),
+        privateKey: new Uint8Array(64),
+        address: `match-${n}`,
+        attempts: BigInt(n),
+        patternIndex: 0,
+      }));
+  }
+
+  getStats(): GrinderStats {
+    return { attempts: BigInt(this.attempts), rate: 0, elapsedMs: 0 };
+  }
+
+  reset(): void {
+    this.attempts = 0;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+// Drains a grind, returning both the matches and the summary
+async function run(iterator: AsyncGenerator<FoundKey, GrindSummary>) {
+  const keys: string[] = [];
+  for (;;) {
+    const next = await iterator.next();
+    if (next.done) return { keys, summary: next.value };
+    keys.push(next.value.address);
+  }
+}
+
+describe('grind', () => {
+  test('yields matches until the count is reached', async () => {
+    const grinder = new FakeGrinder([50, 150, 160, 900]);
+
+    const { keys, summary } = await run(grind('abc', { grinder, count: 3, batchSize: 100 }));
+
+    expect(keys).toEqual(['match-50', 'match-150', 'match-160']);
+    expect(summary).toMatchObject({ reason: 'count', found: 3, attempts: 200n, backend: 'custom' });
+    expect(grinder.batches).toEqual([100, 100]);
+  });
+
+  test('keeps only as many matches from a batch as are still wanted', async () => {
+    const grinder = new FakeGrinder([10, 20, 30]);
+
+    expect((await grindAll('abc', { grinder, count: 2, batchSize: 100 })).map((k) => k.address)).toEqual([
+      'match-10',
+      'match-20',
+    ]);
+  });
+
+  test('stops when the attempt budget runs out', async () => {
+    const grinder = new FakeGrinder([10_000]);
+
+    const { keys, summary } = await run(grind('abc', { grinder, maxAttempts: 250, batchSize: 100 }));
+
+    expect(keys).toEqual([]);
+    expect(summary).toMatchObject({ reason: 'attempts', attempts: 250n });
+    // The last batch is cut down to fit the budget
+    expect(grinder.batches).toEqual([100, 100, 50]);
+  });
+
+  test('ends the search normally on timeout', async () => {
+    const grinder = new FakeGrinder([], 20);
+
+    const { keys, summary } = await run(grind('abc', { grinder, timeoutMs: 70, batchSize: 100 }));
+
+    expect(keys).toEqual([]);
+    expect(summary.reason).toBe('timeout');
+    expect(summary.attempts).toBeGreaterThan(0n);
+  });
+
+  test('rejects with SearchAbortedError when the caller aborts', async () => {
+    const grinder = new FakeGrinder([], 20);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(grindAll('abc', { grinder, signal: controller.signal })).rejects.toBeInstanceOf(SearchAbortedError);
+  });
+
+  test('rejects at once if the signal has already fired', async () => {
+    const grinder = new FakeGrinder();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(grindAll('abc', { grinder, signal: controller.signal })).rejects.toBeInstanceOf(SearchAbortedError);
+    expect(grinder.batches).toEqual([]);
+  });
+
+  test('reports progress at the interval and once at the end', async () => {
+    const grinder = new FakeGrinder([], 10);
+    const progress: GrindProgress[] = [];
+
+    await run(
+      grind('abc', {
+        grinder,
+        maxAttempts: 1000,
+        batchSize: 100,
+        progressIntervalMs: 25,
+        onProgress: (p) => progress.push(p),
+      })
+    );
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.length).toBeLessThan(10);
+    const final = progress[progress.length - 1];
+    expect(final).toMatchObject({ attempts: 1000n, found: 0, backend: 'custom' });
+    expect(final.backends).toEqual([expect.objectContaining({ name: 'custom', attempts: 1000n, share: 1 })]);
+  });
+
+  test('leaves a caller-owned grinder alive', async () => {
+    const grinder = new FakeGrinder([5]);
+
+    await grindAll('abc', { grinder, batchSize: 10 });
+    expect(grinder.destroyed).toBe(false);
+  });
+
+  test('stops searching when the consumer breaks out early', async () => {
+    const grinder = new FakeGrinder([5, 15, 25]);
+
+    for await (const key of grind('abc', { grinder, count: 3, batchSize: 10 })) {
+      expect(key.address).toBe('match-5');
+      break;
+    }
+    expect(grinder.batches).toEqual([10]);
+  });
+
+  test('rejects invalid budgets', async () => {
+    await expect(grindAll('abc', { grinder: new FakeGrinder(), count: 0 })).rejects.toThrow('Invalid match count 0');
+    await expect(grindAll('abc', { grinder: new FakeGrinder(), timeoutMs: -1 })).rejects.toThrow('Invalid timeout -1');
+  });
+
+  test('finds real matches on the deterministic CPU backend', async () => {
+    const masterSeed = new Uint8Array(32).fill(7);
+
+    const first = await grindAll('a', { deterministic: { masterSeed }, count: 2 });
+    const again = await grindAll('a', { deterministic: { masterSeed }, count: 2 });
+
+    expect(first).toHaveLength(2);
+    for (const key of first) expect(matchesPattern(key.address, createPattern('a'))).toBe(true);
+    expect(again.map((k) => k.address)).toEqual(first.map((k) => k.address));
+  });
+});
@@ -0,0 +1,196 @@
+import { HybridGrinder } from '../src/hybrid-grinder';
+import { FoundKey, Grinder, GrinderStats } from '../src/types';
+import { SearchAbortedError, abortable } from '../src/abort';
+import { BackendUnavailableError } from '../src/backend-error';
+
+// Grinder that tries `rate` keys per millisecond and matches on chosen attempts
+class FakeGrinder implements Grinder {
+  attempts = 0;
+  calls = 0;
+  destroyed = false;
+
+  constructor(
+    private rate: number,
+    private matchAt: number[] = [],
+    private failAt: number = Infinity,
+    private failure: Error = new Error('backend failed')
+  ) {}
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    this.calls++;
+    if (this.rate === 0) return [];
+    if (this.attempts >= this.failAt) throw this.failure;
+
+    const start = this.attempts;
+    const match = this.matchAt.find((n) => n > start && n <= start + maxAttempts);
+    const done = match !== undefined ? match - start : maxAttempts;
+    // An aborted slice counts nothing
+    await abortable(new Promise((resolve) => setTimeout(resolve, Math.ceil(done / this.rate))), signal);
+    this.attempts += done;
+
+    if (match === undefined) return [];
+    return [
+      {
+        publicKey: new Uint8Array(32),
+        privateKey: new Uint8Array(64),
+        address: `match-${match}`,
+        attempts: BigInt(this.attempts),
+        patternIndex: 0,
+      },
+    ];
+  }
+
+  getStats(): GrinderStats {
+    return { attempts: BigInt(this.attempts), rate: 0, elapsedMs: 0 };
+  }
+
+  reset(): void {
+    this.attempts = 0;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+describe('HybridGrinder', () => {
+  test('gives faster backends a larger share of the work', async () => {
+    const fast = new FakeGrinder(100);
+    const slow = new FakeGrinder(5);
+    const hybrid = new HybridGrinder([
+      { name: 'fast', grinder: fast },
+      { name: 'slow', grinder: slow },
+    ]);
+
+    expect(await hybrid.searchBatch(100_000)).toEqual([]);
+
+    const [fastStats, slowStats] = hybrid.getBackendStats();
+    expect(fastStats.name).toBe('fast');
+    expect(fastStats.attempts + slowStats.attempts).toBe(100_000n);
+    expect(slowStats.attempts).toBeGreaterThan(0n);
+    expect(fastStats.share).toBeGreaterThan(0.75);
+    expect(fastStats.share + slowStats.share).toBeCloseTo(1);
+  });
+
+  test('stops every backend at the first match', async () => {
+    const finder = new FakeGrinder(10, [1500]);
+    const other = new FakeGrinder(10);
+    const hybrid = new HybridGrinder([
+      { name: 'finder', grinder: finder },
+      { name: 'other', grinder: other },
+    ]);
+
+    const found = await hybrid.searchBatch(1_000_000);
+
+    expect(found.map((key) => key.address)).toEqual(['match-1500']);
+    expect(found[0].attempts).toBe(hybrid.getStats().attempts);
+    expect(other.attempts).toBeLessThan(10_000);
+  });
+
+  test('keeps going until the requested number of matches', async () => {
+    const a = new FakeGrinder(10, [500, 2500]);
+    const b = new FakeGrinder(10, [1200]);
+    const hybrid = new HybridGrinder(
+      [
+        { name: 'a', grinder: a },
+        { name: 'b', grinder: b },
+      ],
+      3
+    );
+
+    const found = await hybrid.searchBatch(1_000_000);
+    expect(found.map((key) => key.address).sort()).toEqual(['match-1200', 'match-2500', 'match-500']);
+  });
+
+  test('lets a backend that makes no progress sit out', async () => {
+    const idle = new FakeGrinder(0);
+    const busy = new FakeGrinder(50);
+    const hybrid = new HybridGrinder([
+      { name: 'idle', grinder: idle },
+      { name: 'busy', grinder: busy },
+    ]);
+
+    await hybrid.searchBatch(5000);
+    expect(idle.calls).toBe(1);
+    expect(hybrid.getStats().attempts).toBe(5000n);
+  });
+
+  test('resets and destroys every backend', async () => {
+    const a = new FakeGrinder(50);
+    const b = new FakeGrinder(50);
+    const hybrid = new HybridGrinder([
+      { name: 'a', grinder: a },
+      { name: 'b', grinder: b },
+    ]);
+
+    await hybrid.searchBatch(2000);
+    hybrid.reset();
+    expect(hybrid.getStats().attempts).toBe(0n);
+    expect(a.attempts + b.attempts).toBe(0);
+
+    hybrid.destroy();
+    expect(a.destroyed && b.destroyed).toBe(true);
+  });
+
+  test('rejects once every backend has stopped at an abort', async () => {
+    const a = new FakeGrinder(10);
+    const b = new FakeGrinder(10);
+    const hybrid = new HybridGrinder([
+      { name: 'a', grinder: a },
+      { name: 'b', grinder: b },
+    ]);
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 250);
+    await expect(hybrid.searchBatch(1_000_000, controller.signal)).rejects.toThrow(SearchAbortedError);
+
+    // Whole slices finished before the abort still count
+    expect(hybrid.getStats().attempts).toBe(BigInt(a.attempts + b.attempts));
+    const calls = a.calls + b.calls;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(a.calls + b.calls).toBe(calls);
+
+    await expect(hybrid.searchBatch(100, controller.signal)).rejects.toThrow(SearchAbortedError);
+  });
+
+  test('stops the other backends when one fails', async () => {
+    const failing = new FakeGrinder(10, [], 1000);
+    const other = new FakeGrinder(10);
+    const hybrid = new HybridGrinder([
+      { name: 'failing', grinder: failing },
+      { name: 'other', grinder: other },
+    ]);
+
+    await expect(hybrid.searchBatch(1_000_000)).rejects.toThrow('backend failed');
+    expect(other.attempts).toBeLessThan(10_000);
+  });
+
+  test('retires a backend that becomes unavailable while the others carry on', async () => {
+    const gpu = new FakeGrinder(10, [], 1000, new BackendUnavailableError('webgpu', 'GPU could not be recovered'));
+    const cpu = new FakeGrinder(10);
+    const hybrid = new HybridGrinder([
+      { name: 'GPU', grinder: gpu },
+      { name: 'CPU', grinder: cpu },
+    ]);
+
+    expect(await hybrid.searchBatch(3000)).toEqual([]);
+    expect(gpu.attempts).toBe(1000);
+    expect(hybrid.getStats().attempts).toBe(3000n);
+
+    const callsBefore = gpu.calls;
+    await hybrid.searchBatch(1000);
+    expect(gpu.calls).toBe(callsBefore);
+  });
+
+  test('fails when its last backend becomes unavailable', async () => {
+    const gpu = new FakeGrinder(10, [], 500, new BackendUnavailableError('webgpu', 'GPU could not be recovered'));
+    const hybrid = new HybridGrinder([{ name: 'GPU', grinder: gpu }]);
+
+    await expect(hybrid.searchBatch(3000)).rejects.toBeInstanceOf(BackendUnavailableError);
+  });
+
+  test('rejects an empty backend list and invalid match counts', () => {
+    expect(() => new HybridGrinder([])).toThrow(/at least one backend/);
+    expect(() => new HybridGrinder([{ name: 'a', grinder: new FakeGrinder(1) }], 0)).toThrow(/Invalid match count/);
+  });
+});
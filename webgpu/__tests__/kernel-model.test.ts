@@ -0,0 +1,184 @@
+import { createCipheriv, createPrivateKey, createPublicKey, createHash } from 'crypto';
+import bs58 from 'bs58';
+import {
+  KernelDispatchKey,
+  chachaBlock,
+  kernelDispatchKey,
+  kernelKey,
+  kernelMain,
+  kernelMatchEntry,
+  kernelScalar,
+  kernelSeed,
+  kernelThreadId,
+} from '../src/kernel-model';
+import { createPatternSet, findMatchingPattern } from '../src/pattern';
+import {
+  PATTERN_LAYOUT_VERSION,
+  RESULT_ENTRY_SIZE,
+  RESULT_HEADER_SIZE,
+  RESULT_LAYOUT_MISMATCH,
+  createPatternSetConfig,
+  droppedResults,
+  kernelParams,
+  parseResultBuffer,
+  resultBufferSize,
+} from '../src/gpu-utils';
+
+const DISPATCH_KEY: KernelDispatchKey = {
+  key: Uint32Array.of(0x03020100, 0x07060504, 0x0b0a0908, 0x0f0e0d0c, 0x13121110, 0x17161514, 0x1b1a1918, 0x1f1e1d1c),
+  nonceLo: 0x01234567,
+  nonceHi: 0x89abcdef,
+};
+
+// Public key of an Ed25519 seed according to Node's own crypto
+function nodePublicKey(seed: Uint8Array): Uint8Array {
+  const pkcs8Prefix = Buffer.from('302e020100300506032b657004220420', 'hex');
+  const key = createPrivateKey({ key: Buffer.concat([pkcs8Prefix, seed]), format: 'der', type: 'pkcs8' });
+  const spki = createPublicKey(key).export({ format: 'der', type: 'spki' });
+  return new Uint8Array(spki.subarray(spki.length - 32));
+}
+
+// The first 32 keystream bytes of block `tid` from OpenSSL's ChaCha20, whose
+// 16-byte IV is state words 12-15: the 64-bit thread id, then the nonce
+function referenceSeed({ key, nonceLo, nonceHi }: KernelDispatchKey, tid: bigint): Uint8Array {
+  const iv = Buffer.alloc(16);
+  iv.writeBigUInt64LE(tid, 0);
+  iv.writeUInt32LE(nonceLo, 8);
+  iv.writeUInt32LE(nonceHi, 12);
+  const cipher = createCipheriv('chacha20', Buffer.from(key.buffer, key.byteOffset, 32), iv);
+  return new Uint8Array(cipher.update(Buffer.alloc(32)));
+}
+
+describe('Kernel Seeds', () => {
+  test('runs the ChaCha20 block function of RFC 8439', () => {
+    // Section 2.3.2: key 00..1f, block counter 1, nonce 00:00:00:09:00:00:00:4a:00:00:00:00
+    const state = Uint32Array.of(
+      0x61707865, 0x3320646e, 0x79622d32, 0x6b206574,
+      ...DISPATCH_KEY.key,
+      0x00000001, 0x09000000, 0x4a000000, 0x00000000
+    );
+    expect([...chachaBlock(state)].map((word) => word.toString(16).padStart(8, '0')).join(' ')).toBe(
+      'e4e7f110 15593bd1 1fdd0f50 c47120a3 c7f4d1c7 0368c033 9aaa2204 4e6cd4c3 ' +
+        '466482d2 09aa9f07 05d7c214 a2028bd9 d19c12b5 b94e16de e883d0cb 4e3c50a2'
+    );
+  });
+
+  test('takes each seed from the ChaCha20 keystream block of its thread', () => {
+    for (const tid of [0n, 1n, 63n, 4095n, 0xffffffffn, 1n << 32n, 0xfedcba9876543210n]) {
+      expect(kernelSeed(DISPATCH_KEY, tid)).toEqual(referenceSeed(DISPATCH_KEY, tid));
+    }
+  });
+
+  test('gives every thread, key and nonce its own seed', () => {
+    const otherKey = { ...DISPATCH_KEY, key: DISPATCH_KEY.key.map((word) => word ^ 1) };
+    expect(kernelSeed(DISPATCH_KEY, 0n)).not.toEqual(kernelSeed(DISPATCH_KEY, 1n));
+    expect(kernelSeed(DISPATCH_KEY, 0n)).not.toEqual(kernelSeed(DISPATCH_KEY, 1n << 32n));
+    expect(kernelSeed(DISPATCH_KEY, 0n)).not.toEqual(kernelSeed(otherKey, 0n));
+    expect(kernelSeed(DISPATCH_KEY, 0n)).not.toEqual(kernelSeed({ ...DISPATCH_KEY, nonceLo: 0 }, 0n));
+    expect(kernelSeed(DISPATCH_KEY, 9n)).toEqual(kernelSeed({ ...DISPATCH_KEY }, 9n));
+  });
+
+  test('reads the batch offset, key and nonce from the Params words', () => {
+    const params = kernelParams(0x123456789an, DISPATCH_KEY.key, DISPATCH_KEY.nonceLo, DISPATCH_KEY.nonceHi);
+    expect(params.byteLength).toBe(48);
+    expect([params[0], params[1]]).toEqual([0x3456789a, 0x12]);
+    expect(kernelDispatchKey(params)).toEqual(DISPATCH_KEY);
+    expect(() => kernelParams(0n, new Uint32Array(2))).toThrow('Kernel key has 2 words, expected 8');
+    expect(() => kernelParams(1n << 64n, DISPATCH_KEY.key)).toThrow('is not a u64');
+  });
+
+  test('thread ids carry past 2^32 and wrap like u64', () => {
+    expect(kernelThreadId(0n, 7)).toBe(7n);
+    expect(kernelThreadId(0xffffffffn, 2)).toBe(0x100000001n);
+    expect(kernelThreadId(0xffffffffffffffffn, 2)).toBe(1n);
+  });
+});
+
+describe('Kernel Keys', () => {
+  test('clamps the SHA-512 of the seed', () => {
+    const seed = kernelSeed(DISPATCH_KEY, 42n);
+    const expected = createHash('sha512').update(seed).digest().subarray(0, 32);
+    expected[0] &= 0xf8;
+    expected[31] = (expected[31] & 0x3f) | 0x40;
+    expect(kernelScalar(seed)).toEqual(new Uint8Array(expected));
+  });
+
+  test('recomputed keys agree with Node crypto', () => {
+    const key = kernelKey(DISPATCH_KEY, 1234n);
+    expect(key.seed).toEqual(kernelSeed(DISPATCH_KEY, 1234n));
+    expect(key.publicKey).toEqual(nodePublicKey(key.seed));
+    expect(key.privateKey.slice(0, 32)).toEqual(key.seed);
+    expect(key.privateKey.slice(32)).toEqual(key.publicKey);
+    expect(key.address).toBe(bs58.encode(key.publicKey));
+  });
+});
+
+describe('Kernel Main', () => {
+  const anywhere = createPatternSet(['xy', '1?'], { ignoreCase: false, matchMode: 'anywhere' });
+
+  function bindings(patterns: Uint32Array, capacity: number = 4, batchOffset: bigint = 1000n) {
+    return {
+      results: new Uint32Array(resultBufferSize(capacity) / 4),
+      params: kernelParams(batchOffset, DISPATCH_KEY.key, DISPATCH_KEY.nonceLo, DISPATCH_KEY.nonceHi),
+      patterns,
+    };
+  }
+
+  test('matches addresses like the CPU matcher', () => {
+    const patterns = createPatternSet(['ab', 'Q'], { ignoreCase: true, matchMode: 'prefix' });
+    const config = createPatternSetConfig(patterns);
+    for (let tid = 0; tid < 200; tid++) {
+      const { address } = kernelKey(DISPATCH_KEY, BigInt(tid));
+      const entry = kernelMatchEntry(address, config);
+      expect(entry < config[1]).toBe(findMatchingPattern(address, patterns) !== -1);
+    }
+    expect(kernelMatchEntry('aBcdef', config)).toBe(0);
+    expect(kernelMatchEntry('qbcdef', config)).toBe(config[1] - 1);
+    expect(kernelMatchEntry('zzzzzz', config)).toBe(config[1]);
+  });
+
+  test('writes matches in the layout the host parses', () => {
+    const matchAll = createPatternSet(['?'], { ignoreCase: false, matchMode: 'prefix' });
+    const b = bindings(createPatternSetConfig(matchAll));
+    for (let globalId = 0; globalId < 3; globalId++) kernelMain(globalId, b);
+
+    const found = parseResultBuffer(b.results, 3n);
+    expect(found.map((key) => key.address)).toEqual(
+      [1000n, 1001n, 1002n].map((tid) => kernelKey(DISPATCH_KEY, tid).address)
+    );
+    expect(found[2].privateKey).toEqual(kernelKey(DISPATCH_KEY, 1002n).privateKey);
+    expect(b.results[RESULT_HEADER_SIZE / 4]).toBe(1000); // thread_id_lo
+    expect(b.results[RESULT_HEADER_SIZE / 4 + 3]).toBe(0); // thread_id_hi
+  });
+
+  test('carries thread ids past 2^32 into the high word', () => {
+    const matchAll = createPatternSet(['?'], { ignoreCase: false, matchMode: 'prefix' });
+    const b = bindings(createPatternSetConfig(matchAll), 4, 0xffffffffn);
+    for (let globalId = 0; globalId < 2; globalId++) kernelMain(globalId, b);
+
+    const found = parseResultBuffer(b.results, 2n);
+    expect(found.map((key) => key.address)).toEqual(
+      [0xffffffffn, 1n << 32n].map((tid) => kernelKey(DISPATCH_KEY, tid).address)
+    );
+    const second = (RESULT_HEADER_SIZE + RESULT_ENTRY_SIZE) / 4;
+    expect([b.results[second], b.results[second + 3]]).toEqual([0, 1]);
+  });
+
+  test('counts matches beyond the capacity without storing them', () => {
+    const matchAll = createPatternSet(['?'], { ignoreCase: false, matchMode: 'anywhere' });
+    const b = bindings(createPatternSetConfig(matchAll), 1);
+    for (let globalId = 0; globalId < 3; globalId++) kernelMain(globalId, b);
+
+    expect(parseResultBuffer(b.results, 3n)).toHaveLength(1);
+    expect(droppedResults(b.results)).toBe(2);
+  });
+
+  test('flags a pattern buffer of another layout', () => {
+    const config = createPatternSetConfig(anywhere);
+    config[0] = PATTERN_LAYOUT_VERSION + 1;
+    const b = bindings(config);
+    kernelMain(0, b);
+
+    expect(b.results[0]).toBe(RESULT_LAYOUT_MISMATCH);
+  });
+});
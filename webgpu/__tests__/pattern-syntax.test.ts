@@ -0,0 +1,207 @@
+import {
+  PatternSyntaxError,
+  compilePattern,
+  charClassHas,
+  charClassSize,
+  isAnyChar,
+} from '../src/pattern-syntax';
+import { createPattern, matchesPattern, validatePattern, calculateDifficulty } from '../src/pattern';
+import { BASE58_ALPHABET, CharClass } from '../src/types';
+
+function chars(cls: CharClass): string {
+  return BASE58_ALPHABET.split('')
+    .filter((_, i) => charClassHas(cls, i))
+    .join('');
+}
+
+function syntaxError(pattern: string): PatternSyntaxError {
+  try {
+    compilePattern(pattern, false);
+  } catch (e) {
+    return e as PatternSyntaxError;
+  }
+  throw new Error(`Expected '${pattern}' to be rejected`);
+}
+
+describe('Pattern Grammar', () => {
+  test('literals compile to single-character classes', () => {
+    const [classes] = compilePattern('Ab3', false);
+    expect(classes.map(chars)).toEqual(['A', 'b', '3']);
+  });
+
+  test('wildcard compiles to the full alphabet', () => {
+    const [classes] = compilePattern('?', false);
+    expect(isAnyChar(classes[0])).toBe(true);
+    expect(charClassSize(classes[0])).toBe(58);
+  });
+
+  test('ignoring case folds letters but not digits', () => {
+    const [classes] = compilePattern('a3L', true);
+    expect(classes.map(chars)).toEqual(['Aa', '3', 'L']); // no lowercase 'l' in Base58
+  });
+
+  test('character classes support sets and ranges', () => {
+    expect(compilePattern('[abc]', false)[0].map(chars)).toEqual(['abc']);
+    expect(compilePattern('[2-9]', false)[0].map(chars)).toEqual(['23456789']);
+    expect(compilePattern('[A-Cx]', false)[0].map(chars)).toEqual(['ABCx']);
+  });
+
+  test('ranges skip characters outside the alphabet', () => {
+    expect(compilePattern('[j-n]', false)[0].map(chars)).toEqual(['jkmn']);
+    expect(compilePattern('[H-J]', false)[0].map(chars)).toEqual(['HJ']);
+  });
+
+  test('negated classes exclude their members', () => {
+    const [classes] = compilePattern('[^1]', false);
+    expect(charClassSize(classes[0])).toBe(57);
+    expect(chars(classes[0])).not.toContain('1');
+  });
+
+  test('negated classes exclude both cases when ignoring case', () => {
+    const [classes] = compilePattern('[^a]', true);
+    expect(chars(classes[0])).not.toMatch(/[aA]/);
+  });
+
+  test('alternation expands into separate alternatives', () => {
+    const alternatives = compilePattern('(sun|SUN)[2-9]', false);
+    expect(alternatives.map((a) => a.map(chars))).toEqual([
+      ['s', 'u', 'n', '23456789'],
+      ['S', 'U', 'N', '23456789'],
+    ]);
+  });
+
+  test('alternatives may differ in length and nest', () => {
+    const alternatives = compilePattern('A(B|C(D|EF))', false);
+    expect(alternatives.map((a) => a.map(chars).join(''))).toEqual(['AB', 'ACD', 'ACEF']);
+  });
+
+  test('alternatives that fold to the same classes are merged', () => {
+    expect(compilePattern('(sun|SUN)', true)).toHaveLength(1);
+  });
+
+  test('rejects oversized expansions', () => {
+    expect(() => compilePattern('(a|b)(a|b)(a|b)(a|b)(a|b)(a|b)(a|b)', false)).toThrow(
+      /too many alternatives/
+    );
+  });
+
+  test('rejects alternatives longer than an address', () => {
+    expect(() => compilePattern('(A|' + 'B'.repeat(45) + ')', false)).toThrow(/too long/);
+    expect(() => compilePattern('[AB]'.repeat(44), false)).not.toThrow();
+  });
+});
+
+describe('Pattern Syntax Errors', () => {
+  test('reports the position of invalid characters', () => {
+    const error = syntaxError('AB0');
+    expect(error).toBeInstanceOf(PatternSyntaxError);
+    expect(error.position).toBe(2);
+    expect(error.message).toMatch(/Invalid character '0' at position 2/);
+  });
+
+  test('reports invalid characters inside classes', () => {
+    expect(syntaxError('[0-9]').position).toBe(1);
+    expect(syntaxError('A[bl]').position).toBe(3);
+  });
+
+  test('reports unclosed classes and groups at their opening bracket', () => {
+    expect(syntaxError('AB[cd').message).toMatch(/Unclosed character class '\[' at position 2/);
+    expect(syntaxError('A(b|c').message).toMatch(/Unclosed group '\(' at position 1/);
+  });
+
+  test('reports stray closing brackets and bars', () => {
+    expect(syntaxError('AB)').position).toBe(2);
+    expect(syntaxError('A|B').position).toBe(1);
+  });
+
+  test('reports empty patterns, groups and alternatives', () => {
+    expect(syntaxError('').message).toBe('Empty pattern');
+    expect(syntaxError('()').message).toMatch(/Empty alternative at position 1/);
+    expect(syntaxError('(A|)').position).toBe(3);
+    expect(syntaxError('(|A)').position).toBe(1);
+    expect(syntaxError('A(B|(|C))').position).toBe(5);
+  });
+
+  test('reports empty classes and reversed ranges', () => {
+    expect(syntaxError('A[]').message).toMatch(/Empty character class at position 1/);
+    expect(syntaxError('[^?]').position).toBe(2);
+    expect(syntaxError('[9-2]').message).toMatch(/Invalid range '9-2' at position 1/);
+  });
+
+  test('validatePattern accepts the extended syntax', () => {
+    expect(() => validatePattern('SUN[2-9]')).not.toThrow();
+    expect(() => validatePattern('(AB|CD)?[^1]')).not.toThrow();
+  });
+});
+
+describe('Extended Pattern Matching', () => {
+  test('classes constrain a single position', () => {
+    const pattern = createPattern('SUN[2-9]', { ignoreCase: false, matchMode: 'prefix' });
+    expect(matchesPattern('SUN7abc', pattern)).toBe(true);
+    expect(matchesPattern('SUN1abc', pattern)).toBe(false);
+    expect(matchesPattern('SUNxabc', pattern)).toBe(false);
+  });
+
+  test('alternation never mixes alternatives', () => {
+    const pattern = createPattern('(sun|SUN)', { ignoreCase: false, matchMode: 'prefix' });
+    expect(matchesPattern('sun123', pattern)).toBe(true);
+    expect(matchesPattern('SUN123', pattern)).toBe(true);
+    expect(matchesPattern('sUn123', pattern)).toBe(false);
+  });
+
+  test('alternatives of different lengths anchor correctly as suffixes', () => {
+    const pattern = createPattern('(Z|XY)', { ignoreCase: false, matchMode: 'suffix' });
+    expect(matchesPattern('abcZ', pattern)).toBe(true);
+    expect(matchesPattern('abXY', pattern)).toBe(true);
+    expect(matchesPattern('abXZY', pattern)).toBe(false);
+  });
+
+  test('negated classes work anywhere in the address', () => {
+    const pattern = createPattern('A[^1]C', { ignoreCase: true, matchMode: 'anywhere' });
+    expect(matchesPattern('xxabcxx', pattern)).toBe(true);
+    expect(matchesPattern('xxA1Cxx', pattern)).toBe(false);
+  });
+});
+
+describe('Class-aware Difficulty', () => {
+  test('a class position is easier than a literal by its size', () => {
+    const options = { ignoreCase: false, matchMode: 'suffix' as const };
+    const literal = calculateDifficulty('SUN2', options);
+    const digit = calculateDifficulty('SUN[2-9]', options);
+    expect(digit.effectiveLength).toBe(4);
+    expect(digit.expectedAttempts).toBeCloseTo(literal.expectedAttempts / 8, 6);
+  });
+
+  test('alternatives add their odds', () => {
+    const options = { ignoreCase: false, matchMode: 'prefix' as const };
+    const abc = calculateDifficulty('ABC', options);
+    const xyz = calculateDifficulty('XYZ', options);
+    const either = calculateDifficulty('(ABC|XYZ)', options);
+    expect(either.matchProbability).toBeCloseTo(abc.matchProbability + xyz.matchProbability, 8);
+  });
+
+  test('alternatives another one covers add nothing', () => {
+    const options = { ignoreCase: false, matchMode: 'prefix' as const };
+    const a = calculateDifficulty('A', options);
+    expect(calculateDifficulty('(A|AB)', options).matchProbability).toBeCloseTo(a.matchProbability, 12);
+    expect(calculateDifficulty('(AB|[A-C])', options).matchProbability).toBeCloseTo(
+      calculateDifficulty('[A-C]', options).matchProbability,
+      12
+    );
+    const suffix = { ignoreCase: false, matchMode: 'suffix' as const };
+    expect(calculateDifficulty('(Z|XZ)', suffix).matchProbability).toBeCloseTo(
+      calculateDifficulty('Z', suffix).matchProbability,
+      12
+    );
+  });
+
+  test('case folding is counted once per letter', () => {
+    const stats = calculateDifficulty('[aA]', { ignoreCase: true, matchMode: 'suffix' });
+    expect(stats.expectedAttempts).toBeCloseTo(29, 6);
+  });
+
+  test('digits have no case to fold', () => {
+    const stats = calculateDifficulty('3', { ignoreCase: true, matchMode: 'suffix' });
+    expect(stats.expectedAttempts).toBeCloseTo(58, 6);
+  });
+});
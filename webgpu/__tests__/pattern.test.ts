@@ -2,7 +2,12 @@ import {
   validatePattern,
   parsePatternWithCount,
   createPattern,
+  createPatternSet,
+  createCompositePattern,
+  isPatternSet,
+  toPatternSet,
   matchesPattern,
+  findMatchingPattern,
   calculateDifficulty,
 } from '../src/pattern';
 
@@ -95,28 +100,189 @@ describe('Pattern Matching', () => {
 });
 
 describe('Difficulty Calculation', () => {
+  // The last characters of an address are uniform, so suffixes give round numbers
   test('calculates correct difficulty for case-insensitive', () => {
-    const stats = calculateDifficulty('AB', { ignoreCase: true, matchMode: 'prefix' });
+    const stats = calculateDifficulty('AB', { ignoreCase: true, matchMode: 'suffix' });
     expect(stats.effectiveLength).toBe(2);
     expect(stats.alphabetSize).toBe(34);
-    expect(stats.expectedAttempts).toBe(34 * 34); // 1156
+    expect(stats.expectedAttempts).toBeCloseTo(29 * 29, 6); // 2 of 58 characters per letter
   });
 
   test('calculates correct difficulty for case-sensitive', () => {
-    const stats = calculateDifficulty('AB', { ignoreCase: false, matchMode: 'prefix' });
+    const stats = calculateDifficulty('AB', { ignoreCase: false, matchMode: 'suffix' });
     expect(stats.effectiveLength).toBe(2);
     expect(stats.alphabetSize).toBe(58);
-    expect(stats.expectedAttempts).toBe(58 * 58); // 3364
+    expect(stats.expectedAttempts).toBeCloseTo(58 * 58, 6); // 3364
   });
 
   test('wildcards reduce effective length', () => {
-    const stats = calculateDifficulty('A?C', { ignoreCase: true, matchMode: 'prefix' });
+    const stats = calculateDifficulty('A?C', { ignoreCase: true, matchMode: 'suffix' });
     expect(stats.effectiveLength).toBe(2); // Only A and C count
-    expect(stats.expectedAttempts).toBe(34 * 34);
+    expect(stats.expectedAttempts).toBeCloseTo(29 * 29, 6);
   });
 
-  test('p50 is approximately 0.693 * expected', () => {
+  test('expected attempts are the inverse of the match probability', () => {
     const stats = calculateDifficulty('ABC', { ignoreCase: true, matchMode: 'prefix' });
-    expect(stats.p50Attempts).toBeCloseTo(stats.expectedAttempts * 0.693, 0);
+    expect(stats.expectedAttempts).toBeCloseTo(1 / stats.matchProbability, 6);
+  });
+
+  test('p50 is approximately ln(2) * expected', () => {
+    const stats = calculateDifficulty('ABC', { ignoreCase: true, matchMode: 'prefix' });
+    expect(stats.p50Attempts).toBeCloseTo(stats.expectedAttempts * Math.LN2, -1);
+  });
+});
+
+describe('Pattern Sets', () => {
+  test('createPatternSet builds one pattern per entry with shared options', () => {
+    const set = createPatternSet(['Sun', 'Maon'], {
+      ignoreCase: false,
+      matchMode: 'suffix',
+    });
+    expect(set.patterns.map((p) => p.raw)).toEqual(['Sun', 'Maon']);
+    for (const p of set.patterns) {
+      expect(p.options).toEqual({ ignoreCase: false, matchMode: 'suffix' });
+    }
+  });
+
+  test('createPatternSet accepts prebuilt patterns', () => {
+    const prefix = createPattern('AB', { matchMode: 'prefix' });
+    const set = createPatternSet([prefix, 'XY']);
+    expect(set.patterns[0]).toBe(prefix);
+    expect(set.patterns[1].raw).toBe('XY');
+  });
+
+  test('createPatternSet validates every pattern', () => {
+    expect(() => createPatternSet(['ABC', 'A0C'])).toThrow(/Invalid character '0'/);
+  });
+
+  test('createPatternSet rejects empty and oversized sets', () => {
+    expect(() => createPatternSet([])).toThrow(/at least one/);
+    expect(() => createPatternSet(new Array(257).fill('A'))).toThrow(/Too many patterns/);
+  });
+
+  test('toPatternSet wraps a single pattern', () => {
+    const pattern = createPattern('AB');
+    expect(isPatternSet(pattern)).toBe(false);
+    const set = toPatternSet(pattern);
+    expect(isPatternSet(set)).toBe(true);
+    expect(set.patterns).toEqual([pattern]);
+    expect(toPatternSet(set)).toBe(set);
+  });
+
+  test('findMatchingPattern reports the first matching index', () => {
+    const set = createPatternSet(['Sun', 'Abc', 'S'], { ignoreCase: true, matchMode: 'prefix' });
+    expect(findMatchingPattern('Sunana123', set)).toBe(0);
+    expect(findMatchingPattern('abcdef', set)).toBe(1);
+    expect(findMatchingPattern('Stuff', set)).toBe(2);
+    expect(findMatchingPattern('xyz', set)).toBe(-1);
+  });
+
+  test('combined difficulty is easier than any single pattern', () => {
+    const options = { ignoreCase: true, matchMode: 'suffix' as const };
+    const single = calculateDifficulty('ABC', options);
+    const set = createPatternSet(['ABC', 'XYZ', 'DEF'], options);
+    const combined = calculateDifficulty(set);
+
+    // Three equally hard patterns: roughly a third of the attempts
+    expect(combined.expectedAttempts).toBeLessThan(single.expectedAttempts);
+    expect(combined.expectedAttempts).toBeCloseTo(single.expectedAttempts / 3, -2);
+    expect(combined.p50Attempts).toBeCloseTo(combined.expectedAttempts * Math.LN2, -1);
+  });
+
+  test('combined difficulty of a single-entry set matches the pattern', () => {
+    const options = { ignoreCase: false, matchMode: 'suffix' as const };
+    const set = createPatternSet(['AB'], options);
+    expect(calculateDifficulty(set).expectedAttempts).toBeCloseTo(58 * 58, 6);
+  });
+
+  test('combined difficulty reports the easiest pattern length', () => {
+    const set = createPatternSet(['ABCD', 'XY'], { ignoreCase: true, matchMode: 'prefix' });
+    expect(calculateDifficulty(set).effectiveLength).toBe(2);
+  });
+});
+
+describe('Composite Patterns', () => {
+  const startsAndEnds = () =>
+    createCompositePattern(
+      [
+        { raw: 'ABC', anchor: 'start' },
+        { raw: 'XYZ', anchor: 'end' },
+      ],
+      { ignoreCase: false }
+    );
+
+  test('requires every segment to match', () => {
+    const pattern = startsAndEnds();
+    expect(matchesPattern('ABCdefghXYZ', pattern)).toBe(true);
+    expect(matchesPattern('ABCdefghXYz', pattern)).toBe(false);
+    expect(matchesPattern('xBCdefghXYZ', pattern)).toBe(false);
+  });
+
+  test('fixed-index segments are pinned from the start', () => {
+    const pattern = createCompositePattern(
+      [
+        { raw: 'A', anchor: 'start' },
+        { raw: '(77|88)', anchor: 5 },
+      ],
+      { ignoreCase: false }
+    );
+    expect(matchesPattern('Abcde77xyz', pattern)).toBe(true);
+    expect(matchesPattern('Abcde88xyz', pattern)).toBe(true);
+    expect(matchesPattern('Abcd77xyz', pattern)).toBe(false);
+    expect(matchesPattern('Abcde78xyz', pattern)).toBe(false);
+  });
+
+  test('overlapping segments must agree', () => {
+    const pattern = createCompositePattern(
+      [
+        { raw: 'A[2-9]', anchor: 'start' },
+        { raw: '[1-3]', anchor: 1 },
+      ],
+      { ignoreCase: false }
+    );
+    expect(matchesPattern('A3xx', pattern)).toBe(true);
+    expect(matchesPattern('A5xx', pattern)).toBe(false);
+
+    expect(() =>
+      createCompositePattern([
+        { raw: 'AB', anchor: 'start' },
+        { raw: 'C', anchor: 1 },
+      ])
+    ).toThrow(/Segments conflict at position 1/);
+  });
+
+  test('rejects segments that cannot fit an address', () => {
+    expect(() => createCompositePattern([{ raw: 'AB', anchor: 43 }])).toThrow(/past the end/);
+    expect(() => createCompositePattern([{ raw: 'A', anchor: -1 }])).toThrow(/Invalid segment index/);
+    expect(() => createCompositePattern([])).toThrow(/at least one segment/);
+  });
+
+  test('describes its segments in raw', () => {
+    const pattern = createCompositePattern([
+      { raw: 'ABC', anchor: 'start' },
+      { raw: 'D', anchor: 7 },
+      { raw: 'XYZ', anchor: 'end' },
+    ]);
+    expect(pattern.raw).toBe('^ABC @7:D XYZ$');
+    expect(pattern.options.matchMode).toBe('composite');
+  });
+
+  test('composite match mode cannot be used with a plain pattern string', () => {
+    expect(() => createPattern('ABC', { matchMode: 'composite' })).toThrow(/createCompositePattern/);
+  });
+
+  test('difficulty multiplies across segments', () => {
+    const options = { ignoreCase: false };
+    const stats = calculateDifficulty(createPatternSet([startsAndEnds()]));
+    const start = calculateDifficulty('ABC', { ...options, matchMode: 'prefix' });
+    const end = calculateDifficulty('XYZ', { ...options, matchMode: 'suffix' });
+    expect(stats.effectiveLength).toBe(6);
+    expect(stats.matchProbability / (start.matchProbability * end.matchProbability)).toBeCloseTo(1, 3);
+  });
+
+  test('composite patterns can join a pattern set', () => {
+    const set = createPatternSet([createPattern('Sun'), startsAndEnds()]);
+    expect(findMatchingPattern('ABC1234XYZ', set)).toBe(1);
+    expect(findMatchingPattern('sun1234XYZ', set)).toBe(0);
   });
 });
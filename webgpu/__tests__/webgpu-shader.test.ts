@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { WORKGROUP_SIZE } from '../src/gpu-utils';
 
 // Read the WGSL shader
 const shaderPath = path.join(__dirname, '../src/shaders/vanity.wgsl');
@@ -13,14 +14,14 @@ describe('WGSL Shader', () => {
     });
 
     test('contains main entry point', () => {
-      expect(shaderCode).toMatch(/@compute\s+@workgroup_size\(\d+\)\s*\n\s*fn\s+main/);
+      expect(shaderCode).toMatch(/@compute\s+@workgroup_size\(\w+\)\s*\n\s*fn\s+main/);
     });
 
     test('defines required structures', () => {
       expect(shaderCode).toContain('struct PatternConfig');
+      expect(shaderCode).toContain('struct PatternSet');
       expect(shaderCode).toContain('struct ResultBuffer');
       expect(shaderCode).toContain('struct Params');
-      expect(shaderCode).toContain('struct Rng');
     });
 
     test('defines required bindings', () => {
@@ -51,10 +52,6 @@ describe('WGSL Shader', () => {
       expect(shaderCode).toContain('fn u64_or');
       expect(shaderCode).toContain('fn u64_not');
     });
-
-    test('contains u64 multiply function', () => {
-      expect(shaderCode).toContain('fn u64_mul');
-    });
   });
 
   describe('SHA-512 Implementation', () => {
@@ -120,17 +117,28 @@ describe('WGSL Shader', () => {
     });
   });
 
-  describe('RNG Implementation', () => {
-    test('contains RNG structure', () => {
-      expect(shaderCode).toMatch(/struct\s+Rng\s*\{/);
+  describe('Key Seeds', () => {
+    test('derives seeds with ChaCha20 from a 256-bit key in the params', () => {
+      expect(shaderCode).toContain('fn chacha_quarter_round');
+      expect(shaderCode).toContain('fn seed_for');
+      expect(shaderCode).toMatch(/key: array<vec4<u32>, 2>/);
+      expect(shaderCode).toContain('0x61707865u'); // "expa"
     });
 
-    test('contains rng_next function', () => {
-      expect(shaderCode).toContain('fn rng_next');
+    test('counts threads in 64 bits, so batch offsets never wrap within a run', () => {
+      expect(shaderCode).toMatch(/batch_offset_lo: u32,\s*batch_offset_hi: u32/);
+      expect(shaderCode).toContain('fn seed_for(tid: vec2<u32>');
+      expect(shaderCode).toContain('thread_id_hi = tid.y');
     });
 
-    test('contains rng_init function', () => {
-      expect(shaderCode).toContain('fn rng_init');
+    test('no longer uses the xorshift128+ generator', () => {
+      expect(shaderCode).not.toContain('fn rng_next');
+      expect(shaderCode).not.toContain('base_seed');
+    });
+
+    test('returns the seed, not the clamped scalar, as the private key', () => {
+      expect(shaderCode).toContain('private_key[i] = seed[i]');
+      expect(shaderCode).not.toContain('private_key[i] = hash[i]');
     });
   });
 
@@ -155,30 +163,58 @@ describe('WGSL Shader', () => {
       expect(shaderCode).toContain('fn pattern_matches');
     });
 
-    test('contains to_lower function for case-insensitive matching', () => {
-      expect(shaderCode).toContain('fn to_lower');
+    test('matches address characters against Base58 digit bitmasks', () => {
+      expect(shaderCode).toContain('fn base58_index');
+      expect(shaderCode).toContain('fn mask_allows');
     });
 
     test('PatternConfig has required fields', () => {
-      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*length:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*head_length:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*tail_length:\s*u32/);
       expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*match_mode:\s*u32/);
-      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*ignore_case:\s*u32/);
-      // Pattern is split into two vec4<u32> for uniform buffer alignment
-      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*pattern0:\s*vec4<u32>/);
-      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*pattern1:\s*vec4<u32>/);
+      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*pattern_index:\s*u32/);
+      // One 58-bit mask (as vec2<u32>) per position, up to the full address length,
+      // for both the start-anchored head and the end-anchored tail
+      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*head:\s*array<vec2<u32>,\s*44>/);
+      expect(shaderCode).toMatch(/struct\s+PatternConfig\s*\{[^}]*tail:\s*array<vec2<u32>,\s*44>/);
+    });
+
+    test('patterns are read from a runtime-sized storage array', () => {
+      expect(shaderCode).toMatch(/struct\s+PatternSet\s*\{[^}]*version:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternSet\s*\{[^}]*count:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternSet\s*\{[^}]*entry_size:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternSet\s*\{[^}]*max_length:\s*u32/);
+      expect(shaderCode).toMatch(/struct\s+PatternSet\s*\{[^}]*entries:\s*array<PatternConfig>/);
+      expect(shaderCode).toContain('@group(0) @binding(2) var<storage, read> patterns: PatternSet');
+    });
+
+    test('refuses pattern buffers of another layout version', () => {
+      expect(shaderCode).toMatch(/const\s+PATTERN_LAYOUT_VERSION\s*:\s*u32\s*=\s*\d+u/);
+      expect(shaderCode).toMatch(/patterns\.version\s*!=\s*PATTERN_LAYOUT_VERSION/);
+      expect(shaderCode).toContain('atomicStore(&results.count, RESULT_LAYOUT_MISMATCH)');
+    });
+
+    test('reports which pattern matched', () => {
+      expect(shaderCode).toContain('fn find_matching_entry');
+      expect(shaderCode).toMatch(/struct\s+ResultEntry\s*\{[^}]*pattern_index:\s*u32/);
     });
   });
 
   describe('Atomic Operations', () => {
-    test('uses atomic for found flag', () => {
-      expect(shaderCode).toContain('atomic<u32>');
-      expect(shaderCode).toContain('atomicMax');
+    test('collects every match in an append-only result list', () => {
+      expect(shaderCode).toMatch(/struct\s+ResultBuffer\s*\{[^}]*count:\s*atomic<u32>/);
+      expect(shaderCode).toMatch(/struct\s+ResultBuffer\s*\{[^}]*entries:\s*array<ResultEntry>/);
+      expect(shaderCode).toContain('atomicAdd(&results.count, 1u)');
+      expect(shaderCode).toContain('arrayLength(&results.entries)');
+      expect(shaderCode).not.toContain('atomicMax');
     });
   });
 
   describe('Workgroup Configuration', () => {
-    test('main kernel has workgroup_size of 64', () => {
-      expect(shaderCode).toMatch(/@compute\s+@workgroup_size\(64\)\s*\n\s*fn\s+main/);
+    test('main kernel takes its workgroup size from an override defaulting to 64', () => {
+      expect(shaderCode).toMatch(/@compute\s+@workgroup_size\(WORKGROUP_SIZE\)\s*\n\s*fn\s+main/);
+      const override = /override\s+WORKGROUP_SIZE\s*:\s*u32\s*=\s*(\d+)u/.exec(shaderCode);
+      expect(Number(override?.[1])).toBe(WORKGROUP_SIZE);
     });
   });
 });
@@ -253,7 +289,7 @@ describe('WebGPU Grinder Mock', () => {
 
     // Params buffer
     mockDevice.createBuffer({
-      size: 16,
+      size: 48,
       usage: 0x0040 | 0x0008, // UNIFORM | COPY_DST
     });
 
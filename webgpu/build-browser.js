@@ -27,16 +27,32 @@ const rawPlugin = {
 async function build() {
   try {
     await esbuild.build({
-      entryPoints: ['src/browser-benchmark.ts'],
+      // The page script, and the Web Worker its CPU grinder loads
+      entryPoints: ['src/browser-benchmark.ts', 'src/browser-cpu-worker.ts'],
       bundle: true,
-      outfile: 'dist/browser-benchmark.js',
+      outdir: 'dist',
       format: 'iife',
       target: ['chrome113', 'firefox114', 'safari17'],
       minify: false,
       sourcemap: true,
       plugins: [rawPlugin],
     });
-    console.log('Browser bundle built successfully: dist/browser-benchmark.js');
+    // The grinder engine as an ES module for other web apps; platform 'browser'
+    // makes any Node built-in that leaks into the core a build error
+    await esbuild.build({
+      entryPoints: ['src/browser.ts'],
+      bundle: true,
+      outfile: 'dist/browser.mjs',
+      format: 'esm',
+      platform: 'browser',
+      target: ['chrome113', 'firefox114', 'safari17'],
+      minify: false,
+      sourcemap: true,
+      plugins: [rawPlugin],
+    });
+    console.log(
+      'Browser bundle built successfully: dist/browser-benchmark.js, dist/browser-cpu-worker.js, dist/browser.mjs'
+    );
   } catch (error) {
     console.error('Build failed:', error);
     process.exit(1);
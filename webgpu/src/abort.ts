@@ -0,0 +1,70 @@
+// Cancellation of searches through AbortSignal
+
+/**
+ * Thrown (as a rejection) by a search whose AbortSignal fired. Attempts made
+ * before the abort still count in the grinder's stats; matches in flight
+ * are dropped.
+ */
+export class SearchAbortedError extends Error {
+  readonly reason: unknown; // The signal's abort reason
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? `Search aborted: ${reason.message}` : 'Search aborted');
+    this.name = 'SearchAbortedError';
+    this.reason = reason;
+  }
+}
+
+export function isSearchAborted(error: unknown): error is SearchAbortedError {
+  return error instanceof SearchAbortedError;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new SearchAbortedError(signal.reason);
+}
+
+/**
+ * Settles like `promise`, or rejects with SearchAbortedError as soon as the
+ * signal fires. The promise itself keeps running; its outcome is ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(new SearchAbortedError(signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => {});
+      reject(new SearchAbortedError(signal.reason));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Waits `ms` milliseconds, or rejects with SearchAbortedError as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(new SearchAbortedError(signal.reason));
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new SearchAbortedError(signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
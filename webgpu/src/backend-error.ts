@@ -0,0 +1,21 @@
+// Failure to use a search backend on this machine
+
+/**
+ * Thrown when a backend was asked for but can't run here, e.g. WebGPU with
+ * no adapter. Searching never silently falls back to another backend.
+ */
+export class BackendUnavailableError extends Error {
+  readonly backend: string;
+  readonly reason: string;
+
+  constructor(backend: string, reason: string) {
+    super(`Backend '${backend}' is unavailable: ${reason}`);
+    this.name = 'BackendUnavailableError';
+    this.backend = backend;
+    this.reason = reason;
+  }
+}
+
+export function isBackendUnavailable(error: unknown): error is BackendUnavailableError {
+  return error instanceof BackendUnavailableError;
+}
@@ -0,0 +1,226 @@
+// Registry of search backends: what each one is, whether it runs here, and how to make one
+import { webcrypto, randomBytes } from 'crypto';
+import * as os from 'os';
+import { Grinder, PatternInput, PatternSet } from './types';
+import { toPatternSet } from './pattern';
+import { CpuPoolGrinder } from './cpu-pool-grinder';
+import { DeterministicCpuGrinder, MASTER_SEED_LENGTH } from './deterministic-grinder';
+import { HybridBackend, HybridGrinder } from './hybrid-grinder';
+import { WebGpuGrinder, WebGpuGrinderOptions, createWebGpuGrinder } from './webgpu-grinder';
+import { GpuAdapterSelector, listGpuAdapters, selectGpuAdapters } from './gpu-adapters';
+import { BackendUnavailableError, isBackendUnavailable } from './backend-error';
+import { getNodeGpu } from './webgpu-node';
+
+export type BackendName = 'cpu' | 'noble' | 'webgpu';
+
+// 'hybrid' runs WebGPU and the CPU pool together; 'auto' picks it when a GPU
+// is usable, otherwise the first available CPU backend
+export type BackendChoice = 'auto' | 'hybrid' | BackendName;
+
+export interface BackendProbe {
+  backend: BackendName;
+  available: boolean;
+  reason?: string; // Why it can't run, when unavailable
+  adapter?: GPUAdapterInfo; // WebGPU: the adapter it would use
+  threads?: number; // CPU pool: workers it would start by default
+}
+
+export interface BackendOptions {
+  threads?: number; // CPU pool workers (default: one per core)
+  gpu?: WebGpuGrinderOptions;
+  gpuAdapters?: GpuAdapterSelector[]; // Adapters to search on, one GPU grinder each (default: the default adapter)
+  deterministic?: { masterSeed: Uint8Array; startCounter?: number }; // noble: default a random master seed
+}
+
+export interface Backend {
+  name: BackendName;
+  label: string; // Short name for progress output
+  description: string;
+  probe(): Promise<BackendProbe>;
+  // Creates a ready grinder; throws BackendUnavailableError if it can't run here
+  create(patterns: PatternSet, options: BackendOptions): Promise<Grinder>;
+}
+
+const cpuBackend: Backend = {
+  name: 'cpu',
+  label: 'CPU',
+  description: 'Web Crypto Ed25519 on a pool of worker threads',
+
+  async probe() {
+    try {
+      await webcrypto.subtle.generateKey('Ed25519' as unknown as EcKeyGenParams, false, ['sign']);
+    } catch (error) {
+      return { backend: 'cpu', available: false, reason: `Web Crypto has no Ed25519 (${(error as Error).message})` };
+    }
+    return { backend: 'cpu', available: true, threads: os.availableParallelism() };
+  },
+
+  async create(patterns, options) {
+    return new CpuPoolGrinder(patterns, options.threads);
+  },
+};
+
+const nobleBackend: Backend = {
+  name: 'noble',
+  label: 'CPU (noble)',
+  description: 'Reproducible keys from a master seed, derived with @noble/ed25519 on one thread',
+
+  async probe() {
+    // Pure JavaScript: runs wherever this module loaded
+    return { backend: 'noble', available: true, threads: 1 };
+  },
+
+  async create(patterns, options) {
+    const masterSeed = options.deterministic?.masterSeed ?? Uint8Array.from(randomBytes(MASTER_SEED_LENGTH));
+    return new DeterministicCpuGrinder(patterns, masterSeed, options.deterministic?.startCounter);
+  },
+};
+
+const webGpuBackend: Backend = {
+  name: 'webgpu',
+  label: 'GPU',
+  description: 'Whole key search in a WebGPU compute shader',
+
+  async probe() {
+    try {
+      const adapter = await getNodeGpu().requestAdapter();
+      if (!adapter) return { backend: 'webgpu', available: false, reason: 'No WebGPU adapter found' };
+      return { backend: 'webgpu', available: true, adapter: adapter.info };
+    } catch (error) {
+      const reason = error instanceof BackendUnavailableError ? error.reason : (error as Error).message;
+      return { backend: 'webgpu', available: false, reason };
+    }
+  },
+
+  async create(patterns, options) {
+    // A GPU that fails for good hands the search to the CPU pool
+    const gpus = await createGpuBackends(patterns, options, () => cpuBackend.create(patterns, options));
+    return gpus.length === 1 ? gpus[0].grinder : new HybridGrinder(gpus);
+  },
+};
+
+/**
+ * One GPU grinder per selected adapter, each with its own seed space index
+ * in the nonce so no two repeat each other's keys. Only the first gets
+ * the fallback: the hybrid that runs them carries on without a failed one.
+ */
+async function createGpuBackends(
+  patterns: PatternSet,
+  options: BackendOptions,
+  fallback?: WebGpuGrinderOptions['fallback']
+): Promise<HybridBackend[]> {
+  if (!options.gpuAdapters || options.gpuAdapters.length === 0) {
+    return [{ name: webGpuBackend.label, grinder: await createWebGpuGrinder(patterns, { fallback, ...options.gpu }) }];
+  }
+
+  const adapters = selectGpuAdapters(await listGpuAdapters(getNodeGpu()), options.gpuAdapters);
+  const grinders: WebGpuGrinder[] = [];
+  try {
+    for (const [i, adapter] of adapters.entries()) {
+      const grinder = await createWebGpuGrinder(patterns, {
+        fallback: i === 0 ? fallback : undefined,
+        ...options.gpu,
+        adapter: adapter.requests[0],
+        seedSpace: adapters.length > 1 ? { index: i } : undefined,
+      });
+      grinders.push(grinder);
+    }
+  } catch (error) {
+    for (const grinder of grinders) grinder.destroy();
+    throw error;
+  }
+  if (grinders.length === 1) return [{ name: webGpuBackend.label, grinder: grinders[0] }];
+  return grinders.map((grinder, i) => ({ name: `${webGpuBackend.label} ${adapters[i].index}`, grinder }));
+}
+
+export const BACKENDS: readonly Backend[] = [cpuBackend, nobleBackend, webGpuBackend];
+
+export function getBackend(name: string): Backend {
+  const backend = BACKENDS.find((b) => b.name === name);
+  if (!backend) {
+    throw new Error(`Unknown backend '${name}' (expected one of: ${BACKENDS.map((b) => b.name).join(', ')})`);
+  }
+  return backend;
+}
+
+// Validates a backend choice given as text, e.g. on the command line
+export function parseBackendChoice(value: string): BackendChoice {
+  const choices = ['auto', 'hybrid', ...BACKENDS.map((b) => b.name)];
+  if (!choices.includes(value)) {
+    throw new Error(`Unknown backend '${value}' (expected one of: ${choices.join(', ')})`);
+  }
+  return value as BackendChoice;
+}
+
+// Probes every registered backend, in registry order
+export function probeBackends(): Promise<BackendProbe[]> {
+  return Promise.all(BACKENDS.map((backend) => backend.probe()));
+}
+
+export interface CreateGrinderOptions extends BackendOptions {
+  backend?: BackendChoice; // Default 'auto'
+  stopAfter?: number; // Hybrid: matches that end a batch (default 1)
+}
+
+export interface CreatedGrinder {
+  grinder: Grinder;
+  backend: 'hybrid' | BackendName;
+  label: string;
+  probes: BackendProbe[]; // The probes the choice was based on
+}
+
+/**
+ * Creates a grinder for the chosen backend, after probing that it can run.
+ * A backend that can't is an error, never a silent fallback; only 'auto'
+ * falls back, and only to a backend that probed available. A GPU that
+ * probes available but then fails to initialize shows up as unavailable in
+ * the probes 'auto' returns. A master seed implies the noble backend.
+ */
+export async function createGrinder(pattern: PatternInput, options: CreateGrinderOptions = {}): Promise<CreatedGrinder> {
+  const patterns = toPatternSet(pattern);
+  const choice = options.backend ?? (options.deterministic ? 'noble' : 'auto');
+  if (options.deterministic && choice !== 'noble') {
+    throw new Error(`Backend '${choice}' can't search from a master seed, use 'noble'`);
+  }
+
+  if (choice !== 'auto' && choice !== 'hybrid') {
+    const backend = getBackend(choice);
+    const probe = await backend.probe();
+    if (!probe.available) throw new BackendUnavailableError(backend.name, probe.reason ?? 'unknown reason');
+    const grinder = await backend.create(patterns, options);
+    return { grinder, backend: backend.name, label: backend.label, probes: [probe] };
+  }
+
+  const probes = await probeBackends();
+  const gpuIndex = probes.findIndex((probe) => probe.backend === 'webgpu');
+  let gpuProbe = probes[gpuIndex];
+  const cpuProbe = probes.find((probe) => probe.backend === 'cpu')!;
+
+  if (gpuProbe.available && cpuProbe.available) {
+    // No fallback: the hybrid retires a failed GPU and carries on with the CPU pool it already runs
+    let gpus: HybridBackend[] | null = null;
+    try {
+      gpus = await createGpuBackends(patterns, options);
+    } catch (error) {
+      // Probing found a GPU that then wouldn't initialize; 'auto' searches without it
+      if (choice !== 'auto' || !isBackendUnavailable(error)) throw error;
+      gpuProbe = probes[gpuIndex] = { ...gpuProbe, available: false, reason: error.reason };
+    }
+    if (gpus) {
+      const cpu = await cpuBackend.create(patterns, options);
+      const grinder = new HybridGrinder([...gpus, { name: cpuBackend.label, grinder: cpu }], options.stopAfter);
+      const label = [...gpus.map((gpu) => gpu.name), cpuBackend.label].join(' + ');
+      return { grinder, backend: 'hybrid', label, probes };
+    }
+  }
+  if (choice === 'hybrid') {
+    const missing = gpuProbe.available ? cpuProbe : gpuProbe;
+    throw new BackendUnavailableError(missing.backend, missing.reason ?? 'unknown reason');
+  }
+
+  // Without both, the GPU alone beats any CPU backend
+  const usable = gpuProbe.available ? gpuProbe : probes.find((probe) => probe.available);
+  if (!usable) throw new BackendUnavailableError('auto', 'no backend can run here');
+  const backend = getBackend(usable.backend);
+  return { grinder: await backend.create(patterns, options), backend: backend.name, label: backend.label, probes };
+}
@@ -0,0 +1,197 @@
+// Exact Base58 address distribution for uniformly random 32-byte public keys
+//
+// An address is one '1' per leading zero byte followed by the Base58 digits
+// of the key as a 256-bit integer. Since 58^43 < 2^256 < 58^44, most
+// addresses are 44 characters long and start with one of the first few
+// digits, while the rest are 43 characters (or shorter) and start with
+// anything. Probabilities are found by counting, for each possible
+// (leading zeros, digit count) bucket, the integers whose digits fall in the
+// required character classes.
+import { CharClass, PatternAlternative, BASE58_ALPHABET, MAX_PATTERN_LENGTH } from './types';
+import {
+  ANY_CHAR,
+  charClassCountBelow,
+  charClassHas,
+  charClassSize,
+  intersectClasses,
+} from './pattern-syntax';
+
+const KEY_BYTES = 32;
+const KEY_SPACE = 1n << BigInt(KEY_BYTES * 8);
+const BASE = 58n;
+
+// Keys in [lo, hi) encode to `zeros` '1's followed by exactly `digits` digits
+interface LengthBucket {
+  zeros: number;
+  digits: number;
+  lo: bigint;
+  hi: bigint;
+}
+
+const BUCKETS = buildBuckets();
+
+function buildBuckets(): LengthBucket[] {
+  const buckets: LengthBucket[] = [];
+
+  for (let zeros = 0; zeros < KEY_BYTES; zeros++) {
+    // Exactly `zeros` leading zero bytes: the next byte is non-zero
+    const lo = 1n << BigInt((KEY_BYTES - zeros - 1) * 8);
+    const hi = 1n << BigInt((KEY_BYTES - zeros) * 8);
+
+    for (let digits = digitCount(lo); digits <= digitCount(hi - 1n); digits++) {
+      const digitsLo = BASE ** BigInt(digits - 1);
+      const digitsHi = BASE ** BigInt(digits);
+      buckets.push({
+        zeros,
+        digits,
+        lo: lo > digitsLo ? lo : digitsLo,
+        hi: hi < digitsHi ? hi : digitsHi,
+      });
+    }
+  }
+
+  // The all-zero key encodes to 32 '1's and no digits
+  buckets.push({ zeros: KEY_BYTES, digits: 0, lo: 0n, hi: 1n });
+  return buckets;
+}
+
+function digitCount(value: bigint): number {
+  let digits = 0;
+  for (let v = value; v > 0n; v /= BASE) digits++;
+  return digits;
+}
+
+/**
+ * Counts the `classes.length`-digit strings (leading zero digits allowed)
+ * whose value is below n and whose every digit is in its class. A null class
+ * allows any digit.
+ */
+function countBelow(n: bigint, classes: (CharClass | null)[]): bigint {
+  const d = classes.length;
+  const sizes = classes.map((cls) => BigInt(cls ? charClassSize(cls) : 58));
+
+  // Number of choices for the digits after position i
+  const suffix = new Array<bigint>(d + 1);
+  suffix[d] = 1n;
+  for (let i = d - 1; i >= 0; i--) suffix[i] = suffix[i + 1] * sizes[i];
+
+  if (n >= BASE ** BigInt(d)) return suffix[0];
+
+  const digits = new Array<number>(d);
+  let v = n;
+  for (let i = d - 1; i >= 0; i--) {
+    digits[i] = Number(v % BASE);
+    v /= BASE;
+  }
+
+  let count = 0n;
+  for (let i = 0; i < d; i++) {
+    const cls = classes[i];
+    const below = cls ? charClassCountBelow(cls, digits[i]) : digits[i];
+    count += BigInt(below) * suffix[i + 1];
+    if (cls && !charClassHas(cls, digits[i])) return count;
+  }
+  return count;
+}
+
+// Places head at `offset` and tail against the end of a `length`-char address,
+// or returns null when they don't fit or disagree
+function constraintsFor(
+  alternative: PatternAlternative,
+  offset: number,
+  length: number
+): (CharClass | null)[] | null {
+  const { head, tail } = alternative;
+  if (offset + head.length > length || tail.length > length) return null;
+
+  const classes = new Array<CharClass | null>(length).fill(null);
+  const place = (position: number, cls: CharClass): boolean => {
+    const current = classes[position];
+    const merged = current ? intersectClasses(current, cls) : cls;
+    if (charClassSize(merged) === 0) return false;
+    classes[position] = merged;
+    return true;
+  };
+
+  for (let i = 0; i < head.length; i++) {
+    if (!place(offset + i, head[i])) return null;
+  }
+  for (let i = 0; i < tail.length; i++) {
+    if (!place(length - tail.length + i, tail[i])) return null;
+  }
+  return classes;
+}
+
+/**
+ * Exact probability that the address of a uniformly random public key has
+ * `alternative.head` starting at `offset` and `alternative.tail` at its end.
+ */
+export function alternativeProbability(alternative: PatternAlternative, offset: number = 0): number {
+  let count = 0n;
+
+  for (const bucket of BUCKETS) {
+    const classes = constraintsFor(alternative, offset, bucket.zeros + bucket.digits);
+    if (!classes) continue;
+
+    // Leading zero bytes are always '1' (digit 0)
+    const leading = classes.slice(0, bucket.zeros);
+    if (leading.some((cls) => cls && !charClassHas(cls, 0))) continue;
+
+    const digitClasses = classes.slice(bucket.zeros);
+    count += countBelow(bucket.hi, digitClasses) - countBelow(bucket.lo, digitClasses);
+  }
+
+  return Number(count) / Number(KEY_SPACE);
+}
+
+/**
+ * Probability that the head of the alternative appears at some offset of the
+ * address. Offsets are treated as independent, which slightly overstates the
+ * odds of self-overlapping patterns like `AAA`.
+ */
+export function anywhereProbability(alternative: PatternAlternative): number {
+  let logMiss = 0;
+  for (let offset = 0; offset + alternative.head.length <= MAX_PATTERN_LENGTH; offset++) {
+    logMiss += Math.log1p(-alternativeProbability(alternative, offset));
+  }
+  return -Math.expm1(logMiss);
+}
+
+const distributionCache = new Map<string, number[]>();
+
+/**
+ * Probability of each Base58 character (indexed like BASE58_ALPHABET) at the
+ * given position, counted from the start of the address or from its end.
+ * Probabilities sum to less than 1 where the address may be too short to
+ * have the position.
+ */
+export function charDistribution(position: number, fromEnd: boolean = false): number[] {
+  const key = `${position}:${fromEnd}`;
+  let distribution = distributionCache.get(key);
+  if (!distribution) {
+    distribution = [];
+    for (let i = 0; i < BASE58_ALPHABET.length; i++) {
+      const cls: CharClass = i < 32 ? { lo: (1 << i) >>> 0, hi: 0 } : { lo: 0, hi: 1 << (i - 32) };
+      const alternative = fromEnd
+        ? { head: [], tail: [cls, ...new Array<CharClass>(position).fill(ANY_CHAR)] }
+        : { head: [...new Array<CharClass>(position).fill(ANY_CHAR), cls], tail: [] };
+      distribution.push(alternativeProbability(alternative));
+    }
+    distributionCache.set(key, distribution);
+  }
+  return distribution;
+}
+
+/**
+ * Probability that the character at a position is in the class. Under case
+ * folding the class holds both cases of each letter but a digit only once,
+ * so each character is weighted by its own probability.
+ */
+export function classProbability(cls: CharClass, position: number, fromEnd: boolean = false): number {
+  const distribution = charDistribution(position, fromEnd);
+  let p = 0;
+  for (let i = 0; i < distribution.length; i++) {
+    if (charClassHas(cls, i)) p += distribution[i];
+  }
+  return p;
+}
@@ -2,26 +2,11 @@ import { CpuGrinder } from './cpu-grinder';
 import { createWebGpuGrinder, WebGpuGrinder } from './webgpu-grinder';
 import { createPattern, calculateDifficulty } from './pattern';
 import { PatternOptions, DifficultyStats } from './types';
+import { formatDuration } from './format';
 
 const BENCHMARK_DURATION_MS = 10_000; // 10 seconds per benchmark
 const BATCH_SIZE = 10_000;
 
-function formatDuration(seconds: number): string {
-  if (seconds < 1) {
-    return '<1 second';
-  } else if (seconds < 60) {
-    return `${seconds.toFixed(1)} seconds`;
-  } else if (seconds < 3600) {
-    return `${(seconds / 60).toFixed(1)} minutes`;
-  } else if (seconds < 86400) {
-    return `${(seconds / 3600).toFixed(1)} hours`;
-  } else if (seconds < 86400 * 365) {
-    return `${(seconds / 86400).toFixed(1)} days`;
-  } else {
-    return `${(seconds / (86400 * 365)).toFixed(1)} years`;
-  }
-}
-
 function printDifficultyEstimate(
   patternStr: string,
   options: PatternOptions,
@@ -35,6 +20,11 @@ function printDifficultyEstimate(
     `  Alphabet size: ${stats.alphabetSize} (${options.ignoreCase ? 'case-insensitive' : 'case-sensitive'})`
   );
   console.log(`  Probability per attempt: 1 in ${stats.expectedAttempts.toFixed(0)}`);
+  if (stats.positionProbabilities.length > 0) {
+    console.log(
+      `  Per-position odds: ${stats.positionProbabilities.map((p) => `1 in ${(1 / p).toFixed(1)}`).join(', ')}`
+    );
+  }
   console.log(`  Expected attempts (mean): ${stats.expectedAttempts.toFixed(0)}`);
   console.log(`  P50 attempts (median): ${stats.p50Attempts.toFixed(0)}`);
 
@@ -49,7 +39,7 @@ function printDifficultyEstimate(
 interface BenchmarkResult {
   name: string;
   rate: number; // keys per second
-  attempts: number;
+  attempts: bigint;
   elapsed: number; // seconds
 }
 
@@ -70,14 +60,14 @@ async function runBenchmark(): Promise<void> {
 
   while (Date.now() - cpuStart < BENCHMARK_DURATION_MS) {
     const found = await cpuGrinder.searchBatch(BATCH_SIZE);
-    if (found) {
+    if (found.length > 0) {
       // Match found during benchmark, continue anyway
     }
   }
 
   const cpuElapsed = (Date.now() - cpuStart) / 1000;
   const cpuStats = cpuGrinder.getStats();
-  const cpuRate = cpuStats.attempts / cpuElapsed;
+  const cpuRate = Number(cpuStats.attempts) / cpuElapsed;
   results.push({
     name: 'CPU',
     rate: cpuRate,
@@ -96,14 +86,14 @@ async function runBenchmark(): Promise<void> {
 
     while (Date.now() - webgpuStart < BENCHMARK_DURATION_MS) {
       const found = await webgpuGrinder.searchBatch(BATCH_SIZE);
-      if (found) {
+      if (found.length > 0) {
         // Match found during benchmark, continue anyway
       }
     }
 
     const webgpuElapsed = (Date.now() - webgpuStart) / 1000;
     const webgpuStats = webgpuGrinder.getStats();
-    const webgpuRate = webgpuStats.attempts / webgpuElapsed;
+    const webgpuRate = Number(webgpuStats.attempts) / webgpuElapsed;
     results.push({
       name: 'WebGPU Hybrid',
       rate: webgpuRate,
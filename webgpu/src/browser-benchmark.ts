@@ -1,39 +1,51 @@
 // Browser benchmark for Solana vanity address grinder
 // This file is compiled and bundled for browser use
 
-import WGSL_SHADER from './shaders/vanity.wgsl?raw';
 import {
-  Pattern,
+  PatternInput,
+  PatternSet,
   FoundKey,
   GrinderStats,
   Grinder,
   DifficultyStats,
   MatchMode,
-  BASE58_ALPHABET,
-} from './types';
-import {
-  createPattern,
-  matchesPattern,
+  createPatternSet,
+  toPatternSet,
   calculateDifficulty,
-} from './pattern';
-import {
-  RESULT_BUFFER_SIZE,
-  PARAMS_BUFFER_SIZE,
-  PATTERN_BUFFER_SIZE,
-  WORKGROUP_SIZE,
-  createPatternConfigRaw,
-  parseResultBuffer,
-} from './gpu-utils';
-
-// Default GPU batch size (can be changed via UI)
-const DEFAULT_GPU_BATCH_SIZE = 96000;
+  analyzeFeasibility,
+  HybridGrinder,
+  SearchAbortedError,
+  isSearchAborted,
+  throwIfAborted,
+  formatDuration,
+  formatCount,
+  createBrowserGpuGrinder,
+  GpuInitError,
+  formatGpuInitReport,
+} from './browser';
+import type { CpuWorkerRequest, CpuWorkerResponse } from './browser-cpu-worker';
+
+// The CPU worker is bundled next to this script (see build-browser.js)
+const CPU_WORKER_URL = new URL(
+  'browser-cpu-worker.js',
+  (document.currentScript as HTMLScriptElement | null)?.src ?? location.href
+).href;
+
+// Keys per CPU batch, split across the worker pool
+const CPU_BATCH_SIZE = 1000;
+
+// GPU dispatches per search call, i.e. between stats updates
+const GPU_DISPATCHES_PER_CALL = 8;
+
+// GPU batch size set in the UI; 'auto' tunes it for the adapter
+const AUTO_BATCH_SIZE = 'auto';
 const MIN_BATCH_SIZE = 64;
 const MAX_BATCH_SIZE = 262144; // 256K
 
-// Get GPU batch size from UI or use default
-function getGpuBatchSize(): number {
+// Get GPU batch size from UI, or null to auto-tune
+function getGpuBatchSize(): number | null {
   const input = document.getElementById('batch-size') as HTMLInputElement | null;
-  if (!input) return DEFAULT_GPU_BATCH_SIZE;
+  if (!input || input.value.trim().toLowerCase() === AUTO_BATCH_SIZE) return null;
 
   const value = parseInt(input.value, 10);
   if (isNaN(value) || value < MIN_BATCH_SIZE) return MIN_BATCH_SIZE;
@@ -41,180 +53,69 @@ function getGpuBatchSize(): number {
   return value;
 }
 
-// Base58 encode for browser
-function base58Encode(bytes: Uint8Array): string {
-  const digits = [0];
-  for (const byte of bytes) {
-    let carry = byte;
-    for (let j = 0; j < digits.length; j++) {
-      carry += digits[j] << 8;
-      digits[j] = carry % 58;
-      carry = (carry / 58) | 0;
-    }
-    while (carry > 0) {
-      digits.push(carry % 58);
-      carry = (carry / 58) | 0;
-    }
-  }
-  let result = '';
-  for (const byte of bytes) {
-    if (byte === 0) result += '1';
-    else break;
-  }
-  for (let i = digits.length - 1; i >= 0; i--) {
-    result += BASE58_ALPHABET[digits[i]];
-  }
-  return result;
-}
-
-
-
 function formatDifficultyInfo(diff: DifficultyStats, ignoreCase: boolean): string {
   const lines: string[] = [];
   lines.push(`Difficulty estimate:`);
   lines.push(`  Effective pattern length: ${diff.effectiveLength} chars`);
   lines.push(`  Alphabet size: ${diff.alphabetSize} (${ignoreCase ? 'case-insensitive' : 'case-sensitive'})`);
-  lines.push(`  Probability per attempt: 1 in ${formatNum(diff.expectedAttempts)}`);
-  lines.push(`  Expected attempts (mean): ${formatNum(diff.expectedAttempts)}`);
-  lines.push(`  P50 attempts (median): ${formatNum(diff.p50Attempts)}`);
+  lines.push(`  Probability per attempt: 1 in ${formatCount(diff.expectedAttempts)}`);
+  if (diff.positionProbabilities.length > 0) {
+    lines.push(`  Per-position odds: ${diff.positionProbabilities.map((p) => `1 in ${formatCount(1 / p)}`).join(', ')}`);
+  }
+  lines.push(`  Expected attempts (mean): ${formatCount(diff.expectedAttempts)}`);
+  lines.push(`  P50 attempts (median): ${formatCount(diff.p50Attempts)}`);
   return lines.join('\n');
 }
 
-function formatDuration(s: number): string {
-  if (s < 1) return '<1 sec';
-  if (s < 60) return s.toFixed(1) + ' sec';
-  if (s < 3600) return (s / 60).toFixed(1) + ' min';
-  if (s < 86400) return (s / 3600).toFixed(1) + ' hr';
-  return (s / 86400).toFixed(1) + ' days';
-}
-
-function formatNum(n: number): string {
-  if (n >= 1e9) return (n / 1e9).toFixed(2) + 'B';
-  if (n >= 1e6) return (n / 1e6).toFixed(2) + 'M';
-  if (n >= 1e3) return (n / 1e3).toFixed(2) + 'K';
-  return n.toFixed(0);
-}
-
-class GpuGrinder implements Grinder {
-  private device: GPUDevice;
-  private patternStr: string;
-  private matchMode: string;
-  private ignoreCase: boolean;
-  public attempts: number = 0;
+// CPU grinder running Web Crypto in a pool of Web Workers, so the page stays
+// responsive. Each batch is split across the workers; a match in one stops
+// the rest, and every match reported before they stopped is returned. An
+// abort stops them all, counts what they tried and rejects.
+class WorkerCpuGrinder implements Grinder {
+  private patterns: PatternSet;
+  private workerCount: number;
+  private workers: Worker[] = [];
+  private nextBatchId: number = 0;
+  private attempts: bigint = 0n;
   private startTime: number = Date.now();
-  public batchOffset: number = 0;
   private destroyed: boolean = false;
 
-  private shaderModule!: GPUShaderModule;
-  private pipeline!: GPUComputePipeline;
-  private resultBuffer!: GPUBuffer;
-  private resultReadBuffer!: GPUBuffer;
-  private paramsBuffer!: GPUBuffer;
-  private patternBuffer!: GPUBuffer;
-  private bindGroup!: GPUBindGroup;
-
-  private constructor(device: GPUDevice, patternStr: string, matchMode: string, ignoreCase: boolean) {
-    this.device = device;
-    this.patternStr = patternStr;
-    this.matchMode = matchMode;
-    this.ignoreCase = ignoreCase;
+  constructor(pattern: PatternInput, workerCount: number = navigator.hardwareConcurrency || 1) {
+    this.patterns = toPatternSet(pattern);
+    this.workerCount = Math.max(1, Math.floor(workerCount));
   }
 
-  static async create(
-    device: GPUDevice,
-    patternStr: string,
-    matchMode: string,
-    ignoreCase: boolean
-  ): Promise<GpuGrinder> {
-    const grinder = new GpuGrinder(device, patternStr, matchMode, ignoreCase);
-    await grinder.setupPipeline();
-    return grinder;
+  get size(): number {
+    return this.workerCount;
   }
 
-  private async setupPipeline(): Promise<void> {
-    this.shaderModule = this.device.createShaderModule({ code: WGSL_SHADER });
-
-    // Check for shader compilation errors
-    const info = await this.shaderModule.getCompilationInfo();
-    for (const msg of info.messages) {
-      if (msg.type === 'error') {
-        throw new Error(`Shader compilation error at line ${msg.lineNum}: ${msg.message}`);
-      }
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    if (this.destroyed) return [];
+    throwIfAborted(signal);
+    if (this.workers.length === 0) this.spawnWorkers();
+
+    const id = this.nextBatchId++;
+    const onAbort = () => this.stopBatch(id);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const share = Math.floor(maxAttempts / this.workerCount);
+    const remainder = maxAttempts % this.workerCount;
+    const runs = this.workers
+      .map((worker, i) => ({ worker, attempts: share + (i < remainder ? 1 : 0) }))
+      .filter((run) => run.attempts > 0);
+
+    let replies: { attempts: number; found: FoundKey[] }[];
+    try {
+      replies = await Promise.all(runs.map((run) => this.runShare(run.worker, id, run.attempts)));
+    } catch (error) {
+      this.destroy();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
 
-    this.pipeline = this.device.createComputePipeline({
-      layout: 'auto',
-      compute: { module: this.shaderModule, entryPoint: 'main' },
-    });
-
-    this.resultBuffer = this.device.createBuffer({
-      size: RESULT_BUFFER_SIZE,
-      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
-    });
-    this.resultReadBuffer = this.device.createBuffer({
-      size: RESULT_BUFFER_SIZE,
-      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
-    });
-    this.paramsBuffer = this.device.createBuffer({
-      size: PARAMS_BUFFER_SIZE,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-    });
-    this.patternBuffer = this.device.createBuffer({
-      size: PATTERN_BUFFER_SIZE,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-    });
-
-    const patternData = createPatternConfigRaw(this.patternStr, this.matchMode, this.ignoreCase);
-    this.device.queue.writeBuffer(this.patternBuffer, 0, patternData.buffer);
-
-    this.bindGroup = this.device.createBindGroup({
-      layout: this.pipeline.getBindGroupLayout(0),
-      entries: [
-        { binding: 0, resource: { buffer: this.resultBuffer } },
-        { binding: 1, resource: { buffer: this.paramsBuffer } },
-        { binding: 2, resource: { buffer: this.patternBuffer } },
-      ],
-    });
-  }
-
-  async searchBatch(batchSize: number): Promise<FoundKey | null> {
-    if (this.destroyed) return null;
-
-    const workgroups = Math.ceil(batchSize / WORKGROUP_SIZE);
-    const actual = workgroups * WORKGROUP_SIZE;
-
-    // Update params with crypto-secure random seed
-    const seedBytes = new Uint32Array(2);
-    crypto.getRandomValues(seedBytes);
-    const paramsData = new Uint32Array([this.batchOffset, seedBytes[0], seedBytes[1], 0]);
-    this.device.queue.writeBuffer(this.paramsBuffer, 0, paramsData);
-
-    // Use command encoder to reset and dispatch in same command buffer
-    const encoder = this.device.createCommandEncoder();
-
-    // Clear the result buffer
-    encoder.clearBuffer(this.resultBuffer, 0, RESULT_BUFFER_SIZE);
-
-    // Dispatch compute
-    const pass = encoder.beginComputePass();
-    pass.setPipeline(this.pipeline);
-    pass.setBindGroup(0, this.bindGroup);
-    pass.dispatchWorkgroups(workgroups);
-    pass.end();
-
-    // Copy results
-    encoder.copyBufferToBuffer(this.resultBuffer, 0, this.resultReadBuffer, 0, RESULT_BUFFER_SIZE);
-    this.device.queue.submit([encoder.finish()]);
-
-    // Read results
-    await this.resultReadBuffer.mapAsync(GPUMapMode.READ);
-    const data = new Uint32Array(this.resultReadBuffer.getMappedRange().slice(0));
-    this.resultReadBuffer.unmap();
-
-    this.attempts += actual;
-    this.batchOffset += actual;
-
-    return parseResultBuffer(data, this.attempts);
+    for (const reply of replies) this.attempts += BigInt(reply.attempts);
+    if (signal?.aborted) throw new SearchAbortedError(signal.reason);
+    return replies.flatMap((reply) => reply.found.map((key) => ({ ...key, attempts: this.attempts })));
   }
 
   getStats(): GrinderStats {
@@ -222,106 +123,78 @@ class GpuGrinder implements Grinder {
     const elapsedSec = elapsedMs / 1000;
     return {
       attempts: this.attempts,
-      rate: elapsedSec > 0 ? this.attempts / elapsedSec : 0,
+      rate: elapsedSec > 0 ? Number(this.attempts) / elapsedSec : 0,
       elapsedMs,
     };
   }
 
   reset(): void {
-    this.attempts = 0;
+    this.attempts = 0n;
     this.startTime = Date.now();
-    this.batchOffset = 0;
   }
 
   destroy(): void {
     this.destroyed = true;
+    for (const worker of this.workers) worker.terminate();
+    this.workers = [];
   }
-}
 
-// CPU Grinder using Web Crypto API
-class CpuGrinder implements Grinder {
-  private pattern: Pattern;
-  private attempts: number = 0;
-  private startTime: number = Date.now();
-  private destroyed: boolean = false;
-
-  constructor(pattern: Pattern) {
-    this.pattern = pattern;
+  private stopBatch(id: number): void {
+    for (const worker of this.workers) postToWorker(worker, { type: 'stop', id });
   }
 
-  async searchBatch(maxAttempts: number): Promise<FoundKey | null> {
-    if (this.destroyed) return null;
-
-    const endAttempts = this.attempts + maxAttempts;
-
-    while (this.attempts < endAttempts && !this.destroyed) {
-      try {
-        // Generate Ed25519 keypair using Web Crypto API
-        const keyPair = await crypto.subtle.generateKey('Ed25519' as unknown as EcKeyGenParams, true, [
-          'sign',
-          'verify',
-        ]);
-
-        // Export public key as raw bytes
-        const publicKeyBuffer = await crypto.subtle.exportKey('raw', keyPair.publicKey);
-        const publicKey = new Uint8Array(publicKeyBuffer);
-
-        // Export private key as PKCS8 format
-        const privateKeyPkcs8 = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
-        const pkcs8Bytes = new Uint8Array(privateKeyPkcs8);
-        const seed = pkcs8Bytes.slice(16, 48);
-
-        // Encode public key as Base58 (Solana address)
-        const address = base58Encode(publicKey);
-
-        this.attempts++;
-
-        // Check pattern match using shared utility
-        if (matchesPattern(address, this.pattern)) {
-          const fullPrivateKey = new Uint8Array(64);
-          fullPrivateKey.set(seed, 0);
-          fullPrivateKey.set(publicKey, 32);
-
-          return {
-            publicKey,
-            privateKey: fullPrivateKey,
-            address,
-            attempts: this.attempts,
-          };
-        }
-      } catch {
-        this.attempts++;
-      }
+  private spawnWorkers(): void {
+    for (let i = 0; i < this.workerCount; i++) {
+      const worker = new Worker(CPU_WORKER_URL);
+      postToWorker(worker, { type: 'init', patterns: this.patterns });
+      this.workers.push(worker);
     }
-
-    return null;
-  }
-
-  getStats(): GrinderStats {
-    const elapsedMs = Date.now() - this.startTime;
-    const elapsedSec = elapsedMs / 1000;
-    return {
-      attempts: this.attempts,
-      rate: elapsedSec > 0 ? this.attempts / elapsedSec : 0,
-      elapsedMs,
-    };
   }
 
-  reset(): void {
-    this.attempts = 0;
-    this.startTime = Date.now();
+  private runShare(worker: Worker, id: number, maxAttempts: number): Promise<{ attempts: number; found: FoundKey[] }> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+      };
+      const onMessage = (event: MessageEvent<CpuWorkerResponse>) => {
+        const reply = event.data;
+        if (reply.id !== id) return;
+        cleanup();
+        if (reply.type === 'error') {
+          reject(new Error(`CPU worker failed: ${reply.message}`));
+          return;
+        }
+        if (reply.found.length > 0) this.stopBatch(id);
+        resolve(reply);
+      };
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(`CPU worker failed: ${event.message}`));
+      };
+
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      postToWorker(worker, { type: 'search', id, maxAttempts });
+    });
   }
+}
 
-  destroy(): void {
-    this.destroyed = true;
-  }
+function postToWorker(worker: Worker, request: CpuWorkerRequest): void {
+  worker.postMessage(request);
 }
 
-// UI helpers
+// UI helpers; messages are text, since errors repeat what the user typed
 function log(msg: string, cls: string = ''): void {
   const o = document.getElementById('output')!;
-  if (cls) o.innerHTML += `<span class="${cls}">${msg}</span>\n`;
-  else o.textContent += msg + '\n';
+  if (cls) {
+    const line = document.createElement('span');
+    line.className = cls;
+    line.textContent = msg;
+    o.append(line, '\n');
+  } else {
+    o.append(msg + '\n');
+  }
   o.scrollTop = o.scrollHeight;
 }
 
@@ -329,9 +202,9 @@ function clearLog(): void {
   document.getElementById('output')!.textContent = '';
 }
 
-function updateStats(rate: number, attempts: number, mode: string, eta: string): void {
+function updateStats(rate: number, attempts: bigint, mode: string, eta: string): void {
   document.getElementById('stat-rate')!.textContent = (rate / 1000).toFixed(2);
-  document.getElementById('stat-attempts')!.textContent = formatNum(attempts);
+  document.getElementById('stat-attempts')!.textContent = formatCount(attempts);
   document.getElementById('stat-mode')!.textContent = mode;
   document.getElementById('stat-eta')!.textContent = eta;
 }
@@ -346,216 +219,325 @@ function setButtons(bench: boolean, search: boolean, stop: boolean): void {
   (document.getElementById('stop') as HTMLButtonElement).disabled = !stop;
 }
 
-async function checkWebGPU(): Promise<GPUDevice | null> {
+// Pattern input accepts a comma-separated list, searched as one set
+function readPatternSet(matchMode: MatchMode, ignoreCase: boolean): PatternSet {
+  const value = (document.getElementById('pattern') as HTMLInputElement).value || 'A';
+  const patternStrs = value.split(',').map((p) => p.trim()).filter((p) => p.length > 0);
+  return createPatternSet(patternStrs, { ignoreCase, matchMode });
+}
+
+function describePatterns(patterns: PatternSet): string {
+  return patterns.patterns.map((p) => p.raw).join(', ');
+}
+
+// Refuses patterns no key can match; asks before absurd searches when confirmAbsurd is set
+function checkFeasibility(patterns: PatternSet, confirmAbsurd: boolean): boolean {
+  const report = analyzeFeasibility(patterns);
+  if (report.verdict === 'impossible') {
+    log(`Impossible pattern: ${report.reason}`, 'error');
+    return false;
+  }
+  for (const i of report.unmatchablePatterns) {
+    log(`Warning: no address can match pattern '${patterns.patterns[i].raw}'`, 'error');
+  }
+  if (report.verdict === 'astronomical' && confirmAbsurd) {
+    if (!window.confirm(`Astronomically unlikely pattern: ${report.reason}\n\nSearch anyway?`)) {
+      log('Search cancelled', 'info');
+      return false;
+    }
+  }
+  return true;
+}
+
+// Shows whether WebGPU has an adapter; the grinders acquire their own device
+async function checkWebGPU(): Promise<boolean> {
   const el = document.getElementById('gpu-status')!;
   if (!navigator.gpu) {
     el.className = 'gpu-status gpu-unavailable';
     el.innerHTML = '&#9888; WebGPU not supported';
-    return null;
+    return false;
   }
   try {
     const adapter = await navigator.gpu.requestAdapter();
     if (!adapter) {
       el.className = 'gpu-status gpu-unavailable';
       el.innerHTML = '&#9888; No adapter';
-      return null;
+      return false;
     }
-    const device = await adapter.requestDevice();
     el.className = 'gpu-status gpu-available';
     el.innerHTML = '&#10003; WebGPU available';
-    return device;
+    return true;
   } catch (e) {
     el.className = 'gpu-status gpu-unavailable';
-    el.innerHTML = `&#9888; ${(e as Error).message}`;
-    return null;
+    el.textContent = `\u26a0 ${(e as Error).message}`;
+    return false;
   }
 }
 
-let running = false;
-let shouldStop = false;
+async function createGpuGrinder(patterns: PatternSet) {
+  try {
+    const batchSize = getGpuBatchSize() ?? undefined;
+    return await createBrowserGpuGrinder(patterns, { batchSize, log: (msg) => log(msg) });
+  } catch (e) {
+    // Shader messages can contain < and >, so the report goes in as plain text
+    if (e instanceof GpuInitError) formatGpuInitReport(e.report).forEach((line) => log(line));
+    throw e;
+  }
+}
 
-async function runBenchmark(): Promise<void> {
-  if (running) return;
-  running = true;
-  shouldStop = false;
+// Aborted by the Stop button; null while nothing runs
+let runController: AbortController | null = null;
+// Grinders of the current run, destroyed when it finishes
+let runGrinders: { destroy(): void }[] = [];
+
+// Starts a run unless one is going; returns the signal that stops it
+function startRun(): AbortSignal | null {
+  if (runController) return null;
+  runController = new AbortController();
   setButtons(false, false, true);
   clearLog();
   showStats(true);
+  return runController.signal;
+}
 
-  const patternStr = (document.getElementById('pattern') as HTMLInputElement).value || 'A';
-  const matchModeStr = (document.getElementById('match-mode') as HTMLSelectElement).value as MatchMode;
-  const ignoreCase = (document.getElementById('case-sensitive') as HTMLSelectElement).value === 'false';
-  const duration = parseInt((document.getElementById('duration') as HTMLSelectElement).value);
-  const computeMode = (document.getElementById('compute-mode') as HTMLSelectElement)?.value || 'gpu';
+// Hands a grinder to the current run, which destroys it however the run ends
+function ownGrinder<T extends { destroy(): void }>(grinder: T): T {
+  runGrinders.push(grinder);
+  return grinder;
+}
 
-  let pattern: Pattern;
+function finishRun(): void {
+  for (const grinder of runGrinders) grinder.destroy();
+  runGrinders = [];
+  runController = null;
+  setButtons(true, true, false);
+}
+
+// Runs a search loop until it ends or the run is stopped
+async function untilStopped(loop: () => Promise<void>): Promise<void> {
   try {
-    pattern = createPattern(patternStr, { ignoreCase, matchMode: matchModeStr });
+    await loop();
   } catch (e) {
-    log(`Error: ${(e as Error).message}`, 'error');
-    running = false;
-    setButtons(true, true, false);
-    return;
+    if (!isSearchAborted(e)) throw e;
   }
+}
 
-  const diff = calculateDifficulty(patternStr, pattern.options);
-
-  log('=== Vanity Address Benchmark ===', 'highlight');
-  log(`Pattern: ${patternStr}`);
-  log(`Match mode: ${matchModeStr}`);
-  log(`Case sensitive: ${!ignoreCase}\n`);
-  log(formatDifficultyInfo(diff, ignoreCase));
-  log('');
-
-  // Run CPU benchmark
-  if (computeMode === 'cpu' || computeMode === 'both') {
-    log('Running CPU benchmark (Web Crypto API)...', 'info');
-    const cpuGrinder = new CpuGrinder(pattern);
-    const cpuStart = Date.now();
-    let cpuMatches = 0;
-
-    while (Date.now() - cpuStart < duration && !shouldStop) {
-      const result = await cpuGrinder.searchBatch(100);
-      if (result) {
-        cpuMatches++;
-        log(`CPU found: ${result.address}`, 'result');
-      }
-      const stats = cpuGrinder.getStats();
-      const eta = diff.p50Attempts / stats.rate;
-      updateStats(stats.rate, stats.attempts, 'CPU', formatDuration(eta));
-      await new Promise((r) => setTimeout(r, 0));
-    }
+async function runBenchmark(): Promise<void> {
+  const signal = startRun();
+  if (!signal) return;
 
-    const cpuElapsed = (Date.now() - cpuStart) / 1000;
-    const cpuStats = cpuGrinder.getStats();
-    const cpuRate = cpuStats.attempts / cpuElapsed;
+  try {
+    const matchModeStr = (document.getElementById('match-mode') as HTMLSelectElement).value as MatchMode;
+    const ignoreCase = (document.getElementById('case-sensitive') as HTMLSelectElement).value === 'false';
+    const duration = parseInt((document.getElementById('duration') as HTMLSelectElement).value);
+    const computeMode = (document.getElementById('compute-mode') as HTMLSelectElement)?.value || 'gpu';
 
-    log(`\nCPU Results: ${(cpuRate / 1000).toFixed(2)} k/s, ${cpuMatches} matches in ${cpuElapsed.toFixed(1)}s`, 'highlight');
-    cpuGrinder.destroy();
-  }
+    const patterns = readPatternSet(matchModeStr, ignoreCase);
 
-  // Run GPU benchmark
-  if ((computeMode === 'gpu' || computeMode === 'both') && !shouldStop) {
-    const device = await checkWebGPU();
-    if (!device) {
-      log('WebGPU not available!', 'error');
-      running = false;
-      setButtons(true, true, false);
+    if (!checkFeasibility(patterns, false)) {
       return;
     }
 
-    log('\nRunning GPU benchmark (WebGPU)...', 'info');
-    const batchSize = getGpuBatchSize();
-    log(`Batch size: ${(batchSize / 1000).toFixed(0)}K threads`);
-    const grinder = await GpuGrinder.create(device, patternStr, matchModeStr, ignoreCase);
+    const diff = calculateDifficulty(patterns);
+
+    log('=== Vanity Address Benchmark ===', 'highlight');
+    log(`Pattern${patterns.patterns.length > 1 ? 's' : ''}: ${describePatterns(patterns)}`);
+    log(`Match mode: ${matchModeStr}`);
+    log(`Case sensitive: ${!ignoreCase}\n`);
+    log(formatDifficultyInfo(diff, ignoreCase));
+    log('');
+
+    // Run CPU benchmark
+    if (computeMode === 'cpu') {
+      const cpuGrinder = ownGrinder(new WorkerCpuGrinder(patterns));
+      log(`Running CPU benchmark (Web Crypto API, ${cpuGrinder.size} workers)...`, 'info');
+      const cpuStart = Date.now();
+      let cpuMatches = 0;
+
+      await untilStopped(async () => {
+        while (Date.now() - cpuStart < duration) {
+          for (const result of await cpuGrinder.searchBatch(CPU_BATCH_SIZE, signal)) {
+            cpuMatches++;
+            log(`CPU found: ${result.address}`, 'result');
+          }
+          const stats = cpuGrinder.getStats();
+          const eta = diff.p50Attempts / stats.rate;
+          updateStats(stats.rate, stats.attempts, 'CPU', formatDuration(eta));
+          await new Promise((r) => setTimeout(r, 0));
+        }
+      });
 
-    const start = Date.now();
-    let matchesFound = 0;
-    let batchCount = 0;
+      const cpuElapsed = (Date.now() - cpuStart) / 1000;
+      const cpuStats = cpuGrinder.getStats();
+      const cpuRate = Number(cpuStats.attempts) / cpuElapsed;
 
-    while (Date.now() - start < duration && !shouldStop) {
-      const result = await grinder.searchBatch(batchSize);
-      batchCount++;
+      log(`\nCPU Results: ${(cpuRate / 1000).toFixed(2)} k/s, ${cpuMatches} matches in ${cpuElapsed.toFixed(1)}s`, 'highlight');
+    }
 
-      if (result) {
-        matchesFound++;
-        log(`GPU found: ${result.address}`, 'result');
-        grinder.batchOffset = grinder.attempts;
+    // Run GPU benchmark
+    if (computeMode === 'gpu') {
+      if (!(await checkWebGPU())) {
+        log('WebGPU not available!', 'error');
+        return;
       }
+
+      log('\nRunning GPU benchmark (WebGPU)...', 'info');
+      const grinder = ownGrinder(await createGpuGrinder(patterns));
+      log(`Batch size: ${(grinder.dispatchSize / 1000).toFixed(0)}K threads`);
+
+      const start = Date.now();
+      let matchesFound = 0;
+      let batchCount = 0;
+
+      await untilStopped(async () => {
+        while (Date.now() - start < duration) {
+          const results = await grinder.searchBatch(grinder.dispatchSize * GPU_DISPATCHES_PER_CALL, signal);
+          batchCount++;
+
+          for (const result of results) {
+            matchesFound++;
+            log(`GPU found: ${result.address}`, 'result');
+          }
+          const stats = grinder.getStats();
+          const eta = diff.p50Attempts / stats.rate;
+          updateStats(stats.rate, stats.attempts, 'GPU', formatDuration(eta));
+          await new Promise((r) => setTimeout(r, 0));
+        }
+      });
+
+      const elapsed = (Date.now() - start) / 1000;
       const stats = grinder.getStats();
-      const eta = diff.p50Attempts / stats.rate;
-      updateStats(stats.rate, stats.attempts, 'GPU', formatDuration(eta));
-      await new Promise((r) => setTimeout(r, 0));
+      const rate = Number(stats.attempts) / elapsed;
+
+      log(`\nGPU Results: ${(rate / 1000).toFixed(2)} k/s`, 'highlight');
+      log(`Total: ${formatCount(stats.attempts)} attempts in ${elapsed.toFixed(1)}s`);
+      log(`Matches found: ${matchesFound}`, 'result');
+      log(`P50 ETA at current rate: ${formatDuration(diff.p50Attempts / rate)}`, 'result');
     }
 
-    const elapsed = (Date.now() - start) / 1000;
-    const stats = grinder.getStats();
-    const rate = stats.attempts / elapsed;
+    // Run CPU and GPU together, each taking work at its own rate
+    if (computeMode === 'both') {
+      if (!(await checkWebGPU())) {
+        log('WebGPU not available!', 'error');
+        return;
+      }
 
-    log(`\nGPU Results: ${(rate / 1000).toFixed(2)} k/s`, 'highlight');
-    log(`Total: ${formatNum(stats.attempts)} attempts in ${elapsed.toFixed(1)}s`);
-    log(`Matches found: ${matchesFound}`, 'result');
-    log(`P50 ETA at current rate: ${formatDuration(diff.p50Attempts / rate)}`, 'result');
+      const cpuGrinder = ownGrinder(new WorkerCpuGrinder(patterns));
+      const gpuGrinder = ownGrinder(await createGpuGrinder(patterns));
+      const hybrid = new HybridGrinder([
+        { name: 'CPU', grinder: cpuGrinder },
+        { name: 'GPU', grinder: gpuGrinder },
+      ]);
+      log(`Running CPU (${cpuGrinder.size} workers) and GPU (WebGPU) together...`, 'info');
+
+      const start = Date.now();
+      let matchesFound = 0;
+
+      await untilStopped(async () => {
+        while (Date.now() - start < duration) {
+          for (const result of await hybrid.searchBatch(gpuGrinder.dispatchSize, signal)) {
+            matchesFound++;
+            log(`Found: ${result.address}`, 'result');
+          }
+          const stats = hybrid.getStats();
+          const eta = diff.p50Attempts / stats.rate;
+          updateStats(stats.rate, stats.attempts, 'CPU+GPU', formatDuration(eta));
+          await new Promise((r) => setTimeout(r, 0));
+        }
+      });
 
-    grinder.destroy();
-  }
+      const elapsed = (Date.now() - start) / 1000;
+      const stats = hybrid.getStats();
+      const rate = Number(stats.attempts) / elapsed;
 
-  running = false;
-  setButtons(true, true, false);
+      for (const backend of hybrid.getBackendStats()) {
+        log(
+          `\n${backend.name} Results: ${(Number(backend.attempts) / elapsed / 1000).toFixed(2)} k/s, ${(backend.share * 100).toFixed(0)}% of attempts`,
+          'highlight'
+        );
+      }
+      log(`\nCombined: ${(rate / 1000).toFixed(2)} k/s`, 'highlight');
+      log(`Total: ${formatCount(stats.attempts)} attempts in ${elapsed.toFixed(1)}s`);
+      log(`Matches found: ${matchesFound}`, 'result');
+      log(`P50 ETA at current rate: ${formatDuration(diff.p50Attempts / rate)}`, 'result');
+    }
+  } catch (e) {
+    log(`Error: ${(e as Error).message}`, 'error');
+  } finally {
+    finishRun();
+  }
 }
 
 async function runSearch(): Promise<void> {
-  if (running) return;
-  running = true;
-  shouldStop = false;
-  setButtons(false, false, true);
-  clearLog();
-  showStats(true);
-
-  const patternStr = (document.getElementById('pattern') as HTMLInputElement).value || 'A';
-  const matchModeStr = (document.getElementById('match-mode') as HTMLSelectElement).value as MatchMode;
-  const ignoreCase = (document.getElementById('case-sensitive') as HTMLSelectElement).value === 'false';
+  const signal = startRun();
+  if (!signal) return;
 
-  let pattern: Pattern;
   try {
-    pattern = createPattern(patternStr, { ignoreCase, matchMode: matchModeStr });
-  } catch (e) {
-    log(`Error: ${(e as Error).message}`, 'error');
-    running = false;
-    setButtons(true, true, false);
-    return;
-  }
+    const matchModeStr = (document.getElementById('match-mode') as HTMLSelectElement).value as MatchMode;
+    const ignoreCase = (document.getElementById('case-sensitive') as HTMLSelectElement).value === 'false';
 
-  const diff = calculateDifficulty(patternStr, pattern.options);
-
-  log('=== Searching for Vanity Address ===', 'highlight');
-  log(`Pattern: ${patternStr}`);
-  log(`Match mode: ${matchModeStr}`);
-  log(`Case sensitive: ${!ignoreCase}\n`);
-  log(formatDifficultyInfo(diff, ignoreCase));
-  log('');
-
-  const device = await checkWebGPU();
-  if (!device) {
-    log('WebGPU not available!', 'error');
-    running = false;
-    setButtons(true, true, false);
-    return;
-  }
+    const patterns = readPatternSet(matchModeStr, ignoreCase);
 
-  log('Searching with full Ed25519 on GPU...', 'info');
-  const batchSize = getGpuBatchSize();
-  const grinder = await GpuGrinder.create(device, patternStr, matchModeStr, ignoreCase);
-  const start = Date.now();
-  let found: FoundKey | null = null;
-
-  while (!found && !shouldStop) {
-    found = await grinder.searchBatch(batchSize);
-    const stats = grinder.getStats();
-    const eta = Math.max(0, (diff.p50Attempts - stats.attempts) / stats.rate);
-    updateStats(stats.rate, stats.attempts, 'GPU', formatDuration(eta));
-    await new Promise((r) => setTimeout(r, 0));
-  }
+    if (!checkFeasibility(patterns, true)) {
+      return;
+    }
 
-  if (found) {
-    const elapsed = (Date.now() - start) / 1000;
-    log(`\n*** FOUND! ***`, 'result');
-    log(`Address: ${found.address}`, 'highlight');
-    log(`Attempts: ${formatNum(found.attempts)} | Time: ${formatDuration(elapsed)}`);
-    log(`\nPrivate Key (Solana JSON):`, 'info');
-    log(`[${Array.from(found.privateKey).join(',')}]`);
-    updateStats(found.attempts / elapsed, found.attempts, 'GPU', 'Found!');
-  } else {
-    log('\nStopped.', 'info');
-  }
+    const diff = calculateDifficulty(patterns);
 
-  grinder.destroy();
-  running = false;
-  setButtons(true, true, false);
+    log('=== Searching for Vanity Address ===', 'highlight');
+    log(`Pattern${patterns.patterns.length > 1 ? 's' : ''}: ${describePatterns(patterns)}`);
+    log(`Match mode: ${matchModeStr}`);
+    log(`Case sensitive: ${!ignoreCase}\n`);
+    log(formatDifficultyInfo(diff, ignoreCase));
+    log('');
+
+    if (!(await checkWebGPU())) {
+      log('WebGPU not available!', 'error');
+      return;
+    }
+
+    log('Searching with full Ed25519 on GPU...', 'info');
+    const grinder = ownGrinder(await createGpuGrinder(patterns));
+    const start = Date.now();
+    let found: FoundKey[] = [];
+
+    await untilStopped(async () => {
+      while (found.length === 0) {
+        found = await grinder.searchBatch(grinder.dispatchSize * GPU_DISPATCHES_PER_CALL, signal);
+        const stats = grinder.getStats();
+        // Attempts are independent, so the median time left never shrinks
+        const eta = diff.p50Attempts / stats.rate;
+        updateStats(stats.rate, stats.attempts, 'GPU', formatDuration(eta));
+        await new Promise((r) => setTimeout(r, 0));
+      }
+    });
+
+    if (found.length > 0) {
+      const elapsed = (Date.now() - start) / 1000;
+      for (const key of found) {
+        log(`\n*** FOUND! ***`, 'result');
+        log(`Address: ${key.address}`, 'highlight');
+        if (patterns.patterns.length > 1) {
+          log(`Matched pattern: ${patterns.patterns[key.patternIndex].raw}`);
+        }
+        log(`Attempts: ${formatCount(key.attempts)} | Time: ${formatDuration(elapsed)}`);
+        log(`\nPrivate Key (Solana JSON):`, 'info');
+        log(`[${Array.from(key.privateKey).join(',')}]`);
+      }
+      updateStats(Number(found[0].attempts) / elapsed, found[0].attempts, 'GPU', 'Found!');
+    } else {
+      log('\nStopped.', 'info');
+    }
+  } catch (e) {
+    log(`Error: ${(e as Error).message}`, 'error');
+  } finally {
+    finishRun();
+  }
 }
 
 function stopExecution(): void {
-  shouldStop = true;
+  if (!runController) return;
+  runController.abort();
   log('\nStopping...', 'info');
 }
 
@@ -581,7 +563,9 @@ function setupBatchSizeControls(): void {
   input.addEventListener('input', () => {
     const value = parseInt(input.value, 10);
 
-    if (isNaN(value) || value < MIN_BATCH_SIZE || value > MAX_BATCH_SIZE) {
+    if (input.value.trim().toLowerCase() === AUTO_BATCH_SIZE) {
+      input.classList.remove('invalid');
+    } else if (isNaN(value) || value < MIN_BATCH_SIZE || value > MAX_BATCH_SIZE) {
       input.classList.add('invalid');
     } else {
       input.classList.remove('invalid');
@@ -595,10 +579,12 @@ function setupBatchSizeControls(): void {
     let value = parseInt(input.value, 10);
 
     if (isNaN(value)) {
-      value = DEFAULT_GPU_BATCH_SIZE;
-    } else {
-      value = Math.max(MIN_BATCH_SIZE, Math.min(MAX_BATCH_SIZE, value));
+      // Anything that isn't a number means auto
+      input.value = AUTO_BATCH_SIZE;
+      input.classList.remove('invalid');
+      return;
     }
+    value = Math.max(MIN_BATCH_SIZE, Math.min(MAX_BATCH_SIZE, value));
 
     input.value = value.toString();
     input.classList.remove('invalid');
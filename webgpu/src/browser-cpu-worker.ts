@@ -0,0 +1,64 @@
+// Web Worker entry point of the browser page's CPU grinder: generates keys
+// with Web Crypto off the UI thread. Bundled on its own by build-browser.js.
+import { FoundKey, PatternSet } from './types';
+import { CpuGrinder } from './cpu-grinder';
+
+// Page -> worker. A search runs until it has tried maxAttempts keys, found a
+// match, or received a stop for its id.
+export type CpuWorkerRequest =
+  | { type: 'init'; patterns: PatternSet }
+  | { type: 'search'; id: number; maxAttempts: number }
+  | { type: 'stop'; id: number };
+
+// Worker -> page, exactly one per search
+export type CpuWorkerResponse =
+  | { type: 'result'; id: number; attempts: number; found: FoundKey[] }
+  | { type: 'error'; id: number; message: string };
+
+// The DOM lib doesn't describe DedicatedWorkerGlobalScope
+interface CpuWorkerScope {
+  onmessage: ((event: MessageEvent<CpuWorkerRequest>) => void) | null;
+  postMessage(message: CpuWorkerResponse): void;
+}
+
+// Keys generated between checks for a stop message
+const CHUNK_SIZE = 64;
+
+let grinder: CpuGrinder | null = null;
+let stoppedId = -1;
+
+async function search(id: number, maxAttempts: number): Promise<{ attempts: number; found: FoundKey[] }> {
+  if (!grinder) throw new Error('CPU worker has no patterns');
+
+  const startAttempts = grinder.getStats().attempts;
+  let attempts = 0;
+  while (attempts < maxAttempts && stoppedId !== id) {
+    const found = await grinder.searchBatch(Math.min(CHUNK_SIZE, maxAttempts - attempts));
+    attempts = Number(grinder.getStats().attempts - startAttempts);
+    if (found.length > 0) return { attempts, found: found.map((key) => ({ ...key, attempts: BigInt(attempts) })) };
+  }
+
+  return { attempts, found: [] };
+}
+
+const scope = self as unknown as CpuWorkerScope;
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      grinder = new CpuGrinder(request.patterns);
+      break;
+    case 'stop':
+      stoppedId = request.id;
+      break;
+    case 'search':
+      try {
+        const { attempts, found } = await search(request.id, request.maxAttempts);
+        scope.postMessage({ type: 'result', id: request.id, attempts, found });
+      } catch (e) {
+        scope.postMessage({ type: 'error', id: request.id, message: (e as Error).message });
+      }
+      break;
+  }
+};
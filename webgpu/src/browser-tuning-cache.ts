@@ -0,0 +1,30 @@
+// Tuning cache kept in localStorage, so later visits start tuned
+import { GpuTuning, TuningCache } from './gpu-tuner';
+
+/**
+ * Stores every tuning under one localStorage key. Disabled or full storage
+ * is an empty cache: the next visit just tunes again.
+ */
+export class LocalStorageTuningCache implements TuningCache {
+  constructor(private storageKey: string = 'gpu-tuning') {}
+
+  get(key: string): GpuTuning | undefined {
+    return this.read()[key];
+  }
+
+  set(key: string, tuning: GpuTuning): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ ...this.read(), [key]: tuning }));
+    } catch {
+      // Storage disabled or full
+    }
+  }
+
+  private read(): Record<string, GpuTuning> {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) ?? '{}') ?? {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,65 @@
+// Browser entry point (ESM, built to dist/browser.mjs): the same grinder
+// core as the Node package, with the kernel bundled in and navigator.gpu,
+// Web Crypto and localStorage as its providers
+import WGSL_SHADER from './shaders/vanity.wgsl?raw';
+import { PatternInput } from './types';
+import { GpuGrinder, GpuGrinderOptions, GpuGrinderProviders } from './gpu-grinder';
+import { TuningCache } from './gpu-tuner';
+import { LocalStorageTuningCache } from './browser-tuning-cache';
+import { BackendUnavailableError } from './backend-error';
+
+export * from './types';
+export * from './abort';
+export * from './backend-error';
+export * from './pattern';
+export * from './pattern-syntax';
+export * from './base58-distribution';
+export * from './feasibility';
+export * from './format';
+export * from './platform';
+export { CpuGrinder } from './cpu-grinder';
+export * from './hybrid-grinder';
+export * from './deterministic-grinder';
+export { GpuGrinder, GpuGrinderOptions, GpuGrinderProviders, GpuSeedSpace } from './gpu-grinder';
+export * from './gpu-adapters';
+export * from './gpu-init-report';
+export { GpuTuning, TuningCache, DEFAULT_DISPATCH_TARGET_MS } from './gpu-tuner';
+export { LocalStorageTuningCache } from './browser-tuning-cache';
+
+// The vanity kernel, for hosts that build their own GpuGrinder providers
+export const SHADER_SOURCE: string = WGSL_SHADER;
+
+export interface BrowserGpuGrinderOptions extends GpuGrinderOptions {
+  tuningCache?: TuningCache | null; // Where tunings persist (default: localStorage, null: nowhere)
+  log?: (message: string) => void; // Status messages (default: console.log)
+  fallback?: GpuGrinderProviders['fallback']; // Takes over if the GPU fails for good (default: none)
+}
+
+/**
+ * Creates a GpuGrinder on navigator.gpu and acquires the GPU, tuning the
+ * dispatch size unless one is given. Throws BackendUnavailableError when
+ * the browser has no usable WebGPU.
+ */
+export async function createBrowserGpuGrinder(
+  pattern: PatternInput,
+  options: BrowserGpuGrinderOptions = {}
+): Promise<GpuGrinder> {
+  if (typeof navigator === 'undefined' || !navigator.gpu) {
+    throw new BackendUnavailableError('webgpu', 'WebGPU not supported');
+  }
+
+  const { tuningCache, log, fallback, ...gpuOptions } = options;
+  const grinder = new GpuGrinder(
+    pattern,
+    {
+      gpu: navigator.gpu,
+      shaderSource: () => WGSL_SHADER,
+      tuningCache: tuningCache === null ? undefined : (tuningCache ?? new LocalStorageTuningCache()),
+      log,
+      fallback,
+    },
+    gpuOptions
+  );
+  await grinder.init();
+  return grinder;
+}
@@ -1,32 +1,75 @@
-import { CpuGrinder } from './cpu-grinder';
-import { createWebGpuGrinder, WebGpuGrinder } from './webgpu-grinder';
+import { grind, GrindProgress } from './grind';
+import {
+  BACKENDS,
+  BackendChoice,
+  CreatedGrinder,
+  createGrinder,
+  parseBackendChoice,
+  probeBackends,
+} from './backends';
+import { adapterKey } from './gpu-tuner';
+import { isBackendUnavailable } from './backend-error';
+import { GpuInitError, formatGpuInitReport } from './gpu-init-report';
+import { WebGpuGrinder } from './webgpu-grinder';
+import { GpuAdapterEntry, GpuAdapterSelector, listGpuAdapters, parseGpuAdapterSelector } from './gpu-adapters';
+import { getNodeGpu } from './webgpu-node';
 import {
   createPattern,
+  createPatternSet,
+  createCompositePattern,
   parsePatternWithCount,
   calculateDifficulty,
   validatePattern,
 } from './pattern';
-import { FoundKey, Pattern, Grinder } from './types';
+import { analyzeFeasibility } from './feasibility';
+import { formatDuration } from './format';
+import { isSearchAborted } from './abort';
+import { MASTER_SEED_LENGTH, parseMasterSeed } from './deterministic-grinder';
+import { FoundKey, MatchMode, Pattern, PatternSegment, PatternSet } from './types';
 import bs58 from 'bs58';
 import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import * as readline from 'readline/promises';
 
 const BATCH_SIZE = 10_000;
 
 function printUsage(): void {
   console.log('grincel-webgpu - Solana vanity address generator (WebGPU/Node.js)\n');
-  console.log('Usage: npx ts-node src/cli.ts <pattern>[:<count>] [options]\n');
+  console.log('Usage: npx ts-node src/cli.ts <pattern>[:<count>] [<pattern>...] [options]\n');
   console.log('Options:');
   console.log('  -h, --help            Show help message');
   console.log('  -s, --case-sensitive  Case sensitive matching');
-  console.log('  --cpu                 Use CPU only (no WebGPU)');
+  console.log('  -y, --yes             Search astronomically unlikely patterns without asking');
+  console.log('  --backend <name>      auto (default), hybrid, cpu, noble or webgpu');
+  console.log('  --backends            List the backends and whether each can run here');
+  console.log('  --gpu-report          Initialize WebGPU and print the adapter, shader and validation report');
+  console.log('  --gpus                List the GPU adapters --gpu can choose from');
+  console.log('  --gpu <adapter>       Search on this GPU: an index from --gpus, part of its name,');
+  console.log('                        high-performance, low-power or all (repeatable, one grinder each)');
+  console.log('                        Identical cards list as one adapter and only one of them is used');
+  console.log('  --cpu                 Same as --backend cpu');
+  console.log('  --threads <n>         CPU worker threads (default: one per core)');
+  console.log('  --gpu-queue <n>       GPU dispatches in flight at once (default 2)');
+  console.log('  --deterministic       Use the reproducible noble backend with a random master seed');
+  console.log('  --seed <hex>          Use the reproducible noble backend with this 32-byte master seed');
+  console.log('  --counter <n>         First seed counter for --seed (default 0)');
   console.log('  --prefix              Match at start of address (default)');
   console.log('  --suffix              Match at end of address');
   console.log('  --anywhere            Match anywhere in address');
+  console.log('  --starts-with <p>     Composite pattern: address starts with <p>');
+  console.log('  --ends-with <p>       Composite pattern: address ends with <p>');
+  console.log('  --at <index>:<p>      Composite pattern: <p> at a fixed index (repeatable)');
   console.log('  --benchmark           Run CPU vs WebGPU benchmark');
   console.log('\nPattern syntax:');
   console.log('  PATTERN               Find one match for PATTERN');
   console.log('  PATTERN:N             Find N matches for PATTERN');
+  console.log('  PATTERN1 PATTERN2 ... Match any of several patterns in one pass');
   console.log('  ?                     Wildcard (matches any character)');
+  console.log('  [abc] [2-9] [^1]      Character class: one of a set, a range, or none of a set');
+  console.log('  (sol|SOL)             Alternation between sub-patterns');
+  console.log('                        (quote patterns using [ ] ( | ) in the shell)');
+  console.log('\nComposite segments must all match and form one extra pattern, e.g.');
+  console.log('  --starts-with ABC --ends-with XYZ');
   console.log('\nValid characters: 1-9, A-H, J-N, P-Z, a-k, m-z (Base58, no 0/O/I/l)');
 }
 
@@ -37,77 +80,145 @@ function saveKeyAsJson(found: FoundKey): void {
   console.log(`Saved: ${filename}`);
 }
 
-function formatDuration(seconds: number): string {
-  if (seconds < 1) return '<1 second';
-  if (seconds < 60) return `${seconds.toFixed(1)} seconds`;
-  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} minutes`;
-  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)} hours`;
-  return `${(seconds / 86400).toFixed(1)} days`;
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+// Refuses patterns no key can match and asks before starting absurd searches
+async function checkFeasibility(patterns: PatternSet, assumeYes: boolean): Promise<boolean> {
+  const report = analyzeFeasibility(patterns);
+
+  for (const i of report.unmatchablePatterns) {
+    if (report.verdict !== 'impossible') {
+      console.log(`Warning: no address can match pattern '${patterns.patterns[i].raw}'`);
+    }
+  }
+
+  switch (report.verdict) {
+    case 'impossible':
+      console.error(`Impossible pattern: ${report.reason}`);
+      return false;
+    case 'astronomical':
+      console.log(`Astronomically unlikely pattern: ${report.reason}`);
+      if (assumeYes) return true;
+      if (await confirm('Search anyway?')) return true;
+      console.error('Aborted (pass --yes to search anyway)');
+      return false;
+    case 'feasible':
+      return true;
+  }
 }
 
 async function search(
-  patternStr: string,
+  patterns: PatternSet,
   matchCount: number,
   options: {
     ignoreCase: boolean;
-    matchMode: 'prefix' | 'suffix' | 'anywhere';
-    useWebGpu: boolean;
+    matchMode: MatchMode;
+    backend?: BackendChoice;
+    threads?: number;
+    pipelineDepth?: number;
+    gpuAdapters?: GpuAdapterSelector[];
+    deterministic?: { masterSeed: Uint8Array; startCounter: number };
   }
 ): Promise<void> {
-  const pattern = createPattern(patternStr, {
-    ignoreCase: options.ignoreCase,
-    matchMode: options.matchMode,
-  });
+  const patternStrs = patterns.patterns.map((p) => p.raw);
 
   console.log('\n=== Solana Vanity Address Search (WebGPU/Node.js) ===');
-  console.log(`Pattern: ${patternStr}`);
+  console.log(`Pattern${patternStrs.length > 1 ? 's' : ''}: ${patternStrs.join(', ')}`);
   console.log(`Match mode: ${options.matchMode}`);
   console.log(`Case sensitive: ${!options.ignoreCase}`);
   if (matchCount > 1) console.log(`Finding: ${matchCount} matches`);
-  console.log(`Using: ${options.useWebGpu ? 'WebGPU Hybrid' : 'CPU'}`);
+
+  let created: CreatedGrinder;
+  try {
+    created = await createGrinder(patterns, {
+      backend: options.backend,
+      threads: options.threads,
+      gpu: { pipelineDepth: options.pipelineDepth },
+      gpuAdapters: options.gpuAdapters,
+      deterministic: options.deterministic,
+      stopAfter: matchCount,
+    });
+  } catch (error) {
+    console.error((error as Error).message);
+    if (error instanceof GpuInitError) console.error('Run with --gpu-report for details');
+    else if (isBackendUnavailable(error)) console.error('Run with --backends to see what this machine supports');
+    process.exit(1);
+  }
+  const { grinder, backend } = created;
+
+  console.log(`Using: ${created.label}`);
+  if (options.deterministic) {
+    const { masterSeed, startCounter } = options.deterministic;
+    console.log(`Master seed: ${Buffer.from(masterSeed).toString('hex')}`);
+    if (startCounter > 0) console.log(`Starting counter: ${startCounter}`);
+  } else if (options.threads !== undefined && (backend === 'cpu' || backend === 'hybrid')) {
+    console.log(`CPU threads: ${options.threads}`);
+  }
 
   // Difficulty estimate
-  const stats = calculateDifficulty(patternStr, pattern.options);
+  const stats = calculateDifficulty(patterns);
   console.log('\nDifficulty estimate:');
   console.log(`  Effective pattern length: ${stats.effectiveLength} chars`);
   console.log(
     `  Alphabet size: ${stats.alphabetSize} (${options.ignoreCase ? 'case-insensitive' : 'case-sensitive'})`
   );
-  console.log(`  Expected attempts: ${stats.expectedAttempts.toLocaleString()}`);
+  if (stats.positionProbabilities.length > 0) {
+    console.log(
+      `  Per-position odds: ${stats.positionProbabilities.map((p) => `1 in ${(1 / p).toFixed(1)}`).join(', ')}`
+    );
+  }
+  console.log(`  Expected attempts: ${Math.round(stats.expectedAttempts).toLocaleString()}`);
   console.log(`  P50 attempts (median): ${Math.round(stats.p50Attempts).toLocaleString()}`);
 
-  const estimatedRate = options.useWebGpu ? 5000 : 3000;
+  const estimatedRate = backend === 'hybrid' || backend === 'webgpu' ? 5000 : 3000;
   const p50Seconds = stats.p50Attempts / estimatedRate;
   console.log(`  Estimated P50 time: ${formatDuration(p50Seconds)} (at ~${estimatedRate / 1000}k keys/sec)`);
   console.log('');
 
-  // Create grinder
-  let grinder: Grinder;
-  if (options.useWebGpu) {
-    try {
-      grinder = await createWebGpuGrinder(pattern);
-      console.log('WebGPU initialized successfully');
-    } catch (error) {
-      console.log(`WebGPU not available: ${(error as Error).message}`);
-      console.log('Falling back to CPU...\n');
-      grinder = new CpuGrinder(pattern);
-    }
-  } else {
-    grinder = new CpuGrinder(pattern);
-  }
-
-  console.log('Searching...');
+  console.log('Searching... (Ctrl+C to stop)');
   let foundCount = 0;
-  let lastReportTime = Date.now();
+  let last: GrindProgress | undefined;
 
-  while (foundCount < matchCount) {
-    const found = await grinder.searchBatch(BATCH_SIZE);
+  // The first Ctrl+C stops the search cleanly, a second one kills the process
+  const interrupt = new AbortController();
+  const onSigint = () => interrupt.abort();
+  process.once('SIGINT', onSigint);
 
-    if (found) {
+  try {
+    const keys = grind(patterns, {
+      grinder,
+      count: matchCount,
+      batchSize: BATCH_SIZE,
+      signal: interrupt.signal,
+      // Every second, and once more when the search ends
+      onProgress: (progress) => {
+        last = progress;
+        const label =
+          progress.backends.length > 1
+            ? progress.backends.map((backend) => `${backend.name} ${(backend.rate / 1000).toFixed(2)} k/s`).join(' | ')
+            : created.label;
+        process.stdout.write(
+          `\r[${label}] ${progress.attempts.toLocaleString()} keys, ${(progress.rate / 1000).toFixed(2)} k/s    `
+        );
+      },
+    });
+
+    for await (const found of keys) {
       foundCount++;
       console.log(`\n\n*** FOUND MATCH ${foundCount}/${matchCount}! ***`);
       console.log(`Address: ${found.address}`);
+      if (patternStrs.length > 1) console.log(`Pattern: ${patternStrs[found.patternIndex]}`);
       console.log(`Attempts: ${found.attempts.toLocaleString()}`);
+      if (found.counter !== undefined) console.log(`Seed counter: ${found.counter}`);
       console.log(`Public Key (hex): ${Buffer.from(found.publicKey).toString('hex')}`);
       console.log(`Public Key (Base58): ${bs58.encode(found.publicKey)}`);
       console.log(`Private Key (Base58): ${bs58.encode(found.privateKey)}`);
@@ -117,23 +228,35 @@ async function search(
         console.log('\nContinuing search...');
       }
     }
+  } catch (error) {
+    if (!isSearchAborted(error)) throw error;
+    const attempts = (last?.attempts ?? 0n).toLocaleString();
+    console.log(`\n\nStopped after ${attempts} keys, found ${foundCount} of ${matchCount} address(es).`);
+  } finally {
+    process.off('SIGINT', onSigint);
+    if ('destroy' in grinder) (grinder as { destroy(): void }).destroy();
+  }
 
-    // Progress report every second
-    if (Date.now() - lastReportTime > 1000) {
-      const grinderStats = grinder.getStats();
-      const rate = grinderStats.rate / 1000;
-      process.stdout.write(
-        `\r[${options.useWebGpu ? 'WebGPU' : 'CPU'}] ${grinderStats.attempts.toLocaleString()} keys, ${rate.toFixed(2)} k/s    `
+  if (!interrupt.signal.aborted) {
+    console.log(`\n\nDone! Found ${foundCount} matching address(es).`);
+  }
+  if (last && last.backends.length > 1) {
+    for (const backend of last.backends) {
+      console.log(
+        `  ${backend.name}: ${backend.attempts.toLocaleString()} keys (${(backend.share * 100).toFixed(0)}%), ${(backend.rate / 1000).toFixed(2)} k/s`
       );
-      lastReportTime = Date.now();
     }
   }
-
-  console.log(`\n\nDone! Found ${foundCount} matching address(es).`);
-
-  // Cleanup
-  if ('destroy' in grinder) {
-    (grinder as WebGpuGrinder).destroy();
+  const incidents = (last?.backends ?? []).flatMap((backend) =>
+    (backend.incidents ?? []).map((incident) => ({ backend: backend.name, ...incident }))
+  );
+  if (incidents.length > 0) {
+    console.log(`\n${incidents.length} backend failure(s) during the search:`);
+    for (const incident of incidents) {
+      console.log(
+        `  ${incident.backend}: ${incident.message} after ${incident.attempts.toLocaleString()} keys (${incident.outcome})`
+      );
+    }
   }
 }
 
@@ -152,35 +275,201 @@ async function main(): Promise<void> {
     return;
   }
 
-  // Parse pattern
-  const patternArg = args.find((arg) => !arg.startsWith('-'));
-  if (!patternArg) {
-    printUsage();
+  if (args.includes('--backends')) {
+    await listBackends();
     return;
   }
 
-  const { pattern: patternStr, count: matchCount } = parsePatternWithCount(patternArg);
+  if (args.includes('--gpus')) {
+    await listGpus();
+    return;
+  }
+
+  if (args.includes('--gpu-report')) {
+    if (!(await printGpuReport())) process.exit(1);
+    return;
+  }
 
-  // Validate pattern
+  // Parse patterns and composite segments (a count on any pattern applies to the whole set)
+  const patternArgs: string[] = [];
+  const segments: PatternSegment[] = [];
+  let masterSeed: Uint8Array | undefined;
+  let startCounter = 0;
+  let threads: number | undefined;
+  let pipelineDepth: number | undefined;
+  let backend: BackendChoice | undefined;
+  const gpuAdapters: GpuAdapterSelector[] = [];
   try {
-    validatePattern(patternStr);
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '--starts-with' || arg === '--ends-with' || arg === '--at') {
+        const value = args[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        segments.push(parseSegment(arg, value));
+      } else if (arg === '--seed' || arg === '--counter') {
+        const value = args[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        if (arg === '--seed') masterSeed = parseMasterSeed(value);
+        else startCounter = parseCounter(value);
+      } else if (arg === '--backend') {
+        const value = args[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        backend = parseBackendChoice(value);
+      } else if (arg === '--gpu') {
+        const value = args[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        gpuAdapters.push(parseGpuAdapterSelector(value));
+      } else if (arg === '--threads' || arg === '--gpu-queue') {
+        const value = args[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        if (arg === '--threads') threads = parsePositive(arg, value);
+        else pipelineDepth = parsePositive(arg, value);
+      } else if (!arg.startsWith('-')) {
+        patternArgs.push(arg);
+      }
+    }
+    if (args.includes('--counter') && !masterSeed) throw new Error('--counter needs --seed');
   } catch (error) {
     console.error((error as Error).message);
     process.exit(1);
   }
 
+  if (patternArgs.length === 0 && segments.length === 0) {
+    printUsage();
+    return;
+  }
+
+  const patternStrs: string[] = [];
+  let matchCount = 1;
+  for (const patternArg of patternArgs) {
+    const { pattern: patternStr, count } = parsePatternWithCount(patternArg);
+    patternStrs.push(patternStr);
+    matchCount = Math.max(matchCount, count);
+  }
+
   // Parse options
   const ignoreCase = !args.includes('-s') && !args.includes('--case-sensitive');
-  const useWebGpu = !args.includes('--cpu');
-  let matchMode: 'prefix' | 'suffix' | 'anywhere' = 'prefix';
+  let matchMode: MatchMode = 'prefix';
   if (args.includes('--suffix')) matchMode = 'suffix';
   if (args.includes('--anywhere')) matchMode = 'anywhere';
 
-  await search(patternStr, matchCount, {
+  // Validate and compile patterns
+  const patterns: Pattern[] = [];
+  try {
+    patternStrs.forEach(validatePattern);
+    for (const patternStr of patternStrs) {
+      patterns.push(createPattern(patternStr, { ignoreCase, matchMode }));
+    }
+    if (segments.length > 0) {
+      patterns.push(createCompositePattern(segments, { ignoreCase }));
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const patternSet = createPatternSet(patterns);
+  const assumeYes = args.includes('-y') || args.includes('--yes');
+  if (!(await checkFeasibility(patternSet, assumeYes))) {
+    process.exit(1);
+  }
+
+  if (!masterSeed && args.includes('--deterministic')) {
+    masterSeed = Uint8Array.from(randomBytes(MASTER_SEED_LENGTH));
+  }
+
+  // A master seed already means the CPU-only noble backend
+  if (!backend && !masterSeed && args.includes('--cpu')) backend = 'cpu';
+  if (gpuAdapters.length > 0 && (masterSeed || backend === 'cpu' || backend === 'noble')) {
+    console.error('--gpu needs a GPU backend (auto, hybrid or webgpu)');
+    process.exit(1);
+  }
+
+  await search(patternSet, matchCount, {
     ignoreCase,
-    matchMode,
-    useWebGpu,
+    matchMode: patternStrs.length === 0 ? 'composite' : matchMode,
+    backend,
+    threads,
+    pipelineDepth,
+    gpuAdapters,
+    deterministic: masterSeed ? { masterSeed, startCounter } : undefined,
   });
 }
 
+async function listBackends(): Promise<void> {
+  const probes = await probeBackends();
+  console.log('Backends:');
+  for (const [i, probe] of probes.entries()) {
+    const { name, description } = BACKENDS[i];
+    const status = probe.available ? 'available' : `unavailable (${probe.reason})`;
+    console.log(`  ${name.padEnd(8)} ${status}`);
+    console.log(`           ${description}`);
+    if (probe.adapter) console.log(`           Adapter: ${adapterKey(probe.adapter)}`);
+    if (probe.threads !== undefined) console.log(`           Threads: ${probe.threads}`);
+  }
+}
+
+async function listGpus(): Promise<void> {
+  let adapters: GpuAdapterEntry[];
+  try {
+    adapters = await listGpuAdapters(getNodeGpu());
+  } catch (error) {
+    if (!isBackendUnavailable(error)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+  if (adapters.length === 0) {
+    console.log('No GPU adapters found');
+    return;
+  }
+  console.log('GPU adapters:');
+  for (const adapter of adapters) {
+    const requests = adapter.requests.map((request) => request.powerPreference ?? 'fallback');
+    console.log(`  ${adapter.index}  ${adapter.name} (${requests.join(', ')})`);
+  }
+}
+
+// Runs a GPU grinder's init() and prints what it found; false if the GPU can't be used
+async function printGpuReport(): Promise<boolean> {
+  // Tuning would only add noise, so the report uses a fixed dispatch size
+  const grinder = new WebGpuGrinder(createPattern('1'), { batchSize: 65536, tuningCache: null });
+  try {
+    await grinder.init();
+  } catch (error) {
+    if (!isBackendUnavailable(error)) throw error;
+  } finally {
+    grinder.destroy();
+  }
+  for (const line of formatGpuInitReport(grinder.initReport!)) console.log(line);
+  return grinder.initReport!.ok;
+}
+
+function parseCounter(value: string): number {
+  const counter = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(counter)) {
+    throw new Error(`Invalid --counter value '${value}'`);
+  }
+  return counter;
+}
+
+function parsePositive(flag: string, value: string): number {
+  const n = Number(value);
+  if (!/^\d+$/.test(value) || n < 1) {
+    throw new Error(`Invalid ${flag} value '${value}'`);
+  }
+  return n;
+}
+
+function parseSegment(flag: string, value: string): PatternSegment {
+  if (flag === '--starts-with') return { raw: value, anchor: 'start' };
+  if (flag === '--ends-with') return { raw: value, anchor: 'end' };
+
+  const colon = value.indexOf(':');
+  const index = Number(value.slice(0, colon));
+  if (colon <= 0 || !Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid --at value '${value}', expected <index>:<pattern>`);
+  }
+  return { raw: value.slice(colon + 1), anchor: index };
+}
+
 main().catch(console.error);
@@ -1,37 +1,40 @@
-import { webcrypto } from 'crypto';
 import bs58 from 'bs58';
-import { Grinder, GrinderStats, FoundKey, Pattern } from './types';
-import { matchesPattern } from './pattern';
-
-const subtle = webcrypto.subtle;
+import { Grinder, GrinderStats, FoundKey, PatternInput, PatternSet } from './types';
+import { findMatchingPattern, toPatternSet } from './pattern';
+import { throwIfAborted } from './abort';
+import { CryptoProvider, defaultCrypto } from './platform';
 
+// Generates random Ed25519 keys with Web Crypto; runs in Node and browsers alike
 export class CpuGrinder implements Grinder {
-  private pattern: Pattern;
-  private attempts: number = 0;
+  private patterns: PatternSet;
+  private subtle: SubtleCrypto;
+  private attempts: bigint = 0n;
   private startTime: number = Date.now();
 
-  constructor(pattern: Pattern) {
-    this.pattern = pattern;
+  constructor(pattern: PatternInput, crypto: CryptoProvider = defaultCrypto()) {
+    this.patterns = toPatternSet(pattern);
+    this.subtle = crypto.subtle;
   }
 
-  async searchBatch(maxAttempts: number): Promise<FoundKey | null> {
-    const endAttempts = this.attempts + maxAttempts;
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    const endAttempts = this.attempts + BigInt(maxAttempts);
 
     while (this.attempts < endAttempts) {
+      throwIfAborted(signal);
       try {
         // Generate Ed25519 keypair using Web Crypto API
-        const keyPair = (await subtle.generateKey(
+        const keyPair = (await this.subtle.generateKey(
           'Ed25519' as unknown as EcKeyGenParams,
           true, // extractable
           ['sign', 'verify']
         )) as CryptoKeyPair;
 
         // Export public key as raw bytes
-        const publicKeyBuffer = await subtle.exportKey('raw', keyPair.publicKey);
+        const publicKeyBuffer = await this.subtle.exportKey('raw', keyPair.publicKey);
         const publicKey = new Uint8Array(publicKeyBuffer);
 
         // Export private key as PKCS8 format
-        const privateKeyPkcs8 = await subtle.exportKey('pkcs8', keyPair.privateKey);
+        const privateKeyPkcs8 = await this.subtle.exportKey('pkcs8', keyPair.privateKey);
 
         // Extract the raw 32-byte seed from PKCS8 (it's at offset 16 for Ed25519)
         const pkcs8Bytes = new Uint8Array(privateKeyPkcs8);
@@ -43,25 +46,29 @@ export class CpuGrinder implements Grinder {
         this.attempts++;
 
         // Check pattern match
-        if (matchesPattern(address, this.pattern)) {
+        const patternIndex = findMatchingPattern(address, this.patterns);
+        if (patternIndex >= 0) {
           // Build 64-byte private key (seed + public key) for Solana compatibility
           const fullPrivateKey = new Uint8Array(64);
           fullPrivateKey.set(seed, 0);
           fullPrivateKey.set(publicKey, 32);
 
-          return {
-            publicKey,
-            privateKey: fullPrivateKey,
-            address,
-            attempts: this.attempts,
-          };
+          return [
+            {
+              publicKey,
+              privateKey: fullPrivateKey,
+              address,
+              attempts: this.attempts,
+              patternIndex,
+            },
+          ];
         }
       } catch {
         this.attempts++;
       }
     }
 
-    return null;
+    return [];
   }
 
   getStats(): GrinderStats {
@@ -69,13 +76,13 @@ export class CpuGrinder implements Grinder {
     const elapsedSec = elapsedMs / 1000;
     return {
       attempts: this.attempts,
-      rate: elapsedSec > 0 ? this.attempts / elapsedSec : 0,
+      rate: elapsedSec > 0 ? Number(this.attempts) / elapsedSec : 0,
       elapsedMs,
     };
   }
 
   reset(): void {
-    this.attempts = 0;
+    this.attempts = 0n;
     this.startTime = Date.now();
   }
 }
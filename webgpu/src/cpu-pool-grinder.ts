@@ -0,0 +1,133 @@
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+import { Grinder, GrinderStats, FoundKey, PatternInput, PatternSet } from './types';
+import { toPatternSet } from './pattern';
+import { SearchAbortedError, throwIfAborted } from './abort';
+import type { PoolWorkerData, PoolWorkerReply } from './cpu-pool-worker';
+
+/**
+ * CPU grinder that spreads each batch across worker_threads, each running
+ * its own CpuGrinder. A match in any worker stops the others; the batch
+ * returns every match reported before they stopped. An abort stops them the
+ * same way, counts the keys they tried and rejects.
+ */
+export class CpuPoolGrinder implements Grinder {
+  private patterns: PatternSet;
+  private threadCount: number;
+  private workers: Worker[] = [];
+  private stop: Int32Array = new Int32Array(new SharedArrayBuffer(4));
+  private attempts: bigint = 0n;
+  private startTime: number = Date.now();
+
+  constructor(pattern: PatternInput, threadCount: number = defaultThreadCount()) {
+    if (!Number.isInteger(threadCount) || threadCount < 1) {
+      throw new Error(`Invalid thread count ${threadCount}`);
+    }
+    this.patterns = toPatternSet(pattern);
+    this.threadCount = threadCount;
+  }
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    throwIfAborted(signal);
+    if (this.workers.length === 0) this.spawnWorkers();
+
+    Atomics.store(this.stop, 0, 0);
+    const stop = this.stop;
+    const onAbort = () => Atomics.store(stop, 0, 1);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Split the batch evenly; the first workers take the remainder
+    const share = Math.floor(maxAttempts / this.threadCount);
+    const remainder = maxAttempts % this.threadCount;
+    const runs = this.workers
+      .map((worker, i) => ({ worker, attempts: share + (i < remainder ? 1 : 0) }))
+      .filter((run) => run.attempts > 0);
+
+    let replies: PoolWorkerReply[];
+    try {
+      replies = await Promise.all(runs.map((run) => this.runShare(run.worker, run.attempts)));
+    } catch (error) {
+      // Other workers may still answer this batch; don't let them answer the next one
+      this.destroy();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    for (const reply of replies) this.attempts += BigInt(reply.attempts);
+    if (signal?.aborted) throw new SearchAbortedError(signal.reason);
+    return replies.flatMap((reply) => reply.found.map((key) => ({ ...key, attempts: this.attempts })));
+  }
+
+  getStats(): GrinderStats {
+    const elapsedMs = Date.now() - this.startTime;
+    const elapsedSec = elapsedMs / 1000;
+    return {
+      attempts: this.attempts,
+      rate: elapsedSec > 0 ? Number(this.attempts) / elapsedSec : 0,
+      elapsedMs,
+    };
+  }
+
+  reset(): void {
+    this.attempts = 0n;
+    this.startTime = Date.now();
+  }
+
+  // Terminates the workers; the next searchBatch starts new ones
+  destroy(): void {
+    Atomics.store(this.stop, 0, 1);
+    for (const worker of this.workers) void worker.terminate();
+    this.workers = [];
+  }
+
+  private spawnWorkers(): void {
+    const workerData: PoolWorkerData = { patterns: this.patterns, stop: this.stop };
+
+    // Under ts-node and jest this module is TypeScript, and so is the worker
+    const isTypeScript = path.extname(__filename) === '.ts';
+    const file = path.join(__dirname, `cpu-pool-worker${isTypeScript ? '.ts' : '.js'}`);
+    const execArgv = isTypeScript ? ['-r', 'ts-node/register/transpile-only'] : [];
+
+    for (let i = 0; i < this.threadCount; i++) {
+      const worker = new Worker(file, { workerData, execArgv });
+      // Idle workers must not keep the process alive
+      worker.unref();
+      this.workers.push(worker);
+    }
+  }
+
+  private runShare(worker: Worker, maxAttempts: number): Promise<PoolWorkerReply> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        worker.unref();
+      };
+      const onMessage = (reply: PoolWorkerReply) => {
+        cleanup();
+        resolve(reply);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onExit = (code: number) => {
+        cleanup();
+        reject(new Error(`CPU worker exited with code ${code}`));
+      };
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.ref();
+      worker.postMessage({ maxAttempts });
+    });
+  }
+}
+
+function defaultThreadCount(): number {
+  return os.availableParallelism();
+}
@@ -0,0 +1,46 @@
+// worker_threads entry point of CpuPoolGrinder: grinds its share of a batch
+// with a CpuGrinder, in small chunks so a match elsewhere stops it quickly
+import { parentPort, workerData } from 'worker_threads';
+import { CpuGrinder } from './cpu-grinder';
+import { FoundKey, PatternSet } from './types';
+
+export interface PoolWorkerData {
+  patterns: PatternSet;
+  stop: Int32Array; // Shared flag, set to 1 once any worker has a match
+}
+
+export interface PoolWorkerRequest {
+  maxAttempts: number;
+}
+
+export interface PoolWorkerReply {
+  attempts: number;
+  found: FoundKey[];
+}
+
+// Keys generated between checks of the stop flag
+const CHUNK_SIZE = 64;
+
+if (parentPort) {
+  const port = parentPort;
+  const { patterns, stop } = workerData as PoolWorkerData;
+  const grinder = new CpuGrinder(patterns);
+
+  port.on('message', async ({ maxAttempts }: PoolWorkerRequest) => {
+    const startAttempts = grinder.getStats().attempts;
+    const found: FoundKey[] = [];
+    let attempts = 0;
+
+    while (attempts < maxAttempts && Atomics.load(stop, 0) === 0) {
+      const keys = await grinder.searchBatch(Math.min(CHUNK_SIZE, maxAttempts - attempts));
+      attempts = Number(grinder.getStats().attempts - startAttempts);
+      if (keys.length > 0) {
+        found.push(...keys);
+        Atomics.store(stop, 0, 1);
+      }
+    }
+
+    const reply: PoolWorkerReply = { attempts, found };
+    port.postMessage(reply);
+  });
+}
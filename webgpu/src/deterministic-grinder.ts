@@ -0,0 +1,135 @@
+import * as ed from '@noble/ed25519';
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+import { Grinder, GrinderStats, FoundKey, PatternInput, PatternSet } from './types';
+import { findMatchingPattern, toPatternSet } from './pattern';
+import { throwIfAborted } from './abort';
+
+// noble's synchronous API needs a SHA-512 implementation
+ed.hashes.sha512 = sha512;
+
+export const MASTER_SEED_LENGTH = 32;
+
+// Keys derived between yields to the event loop, so an abort is noticed
+const ABORT_CHECK_INTERVAL = 256;
+
+/**
+ * Derives the Ed25519 seed for a counter: SHA-256(masterSeed || counter as
+ * u64 little-endian). The same master seed and counter always give the same
+ * key, so any hit can be replayed.
+ */
+export function deriveSeed(masterSeed: Uint8Array, counter: number): Uint8Array {
+  if (!Number.isSafeInteger(counter) || counter < 0) {
+    throw new Error(`Invalid seed counter ${counter}`);
+  }
+
+  const input = new Uint8Array(masterSeed.length + 8);
+  input.set(masterSeed, 0);
+  const view = new DataView(input.buffer);
+  view.setUint32(masterSeed.length, counter >>> 0, true);
+  view.setUint32(masterSeed.length + 4, Math.floor(counter / 0x100000000), true);
+  return sha256(input);
+}
+
+/**
+ * Rebuilds the key pair for a master seed and counter.
+ */
+export function replayKey(
+  masterSeed: Uint8Array,
+  counter: number
+): { publicKey: Uint8Array; privateKey: Uint8Array; address: string } {
+  const seed = deriveSeed(masterSeed, counter);
+  const publicKey = ed.getPublicKey(seed);
+
+  // 64-byte private key (seed + public key) for Solana compatibility
+  const privateKey = new Uint8Array(64);
+  privateKey.set(seed, 0);
+  privateKey.set(publicKey, 32);
+
+  return { publicKey, privateKey, address: bs58.encode(publicKey) };
+}
+
+export function parseMasterSeed(hex: string): Uint8Array {
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length !== MASTER_SEED_LENGTH * 2) {
+    throw new Error(`Master seed must be ${MASTER_SEED_LENGTH * 2} hex characters`);
+  }
+  const seed = new Uint8Array(MASTER_SEED_LENGTH);
+  for (let i = 0; i < seed.length; i++) {
+    seed[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return seed;
+}
+
+/**
+ * CPU grinder that walks the keys of a master seed in counter order using
+ * @noble/ed25519, instead of asking Web Crypto for random keys.
+ */
+export class DeterministicCpuGrinder implements Grinder {
+  private patterns: PatternSet;
+  private masterSeed: Uint8Array;
+  private startCounter: number;
+  private attempts: bigint = 0n;
+  private startTime: number = Date.now();
+
+  constructor(pattern: PatternInput, masterSeed: Uint8Array, startCounter: number = 0) {
+    if (masterSeed.length !== MASTER_SEED_LENGTH) {
+      throw new Error(`Master seed must be ${MASTER_SEED_LENGTH} bytes`);
+    }
+    this.patterns = toPatternSet(pattern);
+    this.masterSeed = Uint8Array.from(masterSeed);
+    this.startCounter = startCounter;
+  }
+
+  // Counter of the next key to try
+  get counter(): number {
+    return this.startCounter + Number(this.attempts);
+  }
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    const endAttempts = this.attempts + BigInt(maxAttempts);
+    let sinceYield = 0;
+
+    while (this.attempts < endAttempts) {
+      // Key derivation is synchronous: without a yield the abort event can't fire
+      if (signal && ++sinceYield > ABORT_CHECK_INTERVAL) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        sinceYield = 0;
+      }
+      throwIfAborted(signal);
+
+      const counter = this.counter;
+      const key = replayKey(this.masterSeed, counter);
+      this.attempts++;
+
+      const patternIndex = findMatchingPattern(key.address, this.patterns);
+      if (patternIndex >= 0) {
+        return [
+          {
+            ...key,
+            attempts: this.attempts,
+            patternIndex,
+            counter,
+          },
+        ];
+      }
+    }
+
+    return [];
+  }
+
+  getStats(): GrinderStats {
+    const elapsedMs = Date.now() - this.startTime;
+    const elapsedSec = elapsedMs / 1000;
+    return {
+      attempts: this.attempts,
+      rate: elapsedSec > 0 ? Number(this.attempts) / elapsedSec : 0,
+      elapsedMs,
+    };
+  }
+
+  // Restarts from the starting counter, so the same keys come out again
+  reset(): void {
+    this.attempts = 0n;
+    this.startTime = Date.now();
+  }
+}
@@ -0,0 +1,461 @@
+// Software stand-in for a WebGPU adapter and device
+//
+// Implements the part of the WebGPU API the GPU grinders use, with compute
+// passes running the TypeScript kernel model (kernelMain) on real buffers.
+// Submitted work runs asynchronously and in order, so mapAsync settles the
+// way it does on a GPU, and faults (device loss, failed maps) can be
+// injected at any point. Slow, but it runs the grinders' whole control flow
+// where there is no GPU.
+import { KernelBindings, kernelMain } from './kernel-model';
+import { GpuProvider } from './platform';
+
+// Flag values from the WebGPU spec, for hosts that don't define the globals
+export const FAKE_GPU_CONSTANTS = {
+  GPUBufferUsage: {
+    MAP_READ: 0x1,
+    MAP_WRITE: 0x2,
+    COPY_SRC: 0x4,
+    COPY_DST: 0x8,
+    INDEX: 0x10,
+    VERTEX: 0x20,
+    UNIFORM: 0x40,
+    STORAGE: 0x80,
+    INDIRECT: 0x100,
+    QUERY_RESOLVE: 0x200,
+  },
+  GPUMapMode: { READ: 0x1, WRITE: 0x2 },
+  GPUShaderStage: { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 },
+};
+
+// One kernel invocation; kernelMain unless a test swaps in its own
+export type FakeKernel = (globalId: number, bindings: KernelBindings) => void;
+
+export interface FakeGpuOptions {
+  info?: Partial<GPUAdapterInfo>;
+  limits?: Partial<GPUSupportedLimits>;
+  kernel?: FakeKernel;
+  compilationMessages?: FakeCompilationMessage[]; // Reported by every shader module's getCompilationInfo()
+  validationErrors?: Partial<Record<FakeValidatedCall, string>>; // Validation error each call reports
+}
+
+export interface FakeCompilationMessage {
+  type: GPUCompilationMessageType;
+  message: string;
+  lineNum?: number;
+  linePos?: number;
+}
+
+export type FakeValidatedCall = 'createShaderModule' | 'createComputePipeline' | 'createBindGroup';
+
+const DEFAULT_LIMITS = {
+  maxBufferSize: 268435456,
+  maxStorageBufferBindingSize: 134217728,
+  maxComputeWorkgroupSizeX: 256,
+  maxComputeInvocationsPerWorkgroup: 256,
+  maxComputeWorkgroupsPerDimension: 65535,
+};
+
+function operationError(message: string): DOMException {
+  return new DOMException(message, 'OperationError');
+}
+
+/**
+ * A navigator.gpu that hands out one software adapter. Every device it
+ * creates is kept in `devices`, so tests can reach the one a grinder uses.
+ * Defines the GPUBufferUsage/GPUMapMode globals if the host lacks them.
+ */
+export class FakeGpu implements GpuProvider {
+  readonly devices: FakeGpuDevice[] = [];
+  private options: FakeGpuOptions;
+
+  constructor(options: FakeGpuOptions = {}) {
+    this.options = options;
+    for (const [name, value] of Object.entries(FAKE_GPU_CONSTANTS)) {
+      if (!(name in globalThis)) Object.assign(globalThis, { [name]: value });
+    }
+  }
+
+  async requestAdapter(): Promise<GPUAdapter> {
+    return new FakeGpuAdapter(this, this.options) as unknown as GPUAdapter;
+  }
+
+  // The most recently created device
+  get device(): FakeGpuDevice | undefined {
+    return this.devices[this.devices.length - 1];
+  }
+}
+
+export class FakeGpuAdapter {
+  readonly info: GPUAdapterInfo;
+  readonly limits: GPUSupportedLimits;
+  readonly features: Set<string> = new Set();
+  private gpu: FakeGpu;
+  private options: FakeGpuOptions;
+
+  constructor(gpu: FakeGpu, options: FakeGpuOptions) {
+    this.gpu = gpu;
+    this.options = options;
+    this.info = {
+      vendor: 'fake',
+      architecture: 'kernel-model',
+      device: '',
+      description: 'Software kernel model',
+      ...options.info,
+    } as GPUAdapterInfo;
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits } as GPUSupportedLimits;
+  }
+
+  async requestDevice(): Promise<GPUDevice> {
+    const device = new FakeGpuDevice(this.limits, this.options);
+    this.gpu.devices.push(device);
+    return device as unknown as GPUDevice;
+  }
+}
+
+type Command =
+  | { type: 'clear'; buffer: FakeGpuBuffer; offset: number; size?: number }
+  | { type: 'dispatch'; pipeline: FakePipeline; bindGroup: FakeBindGroup; workgroups: number }
+  | {
+      type: 'copy';
+      source: FakeGpuBuffer;
+      sourceOffset: number;
+      destination: FakeGpuBuffer;
+      destinationOffset: number;
+      size: number;
+    };
+
+interface FakePipeline {
+  workgroupSize: number;
+  getBindGroupLayout(index: number): object;
+}
+
+interface FakeBindGroup {
+  buffers: FakeGpuBuffer[]; // Indexed by binding
+}
+
+interface FakeQueue {
+  writeBuffer(buffer: FakeGpuBuffer, offset: number, data: BufferSource): void;
+  submit(commandBuffers: { commands: Command[] }[]): void;
+  onSubmittedWorkDone(): Promise<void>;
+}
+
+/**
+ * The device: creates buffers, pipelines and command encoders, and runs
+ * submissions one after another on a simulated queue. Fault injection:
+ * lose() loses the device, failMaps() makes upcoming maps fail, hang()
+ * stalls the queue, raiseError() reports an error, and onDispatch runs
+ * before each dispatch (to inject any of them mid-search). Errors go to
+ * the innermost matching error scope, or to the uncapturederror listeners.
+ */
+export class FakeGpuDevice {
+  readonly limits: GPUSupportedLimits;
+  readonly features: Set<string> = new Set();
+  readonly lost: Promise<GPUDeviceLostInfo>;
+  readonly queue: FakeQueue;
+  dispatches = 0; // Dispatches run so far
+  onDispatch?: (index: number) => void;
+
+  private kernel: FakeKernel;
+  private compilationMessages: FakeCompilationMessage[];
+  private validationErrors: Partial<Record<FakeValidatedCall, string>>;
+  private work: Promise<void> = Promise.resolve();
+  private lostInfo: GPUDeviceLostInfo | null = null;
+  private resolveLost!: (info: GPUDeviceLostInfo) => void;
+  private mapFailures = 0;
+  private resumeQueue: (() => void) | null = null;
+  private errorListeners: ((event: GPUUncapturedErrorEvent) => void)[] = [];
+  private errorScopes: { filter: GPUErrorFilter; error: GPUError | null }[] = [];
+
+  constructor(limits: GPUSupportedLimits, options: FakeGpuOptions = {}) {
+    this.limits = limits;
+    this.kernel = options.kernel ?? kernelMain;
+    this.compilationMessages = options.compilationMessages ?? [];
+    this.validationErrors = options.validationErrors ?? {};
+    this.lost = new Promise((resolve) => {
+      this.resolveLost = resolve;
+    });
+    this.queue = {
+      writeBuffer: (buffer: FakeGpuBuffer, offset: number, data: BufferSource): void => {
+        const bytes = ArrayBuffer.isView(data)
+          ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+          : new Uint8Array(data).slice();
+        this.enqueue(() => buffer.bytes.set(bytes, offset));
+      },
+      submit: (commandBuffers: { commands: Command[] }[]): void => {
+        for (const { commands } of commandBuffers) {
+          // Yield first, like a GPU that runs the work after submit() returns
+          this.enqueue(() => new Promise((resolve) => setTimeout(resolve, 0)));
+          this.enqueue(() => this.execute(commands));
+        }
+      },
+      onSubmittedWorkDone: (): Promise<void> => this.work,
+    };
+  }
+
+  get isLost(): boolean {
+    return this.lostInfo !== null;
+  }
+
+  // Loses the device: queued work is dropped and pending maps reject
+  lose(message: string = 'Device lost', reason: GPUDeviceLostReason = 'unknown'): void {
+    if (this.lostInfo) return;
+    this.lostInfo = { reason, message } as GPUDeviceLostInfo;
+    this.resolveLost(this.lostInfo);
+    this.resumeQueue?.();
+  }
+
+  // Stalls the queue: nothing submitted from now on runs, and maps never settle, until the device is lost
+  hang(): void {
+    this.enqueue(
+      () =>
+        new Promise<void>((resolve) => {
+          this.resumeQueue = resolve;
+        })
+    );
+  }
+
+  // Reports an error the way a device does for a failed operation
+  raiseError(message: string, filter: GPUErrorFilter = 'out-of-memory'): void {
+    const error = { message } as GPUError;
+    for (let i = this.errorScopes.length - 1; i >= 0; i--) {
+      const scope = this.errorScopes[i];
+      if (scope.filter !== filter) continue;
+      scope.error ??= error; // A scope keeps the first error it catches
+      return;
+    }
+    const event = { type: 'uncapturederror', error } as unknown as GPUUncapturedErrorEvent;
+    for (const listener of this.errorListeners) listener(event);
+  }
+
+  pushErrorScope(filter: GPUErrorFilter): void {
+    this.errorScopes.push({ filter, error: null });
+  }
+
+  async popErrorScope(): Promise<GPUError | null> {
+    const scope = this.errorScopes.pop();
+    if (!scope) throw operationError('No error scope to pop');
+    return scope.error;
+  }
+
+  addEventListener(type: string, listener: (event: GPUUncapturedErrorEvent) => void): void {
+    if (type === 'uncapturederror') this.errorListeners.push(listener);
+  }
+
+  // Makes the next `count` maps to settle fail with an OperationError
+  failMaps(count: number = 1): void {
+    this.mapFailures += count;
+  }
+
+  destroy(): void {
+    this.lose('Device destroyed', 'destroyed');
+  }
+
+  createBuffer({ size, usage }: GPUBufferDescriptor): FakeGpuBuffer {
+    return new FakeGpuBuffer(this, size, usage);
+  }
+
+  createShaderModule({ code }: GPUShaderModuleDescriptor): object {
+    this.validate('createShaderModule');
+    const messages = this.compilationMessages.map(({ lineNum = 0, linePos = 0, ...message }) => ({
+      ...message,
+      lineNum,
+      linePos,
+    }));
+    return { code, getCompilationInfo: async () => ({ messages }) };
+  }
+
+  createComputePipeline({ compute }: GPUComputePipelineDescriptor): FakePipeline {
+    const workgroupSize = Number(compute.constants?.WORKGROUP_SIZE ?? 64);
+    const error = this.pipelineError(workgroupSize);
+    if (error !== undefined) this.raiseError(error, 'validation');
+    return { workgroupSize, getBindGroupLayout: () => ({}) };
+  }
+
+  // Rejects instead of reporting to an error scope, like the real one
+  async createComputePipelineAsync({ compute }: GPUComputePipelineDescriptor): Promise<FakePipeline> {
+    const workgroupSize = Number(compute.constants?.WORKGROUP_SIZE ?? 64);
+    const error = this.pipelineError(workgroupSize);
+    if (error !== undefined) throw new DOMException(error, 'GPUPipelineError');
+    return { workgroupSize, getBindGroupLayout: () => ({}) };
+  }
+
+  private pipelineError(workgroupSize: number): string | undefined {
+    if (workgroupSize > this.limits.maxComputeWorkgroupSizeX) {
+      return `Workgroup size ${workgroupSize} exceeds maxComputeWorkgroupSizeX`;
+    }
+    return this.validationErrors.createComputePipeline;
+  }
+
+  createBindGroup({ entries }: { entries: { binding: number; resource: { buffer: FakeGpuBuffer } }[] }): FakeBindGroup {
+    this.validate('createBindGroup');
+    const buffers: FakeGpuBuffer[] = [];
+    for (const { binding, resource } of entries) buffers[binding] = resource.buffer;
+    return { buffers };
+  }
+
+  // A real device still returns an (invalid) object when validation fails, so this only reports the error
+  private validate(call: FakeValidatedCall): void {
+    const message = this.validationErrors[call];
+    if (message !== undefined) this.raiseError(message, 'validation');
+  }
+
+  createCommandEncoder() {
+    const commands: Command[] = [];
+    return {
+      clearBuffer: (buffer: FakeGpuBuffer, offset: number = 0, size?: number) => {
+        commands.push({ type: 'clear', buffer, offset, size });
+      },
+      beginComputePass: () => {
+        let pipeline: FakePipeline | null = null;
+        let bindGroup: FakeBindGroup | null = null;
+        return {
+          setPipeline: (p: FakePipeline) => {
+            pipeline = p;
+          },
+          setBindGroup: (_index: number, group: FakeBindGroup) => {
+            bindGroup = group;
+          },
+          dispatchWorkgroups: (workgroups: number) => {
+            if (!pipeline || !bindGroup) throw operationError('dispatchWorkgroups without a pipeline and bind group');
+            commands.push({ type: 'dispatch', pipeline, bindGroup, workgroups });
+          },
+          end: () => {},
+        };
+      },
+      copyBufferToBuffer: (
+        source: FakeGpuBuffer,
+        sourceOffset: number,
+        destination: FakeGpuBuffer,
+        destinationOffset: number,
+        size: number
+      ) => {
+        commands.push({ type: 'copy', source, sourceOffset, destination, destinationOffset, size });
+      },
+      finish: () => ({ commands }),
+    };
+  }
+
+  // Settles once everything queued so far has run
+  whenIdle(): Promise<void> {
+    return this.work;
+  }
+
+  // Consumes one injected map failure, if any are pending
+  takeMapFailure(): boolean {
+    if (this.mapFailures === 0) return false;
+    this.mapFailures--;
+    return true;
+  }
+
+  private enqueue(operation: () => void | Promise<void>): void {
+    this.work = this.work.then(async () => {
+      if (this.lostInfo) return;
+      try {
+        await operation();
+      } catch (error) {
+        // A faulting kernel takes the device down, as on a real GPU
+        this.lose((error as Error).message);
+      }
+    });
+  }
+
+  private execute(commands: Command[]): void {
+    for (const command of commands) {
+      if (this.lostInfo) return;
+      switch (command.type) {
+        case 'clear':
+          command.buffer.bytes.fill(
+            0,
+            command.offset,
+            command.size === undefined ? undefined : command.offset + command.size
+          );
+          break;
+        case 'copy':
+          command.destination.bytes.set(
+            command.source.bytes.subarray(command.sourceOffset, command.sourceOffset + command.size),
+            command.destinationOffset
+          );
+          break;
+        case 'dispatch':
+          this.dispatch(command.pipeline, command.bindGroup, command.workgroups);
+          break;
+      }
+    }
+  }
+
+  private dispatch(pipeline: FakePipeline, bindGroup: FakeBindGroup, workgroups: number): void {
+    this.onDispatch?.(this.dispatches);
+    this.dispatches++;
+    if (this.lostInfo) return;
+
+    const [results, params, patterns] = bindGroup.buffers.map((buffer) => buffer.words);
+    const threads = workgroups * pipeline.workgroupSize;
+    for (let globalId = 0; globalId < threads; globalId++) {
+      this.kernel(globalId, { results, params, patterns });
+    }
+  }
+}
+
+/**
+ * A buffer backed by host memory. mapAsync settles once the queue has run
+ * everything submitted before it, and rejects on device loss, an injected
+ * failure, or an unmap() while it is pending.
+ */
+export class FakeGpuBuffer {
+  readonly size: number;
+  readonly usage: number;
+  readonly bytes: Uint8Array;
+  readonly words: Uint32Array;
+  mapState: GPUBufferMapState = 'unmapped';
+  destroyed = false;
+
+  private device: FakeGpuDevice;
+  private pendingMap: ((error: Error) => void) | null = null;
+
+  constructor(device: FakeGpuDevice, size: number, usage: number) {
+    this.device = device;
+    this.size = size;
+    this.usage = usage;
+    this.bytes = new Uint8Array(size);
+    this.words = new Uint32Array(this.bytes.buffer, 0, Math.floor(size / 4));
+  }
+
+  mapAsync(_mode: GPUMapModeFlags): Promise<void> {
+    if (this.device.isLost) return Promise.reject(operationError('Device is lost'));
+    if (this.destroyed) return Promise.reject(operationError('Buffer is destroyed'));
+    if (this.mapState !== 'unmapped') return Promise.reject(operationError('Buffer is already mapped'));
+
+    this.mapState = 'pending';
+    return new Promise((resolve, reject) => {
+      const abort = (error: Error) => {
+        this.pendingMap = null;
+        this.mapState = 'unmapped';
+        reject(error);
+      };
+      this.pendingMap = abort;
+      this.device.whenIdle().then(() => {
+        if (this.pendingMap !== abort) return; // Already aborted by unmap()
+        if (this.device.isLost) return abort(operationError('Device is lost'));
+        if (this.device.takeMapFailure()) return abort(operationError('mapAsync failed'));
+        this.pendingMap = null;
+        this.mapState = 'mapped';
+        resolve();
+      });
+    });
+  }
+
+  getMappedRange(offset: number = 0, size?: number): ArrayBuffer {
+    if (this.mapState !== 'mapped') throw operationError('Buffer is not mapped');
+    return this.bytes.slice(offset, size === undefined ? undefined : offset + size).buffer;
+  }
+
+  unmap(): void {
+    this.pendingMap?.(new DOMException('Buffer was unmapped before mapAsync settled', 'AbortError'));
+    this.mapState = 'unmapped';
+  }
+
+  destroy(): void {
+    this.unmap();
+    this.destroyed = true;
+  }
+}
@@ -0,0 +1,65 @@
+// Feasibility analysis: decides before grinding whether a pattern set can
+// match at all, and whether it can match within a human lifetime
+import {
+  Pattern,
+  PatternInput,
+  FeasibilityReport,
+  FEASIBILITY_REFERENCE_RATE,
+  ASTRONOMICAL_SECONDS,
+} from './types';
+import { calculateDifficulty, toPatternSet } from './pattern';
+import { formatCount, formatDuration } from './format';
+
+/**
+ * Classifies a pattern (set) from the exact Base58 distribution of 32-byte
+ * public keys, taking match mode and case sensitivity into account:
+ * impossible when no key can match, astronomical when the expected time at
+ * `rate` keys/sec exceeds a century, feasible otherwise.
+ */
+export function analyzeFeasibility(
+  input: PatternInput,
+  rate: number = FEASIBILITY_REFERENCE_RATE
+): FeasibilityReport {
+  const patterns = toPatternSet(input);
+  const difficulty = calculateDifficulty(patterns);
+  const expectedSeconds = difficulty.expectedAttempts / rate;
+
+  const unmatchablePatterns: number[] = [];
+  patterns.patterns.forEach((pattern, i) => {
+    if (calculateDifficulty({ patterns: [pattern] }).matchProbability === 0) {
+      unmatchablePatterns.push(i);
+    }
+  });
+
+  const base = { difficulty, rate, expectedSeconds, unmatchablePatterns };
+
+  if (difficulty.matchProbability === 0) {
+    const described = patterns.patterns.map(describePattern).join(', ');
+    return {
+      ...base,
+      verdict: 'impossible',
+      reason: `No 32-byte public key has an address matching ${described}`,
+    };
+  }
+
+  const expected =
+    `Expected ${formatCount(difficulty.expectedAttempts)} attempts, ` +
+    `about ${formatDuration(expectedSeconds)} at ${formatCount(rate)} keys/sec`;
+  if (expectedSeconds > ASTRONOMICAL_SECONDS) {
+    return { ...base, verdict: 'astronomical', reason: expected };
+  }
+  return { ...base, verdict: 'feasible', reason: expected };
+}
+
+function describePattern(pattern: Pattern): string {
+  switch (pattern.options.matchMode) {
+    case 'prefix':
+      return `'${pattern.raw}' as a prefix`;
+    case 'suffix':
+      return `'${pattern.raw}' as a suffix`;
+    case 'anywhere':
+      return `'${pattern.raw}' anywhere`;
+    case 'composite':
+      return `'${pattern.raw}'`;
+  }
+}
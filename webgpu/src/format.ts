@@ -0,0 +1,30 @@
+// Human-readable numbers and durations for search output
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 1) {
+    return '<1 second';
+  } else if (seconds < 60) {
+    return `${seconds.toFixed(1)} seconds`;
+  } else if (seconds < 3600) {
+    return `${(seconds / 60).toFixed(1)} minutes`;
+  } else if (seconds < 86400) {
+    return `${(seconds / 3600).toFixed(1)} hours`;
+  } else if (seconds < 86400 * 365) {
+    return `${(seconds / 86400).toFixed(1)} days`;
+  } else if (seconds < 86400 * 365 * 1000) {
+    return `${(seconds / (86400 * 365)).toFixed(1)} years`;
+  } else {
+    return `${formatCount(seconds / (86400 * 365))} years`;
+  }
+}
+
+// Large counts with a K/M/B/T suffix, e.g. 1.50M, and in exponent notation past that
+export function formatCount(count: number | bigint): string {
+  const n = Number(count);
+  if (n >= 1e15) return n.toExponential(2);
+  if (n >= 1e12) return (n / 1e12).toFixed(2) + 'T';
+  if (n >= 1e9) return (n / 1e9).toFixed(2) + 'B';
+  if (n >= 1e6) return (n / 1e6).toFixed(2) + 'M';
+  if (n >= 1e3) return (n / 1e3).toFixed(2) + 'K';
+  return n.toFixed(0);
+}
@@ -0,0 +1,95 @@
+// Finding the adapters a GPU offers, and choosing the ones to search on
+import { GpuProvider } from './platform';
+import { adapterKey } from './gpu-tuner';
+
+export interface GpuAdapterEntry {
+  index: number; // Position in the listing, for choosing it by number
+  name: string; // adapterKey() of its info
+  info: GPUAdapterInfo;
+  requests: GPURequestAdapterOptions[]; // The requests that returned it; the first one gets it again
+}
+
+// How the CLI and the backend options pick adapters
+export type GpuAdapterSelector =
+  | { kind: 'all' }
+  | { kind: 'index'; index: number }
+  | { kind: 'power'; powerPreference: GPUPowerPreference }
+  | { kind: 'name'; name: string }; // Case-insensitive substring of the adapter name
+
+const ADAPTER_REQUESTS: GPURequestAdapterOptions[] = [
+  { powerPreference: 'high-performance' },
+  { powerPreference: 'low-power' },
+  { forceFallbackAdapter: true },
+];
+
+/**
+ * WebGPU has no call that enumerates adapters, so this asks for each power
+ * preference and for the fallback adapter, and keeps the distinct answers.
+ * That finds an integrated and a discrete GPU, or a GPU and a software one;
+ * cards the platform never prefers stay out of reach. Answers are told apart
+ * by adapterKey(), since every request returns a new adapter object and the
+ * grinder asks again with the same request: two identical cards are listed,
+ * and searched on, as one.
+ */
+export async function listGpuAdapters(gpu: GpuProvider): Promise<GpuAdapterEntry[]> {
+  const adapters: GpuAdapterEntry[] = [];
+  for (const request of ADAPTER_REQUESTS) {
+    const adapter = await gpu.requestAdapter(request);
+    if (!adapter) continue;
+    const name = adapterKey(adapter.info);
+    const known = adapters.find((entry) => entry.name === name);
+    if (known) known.requests.push(request);
+    else adapters.push({ index: adapters.length, name, info: adapter.info, requests: [request] });
+  }
+  return adapters;
+}
+
+// Reads a selector given as text: 'all', an index, a power preference, or part of a name
+export function parseGpuAdapterSelector(value: string): GpuAdapterSelector {
+  if (value === '') throw new Error('Empty GPU adapter selector');
+  if (value === 'all') return { kind: 'all' };
+  if (/^\d+$/.test(value)) return { kind: 'index', index: Number(value) };
+  if (value === 'high-performance' || value === 'low-power') return { kind: 'power', powerPreference: value };
+  return { kind: 'name', name: value };
+}
+
+function matches(adapter: GpuAdapterEntry, selector: GpuAdapterSelector): boolean {
+  switch (selector.kind) {
+    case 'all':
+      return true;
+    case 'index':
+      return adapter.index === selector.index;
+    case 'power':
+      return adapter.requests.some((request) => request.powerPreference === selector.powerPreference);
+    case 'name':
+      return adapter.name.toLowerCase().includes(selector.name.toLowerCase());
+  }
+}
+
+function describeSelector(selector: GpuAdapterSelector): string {
+  switch (selector.kind) {
+    case 'all':
+      return 'all';
+    case 'index':
+      return String(selector.index);
+    case 'power':
+      return selector.powerPreference;
+    case 'name':
+      return selector.name;
+  }
+}
+
+/**
+ * The adapters any of the selectors match, each once and in listing order.
+ * A selector that matches nothing is an error rather than quietly running
+ * on fewer GPUs than asked for.
+ */
+export function selectGpuAdapters(adapters: GpuAdapterEntry[], selectors: GpuAdapterSelector[]): GpuAdapterEntry[] {
+  for (const selector of selectors) {
+    if (!adapters.some((adapter) => matches(adapter, selector))) {
+      const found = adapters.map((adapter) => `${adapter.index}: ${adapter.name}`).join(', ') || 'none';
+      throw new Error(`No GPU adapter matches '${describeSelector(selector)}' (found: ${found})`);
+    }
+  }
+  return adapters.filter((adapter) => selectors.some((selector) => matches(adapter, selector)));
+}
@@ -0,0 +1,514 @@
+// Platform-neutral WebGPU grinder: the host supplies the GPU, crypto and shader source
+import { Grinder, GrinderIncident, GrinderStats, FoundKey, PatternInput, PatternSet } from './types';
+import { toPatternSet } from './pattern';
+import {
+  DEFAULT_RESULT_CAPACITY,
+  WORKGROUP_SIZE,
+  createPatternSetConfig,
+  parseResultBuffer,
+  droppedResults,
+  resultBufferSize,
+  checkShaderLayout,
+  verifyGpuKey,
+  KeyVerificationError,
+  PatternLayoutError,
+  KERNEL_KEY_WORDS,
+  kernelParams,
+} from './gpu-utils';
+import { GpuDispatchRing, DEFAULT_PIPELINE_DEPTH, createKernelPipeline } from './gpu-pipeline';
+import { TuningCache, adapterKey, createDispatchTimer, tuneGpu } from './gpu-tuner';
+import { abortable, isSearchAborted, sleep, throwIfAborted } from './abort';
+import { BackendUnavailableError } from './backend-error';
+import { GpuDispatchReport, GpuInitError, GpuInitReport, GpuInitStage, describeAdapter } from './gpu-init-report';
+import { CryptoProvider, GpuProvider, ShaderSource, defaultCrypto } from './platform';
+
+export interface GpuGrinderProviders {
+  gpu: GpuProvider;
+  shaderSource: ShaderSource;
+  crypto?: CryptoProvider; // CSPRNG for the dispatch keys (default: globalThis.crypto)
+  tuningCache?: TuningCache; // Where tunings persist (default: nowhere)
+  log?: (message: string) => void; // Status messages (default: console.log)
+  fallback?: () => Grinder | Promise<Grinder>; // Takes over the search if the GPU can't be recovered
+}
+
+export interface GpuGrinderOptions {
+  resultCapacity?: number; // Matches one dispatch can return; any beyond it are lost
+  pipelineDepth?: number; // Dispatches in flight at once
+  batchSize?: number; // Threads per dispatch; auto-tuned when omitted
+  workgroupSize?: number; // Threads per workgroup; auto-tuned with the batch size when omitted
+  dispatchTargetMs?: number; // Latency target for auto-tuning
+  readbackTimeoutMs?: number; // A dispatch not read back by then counts as a hung GPU
+  maxRecoveries?: number; // Failed recoveries in a row before giving up on the GPU
+  recoveryBackoffMs?: number; // Pause before the first recovery, doubled for each one after it
+  adapter?: GPURequestAdapterOptions; // Which adapter to request (default: the GPU's default one)
+  seedSpace?: GpuSeedSpace; // Part of the seed space to search (default: all of it)
+}
+
+/**
+ * Seed space `index`, a u32: it goes into every dispatch's ChaCha20 nonce, so
+ * grinders with different indices never compute the same block even if their
+ * keys collided.
+ */
+export interface GpuSeedSpace {
+  index: number;
+}
+
+// Far beyond any tuned dispatch; drivers reset a GPU that hangs for a few seconds
+export const DEFAULT_READBACK_TIMEOUT_MS = 10_000;
+export const DEFAULT_MAX_RECOVERIES = 3;
+export const DEFAULT_RECOVERY_BACKOFF_MS = 250;
+
+// The GPU failed under a search: the device was lost, reported an error or stopped answering
+class GpuDeviceError extends Error {
+  readonly kind: GrinderIncident['kind'];
+
+  constructor(kind: GrinderIncident['kind'], message: string) {
+    super(message);
+    this.name = 'GpuDeviceError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Runs `create` inside validation and out-of-memory error scopes. Whatever
+ * they catch goes into the report and fails the stage, instead of surfacing
+ * later as an uncaptured error.
+ */
+async function captureErrors<T>(
+  device: GPUDevice,
+  stage: GpuInitStage,
+  report: GpuInitReport,
+  create: () => T
+): Promise<T> {
+  device.pushErrorScope('out-of-memory');
+  device.pushErrorScope('validation');
+  let result: T;
+  try {
+    result = create();
+  } finally {
+    const validation = await device.popErrorScope();
+    const outOfMemory = await device.popErrorScope();
+    if (validation) report.scopeErrors.push({ stage, filter: 'validation', message: validation.message });
+    if (outOfMemory) report.scopeErrors.push({ stage, filter: 'out-of-memory', message: outOfMemory.message });
+  }
+  const caught = report.scopeErrors.find((error) => error.stage === stage);
+  if (caught) throw new Error(`${caught.filter} error creating ${stage}: ${caught.message}`);
+  return result;
+}
+
+// Errors that say something about the search rather than the device, so recovery can't help
+function isSearchError(error: unknown): boolean {
+  return isSearchAborted(error) || error instanceof PatternLayoutError || error instanceof KeyVerificationError;
+}
+
+/**
+ * Runs the whole key search in the vanity compute shader. The GPU is
+ * acquired on the first search (or an explicit init()); each search keeps
+ * a ring of dispatches in flight and returns the matches of the first
+ * dispatch that has any.
+ *
+ * A GPU that fails mid-search (device lost, an uncaptured error, a dispatch
+ * that never reads back) is replaced by a fresh device, with a growing
+ * pause between tries. Once maxRecoveries tries in a row have failed, the
+ * search continues on the fallback grinder, or fails if there is none.
+ * Every failure is kept in the stats' incidents, and attempts carry on
+ * counting from where they were.
+ */
+export class GpuGrinder implements Grinder {
+  private device: GPUDevice | null = null;
+  private patternBuffer: GPUBuffer | null = null;
+  private ring: GpuDispatchRing | null = null;
+  private deviceFailure: Promise<never> = new Promise(() => {}); // Rejects once the device fails
+  private fallbackGrinder: Grinder | null = null;
+  private report: GpuInitReport | null = null;
+
+  private patterns: PatternSet;
+  private resultBufferSize: number;
+  private pipelineDepth: number;
+  private options: GpuGrinderOptions;
+  private providers: GpuGrinderProviders;
+  private crypto: CryptoProvider;
+  private log: (message: string) => void;
+  private batchSize: number = 0;
+  private workgroupSize: number = 0;
+  private readbackTimeoutMs: number;
+  private maxRecoveries: number;
+  private recoveryBackoffMs: number;
+  private failures: number = 0; // Device failures since the last dispatch read back
+  private incidents: GrinderIncident[] = [];
+  private attempts: bigint = 0n; // On the GPU; the fallback counts its own
+  private startTime: number = Date.now();
+  private batchOffset: bigint = 0n; // 64-bit thread id of the next dispatch, so seeds never repeat
+
+  constructor(pattern: PatternInput, providers: GpuGrinderProviders, options: GpuGrinderOptions = {}) {
+    const { resultCapacity = DEFAULT_RESULT_CAPACITY, pipelineDepth = DEFAULT_PIPELINE_DEPTH } = options;
+    if (!Number.isInteger(pipelineDepth) || pipelineDepth < 1) {
+      throw new Error(`Invalid pipeline depth ${pipelineDepth}`);
+    }
+    this.patterns = toPatternSet(pattern);
+    this.resultBufferSize = resultBufferSize(resultCapacity);
+    this.pipelineDepth = pipelineDepth;
+    const { batchSize, workgroupSize } = options;
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      throw new Error(`Invalid batch size ${batchSize}`);
+    }
+    if (workgroupSize !== undefined && (!Number.isInteger(workgroupSize) || workgroupSize < 1)) {
+      throw new Error(`Invalid workgroup size ${workgroupSize}`);
+    }
+    const {
+      readbackTimeoutMs = DEFAULT_READBACK_TIMEOUT_MS,
+      maxRecoveries = DEFAULT_MAX_RECOVERIES,
+      recoveryBackoffMs = DEFAULT_RECOVERY_BACKOFF_MS,
+    } = options;
+    if (!(readbackTimeoutMs > 0)) {
+      throw new Error(`Invalid readback timeout ${readbackTimeoutMs}`);
+    }
+    if (!Number.isInteger(maxRecoveries) || maxRecoveries < 0) {
+      throw new Error(`Invalid recovery count ${maxRecoveries}`);
+    }
+    const { seedSpace } = options;
+    if (seedSpace) {
+      const { index } = seedSpace;
+      if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+        throw new Error(`Invalid seed space ${index}`);
+      }
+    }
+    this.readbackTimeoutMs = readbackTimeoutMs;
+    this.maxRecoveries = maxRecoveries;
+    this.recoveryBackoffMs = recoveryBackoffMs;
+    this.options = options;
+    this.providers = providers;
+    this.crypto = providers.crypto ?? defaultCrypto();
+    this.log = providers.log ?? ((message) => console.log(message));
+  }
+
+  // Threads per dispatch, known once init() has set or tuned it
+  get dispatchSize(): number {
+    return this.batchSize;
+  }
+
+  // What the last init() found and did, whether it succeeded or not; null before the first
+  get initReport(): GpuInitReport | null {
+    return this.report;
+  }
+
+  /**
+   * Acquires the GPU and builds the pipeline, recording each step in
+   * initReport. Throws GpuInitError (a BackendUnavailableError) when there
+   * is no usable GPU; a failed init leaves nothing allocated and is retried
+   * by the next call.
+   */
+  async init(): Promise<void> {
+    if (this.ring) return;
+
+    const start = Date.now();
+    const report: GpuInitReport = { ok: false, shaderMessages: [], scopeErrors: [], durationMs: 0 };
+    this.report = report;
+    let stage: GpuInitStage = 'adapter';
+
+    try {
+      const adapter = await this.providers.gpu.requestAdapter(this.options.adapter);
+      if (!adapter) {
+        throw new BackendUnavailableError('webgpu', 'No WebGPU adapter found');
+      }
+      report.adapter = describeAdapter(adapter);
+
+      stage = 'device';
+      const device = await adapter.requestDevice();
+      this.device = device;
+      this.watchDevice(device);
+      this.log(`WebGPU Device: ${adapter.info?.description || adapter.info?.vendor || 'Unknown'}`);
+
+      stage = 'shader';
+      const shaderCode = await this.providers.shaderSource();
+      checkShaderLayout(shaderCode);
+      const shaderModule = await captureErrors(device, stage, report, () =>
+        device.createShaderModule({ code: shaderCode })
+      );
+      const info = await shaderModule.getCompilationInfo();
+      report.shaderMessages = info.messages.map((msg) => ({
+        type: msg.type,
+        message: msg.message,
+        line: msg.lineNum,
+        column: msg.linePos,
+      }));
+      const compileError = report.shaderMessages.find((msg) => msg.type === 'error');
+      if (compileError) {
+        throw new Error(
+          `shader compilation error at line ${compileError.line}:${compileError.column}: ${compileError.message}`
+        );
+      }
+
+      // Pattern set buffer (read-only storage, one entry per pattern alternative)
+      stage = 'patterns';
+      const patternConfig = createPatternSetConfig(this.patterns);
+      this.patternBuffer = await captureErrors(device, stage, report, () =>
+        device.createBuffer({
+          size: patternConfig.byteLength,
+          usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+        })
+      );
+      device.queue.writeBuffer(this.patternBuffer, 0, patternConfig.buffer);
+
+      stage = 'tuning';
+      report.dispatch = await this.chooseDispatchSize(adapter, shaderModule);
+      const { batchSize, workgroupSize } = report.dispatch;
+      this.batchSize = batchSize;
+      this.workgroupSize = workgroupSize;
+
+      stage = 'pipeline';
+      const pipeline = await captureErrors(device, stage, report, () =>
+        createKernelPipeline(device, shaderModule, workgroupSize)
+      );
+
+      // Params, result and staging buffers for each dispatch in flight
+      stage = 'bind-groups';
+      const patternBuffer = this.patternBuffer;
+      this.ring = await captureErrors(
+        device,
+        stage,
+        report,
+        () =>
+          new GpuDispatchRing(device, pipeline, patternBuffer, this.resultBufferSize, this.pipelineDepth, workgroupSize)
+      );
+
+      report.ok = true;
+      this.log('WebGPU initialized successfully (full GPU computation)');
+      for (const incident of this.incidents) {
+        if (incident.outcome === 'pending') incident.outcome = 'recovered';
+      }
+    } catch (error) {
+      this.releaseGpu();
+      report.failedStage = stage;
+      // A layout mismatch is a bug, not a missing GPU
+      if (error instanceof PatternLayoutError) {
+        report.error = error.message;
+        throw error;
+      }
+      report.error =
+        error instanceof BackendUnavailableError
+          ? error.reason
+          : `initialization failed (${(error as Error).message})`;
+      throw new GpuInitError(report.error, report);
+    } finally {
+      report.durationMs = Date.now() - start;
+    }
+  }
+
+  // Batch and workgroup size from the options, or tuned for this adapter
+  private async chooseDispatchSize(adapter: GPUAdapter, shaderModule: GPUShaderModule): Promise<GpuDispatchReport> {
+    const { batchSize, workgroupSize } = this.options;
+    if (batchSize !== undefined) {
+      return { batchSize, workgroupSize: workgroupSize ?? WORKGROUP_SIZE, source: 'options' };
+    }
+    // A replacement device keeps the tuning of the one it replaces
+    if (this.batchSize > 0) {
+      return { batchSize: this.batchSize, workgroupSize: this.workgroupSize, source: 'previous device' };
+    }
+
+    const device = this.device!;
+    const timer = createDispatchTimer(device, shaderModule, this.patternBuffer!, this.resultBufferSize);
+    try {
+      const { tuning, fromCache } = await tuneGpu({
+        adapterKey: adapterKey(adapter.info),
+        limits: device.limits,
+        timer,
+        targetDispatchMs: this.options.dispatchTargetMs,
+        alternatives: this.patterns.patterns.reduce((sum, pattern) => sum + pattern.alternatives.length, 0),
+        cache: this.providers.tuningCache,
+        workgroupSizes: workgroupSize !== undefined ? [workgroupSize] : undefined,
+      });
+      this.log(
+        `GPU tuning${fromCache ? ' (cached)' : ''}: ${tuning.batchSize} threads per dispatch, ` +
+          `workgroups of ${tuning.workgroupSize}, ${tuning.dispatchMs.toFixed(1)} ms per dispatch`
+      );
+      const source = fromCache ? 'cached' : 'tuned';
+      return { batchSize: tuning.batchSize, workgroupSize: tuning.workgroupSize, source };
+    } finally {
+      timer.destroy?.();
+    }
+  }
+
+  // Turns loss of the device, or an error it reports, into a rejection of deviceFailure
+  private watchDevice(device: GPUDevice): void {
+    let fail!: (error: GpuDeviceError) => void;
+    this.deviceFailure = new Promise<never>((_, reject) => {
+      fail = reject;
+    });
+    this.deviceFailure.catch(() => {}); // Only raced while a search waits on the device
+
+    device.lost.then((info) => {
+      // Our own destroy() of a device we are done with is no failure
+      if (this.device !== device) return;
+      const detail = info.message ? `: ${info.message}` : '';
+      fail(new GpuDeviceError('device-lost', `GPU device lost (${info.reason}${detail})`));
+    });
+    device.addEventListener('uncapturederror', (event) => {
+      if (this.device !== device) return;
+      fail(new GpuDeviceError('gpu-error', `GPU error: ${(event as GPUUncapturedErrorEvent).error.message}`));
+    });
+  }
+
+  // Settles like the readback, unless the device fails first or it outlasts the readback timeout
+  private watchdog<T>(readback: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const hung = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new GpuDeviceError('hang', `GPU readback took over ${this.readbackTimeoutMs} ms`)),
+        this.readbackTimeoutMs
+      );
+    });
+    return Promise.race([readback, this.deviceFailure, hung]).finally(() => clearTimeout(timer));
+  }
+
+  // Queues one batch under a fresh 256-bit key, so each of its keys gets 256 bits of CSPRNG entropy
+  private submitBatch(ring: GpuDispatchRing): void {
+    const key = this.crypto.getRandomValues(new Uint32Array(KERNEL_KEY_WORDS));
+    const params = kernelParams(this.batchOffset, key, this.options.seedSpace?.index ?? 0);
+    ring.submit(this.batchSize, params);
+    this.batchOffset = BigInt.asUintN(64, this.batchOffset + BigInt(ring.threadsFor(this.batchSize)));
+  }
+
+  // Reads back the oldest batch in flight; attempts count once it completes
+  private async collectBatch(ring: GpuDispatchRing, signal?: AbortSignal): Promise<FoundKey[]> {
+    const { data, threads, params } = await abortable(this.watchdog(ring.next()), signal);
+    this.attempts += BigInt(threads);
+    this.failures = 0;
+
+    const found = parseResultBuffer(data, this.attempts, params);
+    for (const key of found) verifyGpuKey(key, this.patterns);
+
+    const dropped = droppedResults(data);
+    if (dropped > 0) {
+      this.log(`${dropped} matches didn't fit the result buffer, raise its capacity to keep them`);
+    }
+    return found;
+  }
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    const targetAttempts = this.totalAttempts + BigInt(maxAttempts);
+    if (!this.fallbackGrinder) await abortable(this.init(), signal);
+
+    while (!this.fallbackGrinder) {
+      try {
+        return await this.searchGpu(targetAttempts, signal);
+      } catch (error) {
+        if (isSearchError(error)) throw error;
+        await this.recover(error as Error, signal);
+      }
+    }
+
+    const found = await this.fallbackGrinder.searchBatch(Number(targetAttempts - this.totalAttempts), signal);
+    const attempts = this.totalAttempts;
+    return found.map((key) => ({ ...key, attempts }));
+  }
+
+  private async searchGpu(targetAttempts: bigint, signal?: AbortSignal): Promise<FoundKey[]> {
+    const ring = this.ring!;
+    try {
+      while (this.attempts < targetAttempts) {
+        throwIfAborted(signal);
+        // Keep the ring full, without queueing past what this call asked for;
+        // batches still in flight on return are collected by the next call
+        while (ring.inFlight < ring.depth && this.attempts + BigInt(ring.pendingThreads) < targetAttempts) {
+          this.submitBatch(ring);
+        }
+        const found = await this.collectBatch(ring, signal);
+        if (found.length > 0) return found;
+      }
+    } catch (error) {
+      // Nobody wants the batches still in flight; they never count as attempts
+      if (isSearchAborted(error)) ring.cancel();
+      throw error;
+    }
+
+    return [];
+  }
+
+  /**
+   * Replaces a failed device: frees it, then re-acquires the GPU after a
+   * pause that doubles with each failure in a row. Gives up after
+   * maxRecoveries of them, moving the search to the fallback grinder or
+   * throwing BackendUnavailableError without one.
+   */
+  private async recover(error: Error, signal?: AbortSignal): Promise<void> {
+    const incident: GrinderIncident = {
+      kind: error instanceof GpuDeviceError ? error.kind : 'dispatch-failed',
+      message: error.message,
+      time: Date.now(),
+      attempts: this.totalAttempts,
+      outcome: 'pending',
+    };
+    this.incidents.push(incident);
+    this.releaseGpu();
+
+    let cause = error;
+    while (this.failures < this.maxRecoveries) {
+      const pause = this.recoveryBackoffMs * 2 ** this.failures;
+      this.failures++;
+      this.log(`${cause.message}, recreating the GPU device in ${pause} ms`);
+      await sleep(pause, signal);
+      try {
+        await abortable(this.init(), signal); // Marks the incident recovered
+        return;
+      } catch (initError) {
+        if (isSearchError(initError)) throw initError;
+        cause = initError as Error;
+      }
+    }
+
+    const detail = cause instanceof BackendUnavailableError ? cause.reason : cause.message;
+    const reason = `GPU failed and could not be recovered (${detail})`;
+    if (!this.providers.fallback) {
+      incident.outcome = 'failed';
+      throw new BackendUnavailableError('webgpu', reason);
+    }
+    this.log(`${reason}, continuing on the CPU`);
+    this.fallbackGrinder = await this.providers.fallback();
+    incident.outcome = 'fallback';
+  }
+
+  // Attempts on the GPU and, after a fallback, on the fallback grinder
+  private get totalAttempts(): bigint {
+    return this.attempts + (this.fallbackGrinder?.getStats().attempts ?? 0n);
+  }
+
+  getStats(): GrinderStats {
+    const elapsedMs = Date.now() - this.startTime;
+    const elapsedSec = elapsedMs / 1000;
+    const attempts = this.totalAttempts;
+    return {
+      attempts,
+      rate: elapsedSec > 0 ? Number(attempts) / elapsedSec : 0,
+      elapsedMs,
+      incidents: this.incidents.map((incident) => ({ ...incident })),
+    };
+  }
+
+  reset(): void {
+    // Batches still in flight belong to the old count; drop them like destroy() does
+    this.ring?.cancel();
+    this.attempts = 0n;
+    this.startTime = Date.now();
+    this.batchOffset = 0n;
+    this.incidents = [];
+    this.fallbackGrinder?.reset();
+  }
+
+  destroy(): void {
+    this.releaseGpu();
+    const fallback = this.fallbackGrinder as (Grinder & { destroy?(): void }) | null;
+    fallback?.destroy?.();
+    this.fallbackGrinder = null;
+  }
+
+  private releaseGpu(): void {
+    const device = this.device;
+    this.device = null; // Before destroy(), so its loss isn't taken for a failure
+    this.ring?.destroy();
+    this.ring = null;
+    this.patternBuffer?.destroy();
+    this.patternBuffer = null;
+    device?.destroy();
+  }
+}
@@ -0,0 +1,119 @@
+// What happened while a GPU grinder acquired the GPU: adapter, shader, validation and sizing
+import { BackendUnavailableError } from './backend-error';
+
+// Steps of GpuGrinder.init(), in order
+export type GpuInitStage = 'adapter' | 'device' | 'shader' | 'patterns' | 'tuning' | 'pipeline' | 'bind-groups';
+
+// One getCompilationInfo() message; line and column are 1-based, 0 when the compiler gave none
+export interface GpuShaderMessage {
+  type: 'error' | 'warning' | 'info';
+  message: string;
+  line: number;
+  column: number;
+}
+
+// An error a validation or out-of-memory error scope caught around one stage
+export interface GpuScopeError {
+  stage: GpuInitStage;
+  filter: 'validation' | 'out-of-memory';
+  message: string;
+}
+
+export interface GpuAdapterReport {
+  vendor: string;
+  architecture: string;
+  device: string;
+  description: string;
+  features: string[]; // Sorted
+  limits: Record<string, number>;
+}
+
+export interface GpuDispatchReport {
+  batchSize: number;
+  workgroupSize: number;
+  source: 'options' | 'tuned' | 'cached' | 'previous device';
+}
+
+export interface GpuInitReport {
+  ok: boolean;
+  adapter?: GpuAdapterReport; // Missing when no adapter was found
+  shaderMessages: GpuShaderMessage[];
+  scopeErrors: GpuScopeError[];
+  dispatch?: GpuDispatchReport;
+  failedStage?: GpuInitStage;
+  error?: string; // Why init failed
+  durationMs: number;
+}
+
+/**
+ * Thrown by GpuGrinder.init() when the GPU can't be used. It is a
+ * BackendUnavailableError, with the report of the failed init attached.
+ */
+export class GpuInitError extends BackendUnavailableError {
+  readonly report: GpuInitReport;
+
+  constructor(reason: string, report: GpuInitReport) {
+    super('webgpu', reason);
+    this.name = 'GpuInitError';
+    this.report = report;
+  }
+}
+
+export function describeAdapter(adapter: GPUAdapter): GpuAdapterReport {
+  const limits: Record<string, number> = {};
+  // WebIDL attributes are enumerable getters on the prototype, so for...in finds them
+  for (const key in adapter.limits) {
+    const value = (adapter.limits as unknown as Record<string, unknown>)[key];
+    if (typeof value === 'number') limits[key] = value;
+  }
+  return {
+    vendor: adapter.info?.vendor ?? '',
+    architecture: adapter.info?.architecture ?? '',
+    device: adapter.info?.device ?? '',
+    description: adapter.info?.description ?? '',
+    features: [...adapter.features].sort(),
+    limits,
+  };
+}
+
+// Lines for a terminal or log, most important first
+export function formatGpuInitReport(report: GpuInitReport): string[] {
+  const lines: string[] = [];
+  lines.push(
+    report.ok
+      ? `WebGPU initialization: ok (${report.durationMs} ms)`
+      : `WebGPU initialization: failed at ${report.failedStage ?? 'unknown stage'} (${report.error})`
+  );
+
+  const { adapter } = report;
+  if (adapter) {
+    const name = [adapter.vendor, adapter.architecture, adapter.device].filter(Boolean).join(' ');
+    lines.push(`Adapter: ${name || 'unknown'}${adapter.description ? ` (${adapter.description})` : ''}`);
+    lines.push(`  Features: ${adapter.features.length > 0 ? adapter.features.join(', ') : 'none'}`);
+    lines.push('  Limits:');
+    for (const [key, value] of Object.entries(adapter.limits)) {
+      lines.push(`    ${key}: ${value}`);
+    }
+  } else {
+    lines.push('Adapter: none');
+  }
+
+  const count = (type: GpuShaderMessage['type']) => report.shaderMessages.filter((m) => m.type === type).length;
+  lines.push(`Shader: ${count('error')} error(s), ${count('warning')} warning(s)`);
+  for (const { type, message, line, column } of report.shaderMessages) {
+    lines.push(`  ${type} at ${line}:${column}: ${message}`);
+  }
+
+  if (report.scopeErrors.length > 0) {
+    lines.push('Captured errors:');
+    for (const { stage, filter, message } of report.scopeErrors) {
+      lines.push(`  ${stage} (${filter}): ${message}`);
+    }
+  }
+
+  if (report.dispatch) {
+    const { batchSize, workgroupSize, source } = report.dispatch;
+    lines.push(`Dispatch: ${batchSize} threads in workgroups of ${workgroupSize} (${source})`);
+  }
+  return lines;
+}
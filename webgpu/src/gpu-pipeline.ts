@@ -0,0 +1,222 @@
+// Ring of in-flight GPU submissions shared by the WebGPU grinders
+import { PARAMS_BUFFER_SIZE, WORKGROUP_SIZE } from './gpu-utils';
+
+// Submissions in flight at once: batch N+1 is queued before batch N is read
+export const DEFAULT_PIPELINE_DEPTH = 2;
+
+// Per-submission buffers; a slot is reused once its results have been read
+interface DispatchSlot {
+  params: GPUBuffer;
+  result: GPUBuffer;
+  staging: GPUBuffer;
+  bindGroup: GPUBindGroup;
+}
+
+interface Submission {
+  slot: DispatchSlot;
+  threads: number;
+  params: Uint32Array;
+  mapped: Promise<void>;
+}
+
+// Compute pipeline of the vanity kernel with `workgroupSize` threads per workgroup
+export function createKernelPipeline(
+  device: GPUDevice,
+  module: GPUShaderModule,
+  workgroupSize: number = WORKGROUP_SIZE
+): GPUComputePipeline {
+  return device.createComputePipeline(kernelPipelineDescriptor(module, workgroupSize));
+}
+
+// Like createKernelPipeline, but rejects if the device can't build it
+export function createKernelPipelineAsync(
+  device: GPUDevice,
+  module: GPUShaderModule,
+  workgroupSize: number = WORKGROUP_SIZE
+): Promise<GPUComputePipeline> {
+  return device.createComputePipelineAsync(kernelPipelineDescriptor(module, workgroupSize));
+}
+
+function kernelPipelineDescriptor(module: GPUShaderModule, workgroupSize: number): GPUComputePipelineDescriptor {
+  return {
+    layout: 'auto',
+    compute: { module, entryPoint: 'main', constants: { WORKGROUP_SIZE: workgroupSize } },
+  };
+}
+
+export interface CompletedDispatch {
+  data: Uint32Array; // Contents of the result buffer
+  threads: number; // Threads actually dispatched (whole workgroups)
+  params: Uint32Array; // Params the batch ran with
+}
+
+/**
+ * Queues compute dispatches of the vanity kernel, each with its own params,
+ * result and staging buffers, and reads them back in submission order.
+ * Nothing waits on the GPU until `next()` maps the oldest submission, by
+ * which time the later ones are already queued behind it.
+ */
+export class GpuDispatchRing {
+  private device: GPUDevice;
+  private pipeline: GPUComputePipeline;
+  private resultBufferSize: number;
+  private workgroupSize: number;
+  private freeSlots: DispatchSlot[] = [];
+  private slots: DispatchSlot[] = [];
+  private submissions: Submission[] = [];
+
+  constructor(
+    device: GPUDevice,
+    pipeline: GPUComputePipeline,
+    patternBuffer: GPUBuffer,
+    resultBufferSize: number,
+    depth: number = DEFAULT_PIPELINE_DEPTH,
+    workgroupSize: number = WORKGROUP_SIZE // Must match the pipeline's
+  ) {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error(`Invalid pipeline depth ${depth}`);
+    }
+    this.device = device;
+    this.pipeline = pipeline;
+    this.resultBufferSize = resultBufferSize;
+    this.workgroupSize = workgroupSize;
+
+    for (let i = 0; i < depth; i++) {
+      const params = device.createBuffer({
+        size: PARAMS_BUFFER_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      const result = device.createBuffer({
+        size: resultBufferSize,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+      });
+      const staging = device.createBuffer({
+        size: resultBufferSize,
+        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      });
+      const bindGroup = device.createBindGroup({
+        layout: pipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: result } },
+          { binding: 1, resource: { buffer: params } },
+          { binding: 2, resource: { buffer: patternBuffer } },
+        ],
+      });
+      this.slots.push({ params, result, staging, bindGroup });
+    }
+    this.freeSlots = [...this.slots];
+  }
+
+  get depth(): number {
+    return this.slots.length;
+  }
+
+  // Submissions queued but not yet read back
+  get inFlight(): number {
+    return this.submissions.length;
+  }
+
+  // Threads of the submissions in flight
+  get pendingThreads(): number {
+    return this.submissions.reduce((sum, submission) => sum + submission.threads, 0);
+  }
+
+  // Threads `submit(threads)` actually dispatches
+  threadsFor(threads: number): number {
+    return Math.ceil(threads / this.workgroupSize) * this.workgroupSize;
+  }
+
+  /**
+   * Queues one dispatch of `threads` threads (rounded up to whole
+   * workgroups) with these params. Throws if the ring is full.
+   */
+  submit(threads: number, params: Uint32Array): void {
+    const slot = this.freeSlots.shift();
+    if (!slot) {
+      throw new Error(`GPU dispatch ring is full (${this.depth} submissions in flight)`);
+    }
+
+    // Own copy, so the caller can reuse its array
+    const ownParams = Uint32Array.from(params);
+    const workgroups = Math.ceil(threads / this.workgroupSize);
+    this.device.queue.writeBuffer(slot.params, 0, ownParams);
+
+    const encoder = this.device.createCommandEncoder();
+    encoder.clearBuffer(slot.result, 0, this.resultBufferSize);
+
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(this.pipeline);
+    pass.setBindGroup(0, slot.bindGroup);
+    pass.dispatchWorkgroups(workgroups);
+    pass.end();
+
+    encoder.copyBufferToBuffer(slot.result, 0, slot.staging, 0, this.resultBufferSize);
+    this.device.queue.submit([encoder.finish()]);
+
+    this.submissions.push({
+      slot,
+      threads: workgroups * this.workgroupSize,
+      params: ownParams,
+      mapped: slot.staging.mapAsync(GPUMapMode.READ),
+    });
+  }
+
+  /**
+   * Waits for the oldest submission and returns its results. Throws if
+   * nothing is in flight.
+   */
+  async next(): Promise<CompletedDispatch> {
+    const submission = this.submissions[0];
+    if (!submission) {
+      throw new Error('No GPU dispatch in flight');
+    }
+
+    const { slot, threads, params } = submission;
+    try {
+      await submission.mapped;
+    } catch (e) {
+      // A failed map still retires the submission and frees its slot, so
+      // the ones behind it stay in order (unless cancel() already did)
+      if (this.submissions[0] === submission) {
+        this.submissions.shift();
+        this.freeSlots.push(slot);
+      }
+      throw e;
+    }
+    if (this.submissions[0] !== submission) {
+      throw new Error('GPU dispatch was cancelled');
+    }
+    this.submissions.shift();
+
+    const data = new Uint32Array(slot.staging.getMappedRange().slice(0));
+    slot.staging.unmap();
+    this.freeSlots.push(slot);
+
+    return { data, threads, params };
+  }
+
+  /**
+   * Drops every submission in flight: their maps are aborted and their
+   * slots freed. The GPU may still run the work, but nothing reads it back.
+   */
+  cancel(): void {
+    for (const { slot, mapped } of this.submissions) {
+      mapped.catch(() => {}); // Rejected by the unmap below
+      slot.staging.unmap();
+      this.freeSlots.push(slot);
+    }
+    this.submissions = [];
+  }
+
+  destroy(): void {
+    this.cancel();
+    for (const slot of this.slots) {
+      slot.params.destroy();
+      slot.result.destroy();
+      slot.staging.destroy();
+    }
+    this.slots = [];
+    this.freeSlots = [];
+    this.submissions = [];
+  }
+}
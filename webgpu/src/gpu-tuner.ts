@@ -0,0 +1,188 @@
+// Picks the GPU batch size and workgroup size for an adapter by timing dispatches
+import { GpuDispatchRing, createKernelPipelineAsync } from './gpu-pipeline';
+import { KERNEL_KEY_WORDS, kernelParams } from './gpu-utils';
+
+// Slowest a single dispatch may be: longer ones stall the display and other
+// GPU work, and browsers reset GPUs whose dispatches run for seconds
+export const DEFAULT_DISPATCH_TARGET_MS = 50;
+
+const WORKGROUP_SIZE_CANDIDATES = [32, 64, 128, 256];
+const MIN_TUNED_BATCH = 4096;
+const MAX_TUNED_BATCH = 1 << 22; // 4M
+const TIMING_SAMPLES = 2;
+
+export interface GpuTuning {
+  batchSize: number; // Threads per dispatch
+  workgroupSize: number;
+  rate: number; // Keys/sec measured at this setting
+  dispatchMs: number; // Measured time of one dispatch
+}
+
+// Remembers tunings between runs, keyed by adapter and latency target
+export interface TuningCache {
+  get(key: string): GpuTuning | undefined;
+  set(key: string, tuning: GpuTuning): void;
+}
+
+// Measures one dispatch of `batchSize` threads, in milliseconds
+export interface DispatchTimer {
+  time(workgroupSize: number, batchSize: number): Promise<number>;
+  destroy?(): void;
+}
+
+export type TuningLimits = Pick<
+  GPUSupportedLimits,
+  'maxComputeWorkgroupSizeX' | 'maxComputeInvocationsPerWorkgroup' | 'maxComputeWorkgroupsPerDimension'
+>;
+
+export interface TuningCandidates {
+  workgroupSizes: number[];
+  batchSizes: number[]; // Ascending powers of two
+}
+
+export interface TuneOptions {
+  adapterKey: string;
+  limits: TuningLimits;
+  timer: DispatchTimer;
+  targetDispatchMs?: number;
+  alternatives?: number; // Pattern alternatives the kernel checks per key (default 1)
+  cache?: TuningCache;
+  workgroupSizes?: number[]; // Restrict the workgroup sizes tried
+}
+
+export interface TuningOutcome {
+  tuning: GpuTuning;
+  fromCache: boolean;
+}
+
+/**
+ * Settings the adapter's limits allow: workgroups no larger than a
+ * workgroup may be, batches no larger than one dispatch can cover.
+ */
+export function tuningCandidates(limits: TuningLimits, workgroupSizes = WORKGROUP_SIZE_CANDIDATES): TuningCandidates {
+  const maxWorkgroup = Math.min(limits.maxComputeWorkgroupSizeX, limits.maxComputeInvocationsPerWorkgroup);
+  const sizes = workgroupSizes.filter((size) => size <= maxWorkgroup);
+  const maxBatch = Math.min(MAX_TUNED_BATCH, limits.maxComputeWorkgroupsPerDimension * Math.min(...sizes));
+
+  const batchSizes: number[] = [];
+  for (let batch = MIN_TUNED_BATCH; batch <= maxBatch; batch *= 2) batchSizes.push(batch);
+  return { workgroupSizes: sizes, batchSizes };
+}
+
+/**
+ * For each workgroup size, times ever larger batches until a dispatch takes
+ * longer than the target, and returns the fastest setting that stayed under
+ * it. If nothing does, returns the quickest dispatch seen. Workgroup sizes
+ * the device can't run are skipped.
+ */
+export async function searchTuning(
+  candidates: TuningCandidates,
+  timer: DispatchTimer,
+  targetDispatchMs: number = DEFAULT_DISPATCH_TARGET_MS
+): Promise<GpuTuning> {
+  let best: GpuTuning | null = null;
+  let quickest: GpuTuning | null = null;
+  let lastError: Error | null = null;
+
+  for (const workgroupSize of candidates.workgroupSizes) {
+    for (const batchSize of candidates.batchSizes) {
+      if (batchSize % workgroupSize !== 0) continue;
+
+      let dispatchMs: number;
+      try {
+        dispatchMs = await timer.time(workgroupSize, batchSize);
+      } catch (e) {
+        lastError = e as Error;
+        break;
+      }
+
+      const tuning = { batchSize, workgroupSize, rate: (batchSize / Math.max(dispatchMs, 1e-3)) * 1000, dispatchMs };
+      if (!quickest || dispatchMs < quickest.dispatchMs) quickest = tuning;
+      if (dispatchMs > targetDispatchMs) break;
+      if (!best || tuning.rate > best.rate) best = tuning;
+    }
+  }
+
+  const chosen = best ?? quickest;
+  if (!chosen) {
+    throw new Error(`GPU tuning failed: ${lastError ? lastError.message : 'no candidate settings'}`);
+  }
+  return chosen;
+}
+
+/**
+ * Returns the cached tuning for this adapter if the limits still allow it,
+ * otherwise searches for one and caches it. Dispatch time grows with the
+ * alternatives every thread checks, so tunings are cached per power of two
+ * of them.
+ */
+export async function tuneGpu(options: TuneOptions): Promise<TuningOutcome> {
+  const targetDispatchMs = options.targetDispatchMs ?? DEFAULT_DISPATCH_TARGET_MS;
+  const candidates = tuningCandidates(options.limits, options.workgroupSizes);
+  const workload = 2 ** Math.ceil(Math.log2(Math.max(1, options.alternatives ?? 1)));
+  const key = `${options.adapterKey}@${targetDispatchMs}ms/${workload}alt`;
+
+  const cached = options.cache?.get(key);
+  if (
+    cached &&
+    candidates.workgroupSizes.includes(cached.workgroupSize) &&
+    candidates.batchSizes.includes(cached.batchSize)
+  ) {
+    return { tuning: cached, fromCache: true };
+  }
+
+  const tuning = await searchTuning(candidates, options.timer, targetDispatchMs);
+  options.cache?.set(key, tuning);
+  return { tuning, fromCache: false };
+}
+
+// Identifies an adapter model for the tuning cache
+export function adapterKey(info: Partial<GPUAdapterInfo> | undefined): string {
+  const parts = [info?.vendor, info?.architecture, info?.device, info?.description].filter(Boolean);
+  return parts.length > 0 ? parts.join('/') : 'unknown-adapter';
+}
+
+/**
+ * Times real dispatches of the vanity kernel. Each workgroup size gets its
+ * own pipeline, warmed up with one untimed dispatch; a measurement is the
+ * quickest of a few runs. Matches found while tuning are discarded.
+ */
+export function createDispatchTimer(
+  device: GPUDevice,
+  module: GPUShaderModule,
+  patternBuffer: GPUBuffer,
+  resultBufferSize: number
+): DispatchTimer {
+  const rings = new Map<number, GpuDispatchRing>();
+  const params = kernelParams(0n, new Uint32Array(KERNEL_KEY_WORDS)); // Any key: timing runs discard their keys
+
+  const dispatch = async (ring: GpuDispatchRing, batchSize: number): Promise<number> => {
+    const start = performance.now();
+    ring.submit(batchSize, params);
+    await ring.next();
+    return performance.now() - start;
+  };
+
+  return {
+    async time(workgroupSize: number, batchSize: number): Promise<number> {
+      let ring = rings.get(workgroupSize);
+      if (!ring) {
+        const pipeline = await createKernelPipelineAsync(device, module, workgroupSize);
+        ring = new GpuDispatchRing(device, pipeline, patternBuffer, resultBufferSize, 1, workgroupSize);
+        rings.set(workgroupSize, ring);
+        await dispatch(ring, batchSize);
+      }
+
+      let quickest = Infinity;
+      for (let i = 0; i < TIMING_SAMPLES; i++) {
+        quickest = Math.min(quickest, await dispatch(ring, batchSize));
+      }
+      return quickest;
+    },
+
+    destroy(): void {
+      for (const ring of rings.values()) ring.destroy();
+      rings.clear();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// Tuning cache kept in a JSON file, so later Node runs start tuned
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GpuTuning, TuningCache } from './gpu-tuner';
+
+export function defaultTuningCachePath(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'grincel-webgpu', 'gpu-tuning.json');
+}
+
+/**
+ * Reads the whole file on every lookup and rewrites it on every store; it
+ * holds one small entry per adapter. A missing or unreadable file is an
+ * empty cache, and a failed write only costs a retune next run.
+ */
+export class FileTuningCache implements TuningCache {
+  constructor(private filePath: string = defaultTuningCachePath()) {}
+
+  get(key: string): GpuTuning | undefined {
+    return this.read()[key];
+  }
+
+  set(key: string, tuning: GpuTuning): void {
+    const entries = { ...this.read(), [key]: tuning };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(entries, null, 2));
+    } catch {
+      // Read-only cache dir: the next run just tunes again
+    }
+  }
+
+  private read(): Record<string, GpuTuning> {
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      return entries && typeof entries === 'object' ? entries : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -1,111 +1,397 @@
 // Shared GPU buffer utilities for WebGPU grinders
-import { Pattern, FoundKey } from './types';
+import { CharClass, Pattern, PatternSet, FoundKey, GpuKeyOrigin, MAX_PATTERN_LENGTH } from './types';
+import { ANY_CHAR, charClassSize } from './pattern-syntax';
+import { matchesPattern } from './pattern';
+import * as ed from '@noble/ed25519';
+import { sha512 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+
+// noble's synchronous API needs a SHA-512 implementation
+ed.hashes.sha512 = sha512;
 
 // Buffer layout sizes (aligned for WebGPU)
-export const RESULT_BUFFER_SIZE = 256;
-export const PARAMS_BUFFER_SIZE = 16;
-export const PATTERN_BUFFER_SIZE = 48; // PatternConfig struct: 4 u32s + 2 vec4<u32>
+export const RESULT_HEADER_SIZE = 16; // count + 3 reserved u32s
+export const RESULT_ENTRY_SIZE = 160; // 4 u32s + public key + private key + address
+export const DEFAULT_RESULT_CAPACITY = 32;
+export const RESULT_BUFFER_SIZE = RESULT_HEADER_SIZE + DEFAULT_RESULT_CAPACITY * RESULT_ENTRY_SIZE;
+export const PARAMS_BUFFER_SIZE = 48; // 4 u32s + 32-byte ChaCha20 key
+export const KERNEL_KEY_WORDS = 8;
+export const PATTERN_CONFIG_SIZE = 16 + 2 * MAX_PATTERN_LENGTH * 8; // 4 u32s + 2 x 44 vec2<u32> masks
+export const PATTERN_SET_HEADER_SIZE = 16; // PatternSet header: 4 u32s
+
+// Bump together with PATTERN_LAYOUT_VERSION in vanity.wgsl whenever the
+// PatternSet or PatternConfig layout changes
+export const PATTERN_LAYOUT_VERSION = 2;
+
+// Written to ResultBuffer.count by a shader that rejects the pattern buffer
+export const RESULT_LAYOUT_MISMATCH = 0xffffffff;
+
+/**
+ * Params of one dispatch: the 64-bit thread id it starts at, and the
+ * ChaCha20 key and nonce every thread's seed comes from. The key must be
+ * fresh from a CSPRNG for every dispatch; it is all the entropy the
+ * dispatch's keys get.
+ */
+export function kernelParams(
+  batchOffset: bigint,
+  key: Uint32Array,
+  nonceLo: number = 0,
+  nonceHi: number = 0
+): Uint32Array {
+  if (key.length !== KERNEL_KEY_WORDS) {
+    throw new Error(`Kernel key has ${key.length} words, expected ${KERNEL_KEY_WORDS}`);
+  }
+  if (batchOffset < 0n || batchOffset >= 1n << 64n) {
+    throw new Error(`Batch offset ${batchOffset} is not a u64`);
+  }
+  const params = new Uint32Array(PARAMS_BUFFER_SIZE / 4);
+  params[0] = Number(BigInt.asUintN(32, batchOffset));
+  params[1] = Number(batchOffset >> 32n);
+  params[2] = nonceLo;
+  params[3] = nonceHi;
+  params.set(key, 4);
+  return params;
+}
+
+/**
+ * Thrown when the GPU would interpret patterns differently from the CPU
+ * matcher: a pattern that doesn't fit the buffer layout, a shader built for
+ * another layout, or a GPU match the CPU rejects.
+ */
+export class PatternLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternLayoutError';
+  }
+}
+
+/**
+ * Thrown when a GPU result isn't a working key pair: the public key doesn't
+ * follow from the returned seed, or the address doesn't encode it.
+ */
+export class KeyVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyVerificationError';
+  }
+}
+
+export function patternSetBufferSize(entryCount: number): number {
+  return PATTERN_SET_HEADER_SIZE + entryCount * PATTERN_CONFIG_SIZE;
+}
+
+// Bytes of a result buffer holding up to `capacity` matches per dispatch
+export function resultBufferSize(capacity: number = DEFAULT_RESULT_CAPACITY): number {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error(`Invalid result capacity ${capacity}`);
+  }
+  return RESULT_HEADER_SIZE + capacity * RESULT_ENTRY_SIZE;
+}
 
+// Default of the shader's WORKGROUP_SIZE override; the auto-tuner may pick another
 export const WORKGROUP_SIZE = 64;
 
+const HEAD_MASKS_OFFSET = 4; // u32 index of head masks within an entry
+const TAIL_MASKS_OFFSET = 4 + MAX_PATTERN_LENGTH * 2;
+
 /**
- * Creates pattern config data for GPU buffer.
+ * Creates pattern config entries for GPU buffer, one per expanded alternative.
  * PatternConfig layout:
- *   length: u32 (offset 0)
- *   match_mode: u32 (offset 4) - 0=prefix, 1=suffix, 2=anywhere
- *   ignore_case: u32 (offset 8)
- *   pad: u32 (offset 12)
- *   pattern0: vec4<u32> (offset 16, 16 bytes for chars 0-15)
- *   pattern1: vec4<u32> (offset 32, 16 bytes for chars 16-31)
+ *   head_length: u32 (offset 0)
+ *   tail_length: u32 (offset 4)
+ *   match_mode: u32 (offset 8) - 0=anchored, 1=anywhere
+ *   pattern_index: u32 (offset 12) - PatternSet index the entry was compiled from
+ *   head: array<vec2<u32>, 44> (offset 16) - allowed Base58 digits per position
+ *     from the start, bit i of (x, y) stands for BASE58_ALPHABET[i] (case already folded)
+ *   tail: array<vec2<u32>, 44> (offset 368) - same for the last tail_length positions
  */
-export function createPatternConfig(pattern: Pattern): Uint32Array {
-  const patternStr = pattern.raw;
-  const config = new Uint32Array(12); // 48 bytes
-
-  config[0] = patternStr.length;
-  config[1] = pattern.options.matchMode === 'prefix' ? 0 :
-              pattern.options.matchMode === 'suffix' ? 1 : 2;
-  config[2] = pattern.options.ignoreCase ? 1 : 0;
-  config[3] = 0; // pad
-
-  // Pack pattern string as bytes into u32 array (indices 4-11)
-  for (let i = 0; i < patternStr.length && i < 32; i++) {
-    const wordIndex = 4 + Math.floor(i / 4);
-    const byteOffset = (i % 4) * 8;
-    config[wordIndex] |= patternStr.charCodeAt(i) << byteOffset;
+export function createPatternConfig(pattern: Pattern, patternIndex: number = 0): Uint32Array {
+  for (const { head, tail } of pattern.alternatives) {
+    if (head.length > MAX_PATTERN_LENGTH || tail.length > MAX_PATTERN_LENGTH) {
+      throw new PatternLayoutError(
+        `Pattern '${pattern.raw}' needs ${Math.max(head.length, tail.length)} positions, the GPU layout holds ${MAX_PATTERN_LENGTH}`
+      );
+    }
+    for (const cls of [...head, ...tail]) {
+      if ((cls.lo & ~ANY_CHAR.lo) !== 0 || (cls.hi & ~ANY_CHAR.hi) !== 0 || charClassSize(cls) === 0) {
+        throw new PatternLayoutError(`Pattern '${pattern.raw}' has a character class outside the Base58 alphabet`);
+      }
+    }
   }
 
+  const entryWords = PATTERN_CONFIG_SIZE / 4;
+  const config = new Uint32Array(pattern.alternatives.length * entryWords);
+  const matchMode = pattern.options.matchMode === 'anywhere' ? 1 : 0;
+
+  pattern.alternatives.forEach(({ head, tail }, a) => {
+    const base = a * entryWords;
+    config[base] = head.length;
+    config[base + 1] = tail.length;
+    config[base + 2] = matchMode;
+    config[base + 3] = patternIndex;
+
+    for (let i = 0; i < head.length; i++) {
+      config[base + HEAD_MASKS_OFFSET + i * 2] = head[i].lo;
+      config[base + HEAD_MASKS_OFFSET + 1 + i * 2] = head[i].hi;
+    }
+    for (let i = 0; i < tail.length; i++) {
+      config[base + TAIL_MASKS_OFFSET + i * 2] = tail[i].lo;
+      config[base + TAIL_MASKS_OFFSET + 1 + i * 2] = tail[i].hi;
+    }
+  });
+
   return config;
 }
 
 /**
- * Creates pattern config from raw parameters (for browser GpuGrinder).
+ * Creates the pattern storage buffer contents for a PatternSet and checks
+ * that they decode back to exactly the patterns the CPU matcher uses.
+ * PatternSet layout:
+ *   version: u32 (offset 0) - PATTERN_LAYOUT_VERSION
+ *   count: u32 (offset 4) - number of entries (alternatives across all patterns)
+ *   entry_size: u32 (offset 8) - PATTERN_CONFIG_SIZE
+ *   max_length: u32 (offset 12) - positions per head/tail mask array
+ *   entries: array<PatternConfig> (offset 16, 720 bytes each)
  */
-export function createPatternConfigRaw(
-  patternStr: string,
-  matchMode: string,
-  ignoreCase: boolean
-): Uint32Array {
-  const config = new Uint32Array(12);
-
-  config[0] = patternStr.length;
-  config[1] = matchMode === 'prefix' ? 0 : matchMode === 'suffix' ? 1 : 2;
-  config[2] = ignoreCase ? 1 : 0;
-  config[3] = 0;
+export function createPatternSetConfig(patterns: PatternSet): Uint32Array {
+  const entries = patterns.patterns.map((pattern, i) => createPatternConfig(pattern, i));
+  const count = entries.reduce((n, e) => n + e.byteLength / PATTERN_CONFIG_SIZE, 0);
+  const config = new Uint32Array(patternSetBufferSize(count) / 4);
 
-  for (let i = 0; i < patternStr.length && i < 32; i++) {
-    const wordIndex = 4 + Math.floor(i / 4);
-    const byteOffset = (i % 4) * 8;
-    config[wordIndex] |= patternStr.charCodeAt(i) << byteOffset;
+  config[0] = PATTERN_LAYOUT_VERSION;
+  config[1] = count;
+  config[2] = PATTERN_CONFIG_SIZE;
+  config[3] = MAX_PATTERN_LENGTH;
+  let offset = PATTERN_SET_HEADER_SIZE / 4;
+  for (const entry of entries) {
+    config.set(entry, offset);
+    offset += entry.length;
   }
 
+  verifyPatternSetConfig(patterns, config);
   return config;
 }
 
+export interface DecodedPatternEntry {
+  patternIndex: number;
+  anywhere: boolean;
+  head: CharClass[];
+  tail: CharClass[];
+}
+
 /**
- * Parses GPU result buffer to extract FoundKey.
- * ResultBuffer layout:
- *   found: u32 (offset 0) - atomic flag
- *   thread_id: u32 (offset 4)
- *   address_len: u32 (offset 8)
- *   pad: u32 (offset 12)
- *   public_key: array<u32, 8> (offset 16, 32 bytes)
- *   private_key: array<u32, 16> (offset 48, 64 bytes)
- *   address: array<u32, 12> (offset 112, 48 bytes)
- *
- * Returns null if no match found (found flag is 0).
+ * Reads a pattern storage buffer the way the shader does.
  */
-export function parseResultBuffer(data: Uint32Array, attempts: number): FoundKey | null {
-  if (data[0] === 0) {
-    return null;
+export function decodePatternSetConfig(config: Uint32Array): DecodedPatternEntry[] {
+  if (config[0] !== PATTERN_LAYOUT_VERSION) {
+    throw new PatternLayoutError(
+      `Pattern buffer has layout version ${config[0]}, expected ${PATTERN_LAYOUT_VERSION}`
+    );
+  }
+  if (config[2] !== PATTERN_CONFIG_SIZE || config[3] !== MAX_PATTERN_LENGTH) {
+    throw new PatternLayoutError(
+      `Pattern buffer has ${config[2]}-byte entries of ${config[3]} positions, expected ${PATTERN_CONFIG_SIZE} and ${MAX_PATTERN_LENGTH}`
+    );
   }
 
-  const addressLen = data[2];
+  const count = config[1];
+  const entryWords = PATTERN_CONFIG_SIZE / 4;
+  if (config.length < (PATTERN_SET_HEADER_SIZE / 4) + count * entryWords) {
+    throw new PatternLayoutError(`Pattern buffer is too small for ${count} entries`);
+  }
+
+  const masks = (base: number, length: number): CharClass[] =>
+    Array.from({ length }, (_, i) => ({ lo: config[base + i * 2], hi: config[base + 1 + i * 2] }));
 
-  // Extract public key (32 bytes from offset 16 = index 4)
-  const publicKey = new Uint8Array(32);
-  for (let i = 0; i < 8; i++) {
-    const word = data[4 + i];
-    publicKey[i * 4] = word & 0xff;
-    publicKey[i * 4 + 1] = (word >> 8) & 0xff;
-    publicKey[i * 4 + 2] = (word >> 16) & 0xff;
-    publicKey[i * 4 + 3] = (word >> 24) & 0xff;
+  const entries: DecodedPatternEntry[] = [];
+  for (let e = 0; e < count; e++) {
+    const base = PATTERN_SET_HEADER_SIZE / 4 + e * entryWords;
+    const headLength = config[base];
+    const tailLength = config[base + 1];
+    if (headLength > MAX_PATTERN_LENGTH || tailLength > MAX_PATTERN_LENGTH) {
+      throw new PatternLayoutError(`Pattern buffer entry ${e} is longer than ${MAX_PATTERN_LENGTH} positions`);
+    }
+    entries.push({
+      patternIndex: config[base + 3],
+      anywhere: config[base + 2] === 1,
+      head: masks(base + HEAD_MASKS_OFFSET, headLength),
+      tail: masks(base + TAIL_MASKS_OFFSET, tailLength),
+    });
   }
+  return entries;
+}
 
-  // Extract private key (64 bytes from offset 48 = index 12)
-  const privateKey = new Uint8Array(64);
-  for (let i = 0; i < 16; i++) {
-    const word = data[12 + i];
-    privateKey[i * 4] = word & 0xff;
-    privateKey[i * 4 + 1] = (word >> 8) & 0xff;
-    privateKey[i * 4 + 2] = (word >> 16) & 0xff;
-    privateKey[i * 4 + 3] = (word >> 24) & 0xff;
+/**
+ * Fails loudly unless the buffer holds every alternative of every pattern, in
+ * order, exactly as the CPU matcher sees it.
+ */
+export function verifyPatternSetConfig(patterns: PatternSet, config: Uint32Array): void {
+  const entries = decodePatternSetConfig(config);
+  const sameClasses = (a: CharClass[], b: CharClass[]) =>
+    a.length === b.length && a.every((cls, i) => cls.lo === b[i].lo && cls.hi === b[i].hi);
+
+  let e = 0;
+  patterns.patterns.forEach((pattern, patternIndex) => {
+    for (const { head, tail } of pattern.alternatives) {
+      const entry = entries[e++];
+      if (
+        !entry ||
+        entry.patternIndex !== patternIndex ||
+        entry.anywhere !== (pattern.options.matchMode === 'anywhere') ||
+        !sameClasses(entry.head, head) ||
+        !sameClasses(entry.tail, tail)
+      ) {
+        throw new PatternLayoutError(
+          `GPU pattern buffer does not match pattern '${pattern.raw}' (entry ${e - 1})`
+        );
+      }
+    }
+  });
+
+  if (e !== entries.length) {
+    throw new PatternLayoutError(`GPU pattern buffer has ${entries.length} entries, expected ${e}`);
   }
+}
 
-  // Extract address string (from offset 112 = index 28)
+/**
+ * Checks that a shader source declares the layout this module packs, so a
+ * stale or mismatched shader can't silently read patterns differently.
+ */
+export function checkShaderLayout(shaderSource: string): void {
+  const version = /const\s+PATTERN_LAYOUT_VERSION\s*:\s*u32\s*=\s*(\d+)u/.exec(shaderSource);
+  if (!version || Number(version[1]) !== PATTERN_LAYOUT_VERSION) {
+    throw new PatternLayoutError(
+      `Shader pattern layout version ${version ? version[1] : 'missing'}, expected ${PATTERN_LAYOUT_VERSION}`
+    );
+  }
+
+  const config = /struct\s+PatternConfig\s*\{([^}]*)\}/.exec(shaderSource);
+  const lengths = config ? [...config[1].matchAll(/array<vec2<u32>,\s*(\d+)>/g)].map((m) => Number(m[1])) : [];
+  if (lengths.length !== 2 || lengths.some((n) => n !== MAX_PATTERN_LENGTH)) {
+    throw new PatternLayoutError(
+      `Shader PatternConfig holds [${lengths.join(', ')}] positions, expected head and tail of ${MAX_PATTERN_LENGTH}`
+    );
+  }
+}
+
+/**
+ * Re-checks a GPU match with the CPU matcher and throws if they disagree.
+ */
+export function checkGpuMatch(found: FoundKey, patterns: PatternSet): void {
+  const pattern = patterns.patterns[found.patternIndex];
+  if (!pattern) {
+    throw new PatternLayoutError(
+      `GPU reported pattern index ${found.patternIndex}, the set has ${patterns.patterns.length} patterns`
+    );
+  }
+  if (!matchesPattern(found.address, pattern)) {
+    throw new PatternLayoutError(
+      `GPU matched ${found.address} against pattern '${pattern.raw}' but the CPU matcher rejects it`
+    );
+  }
+}
+
+/**
+ * Verifies a GPU hit on the host before it is surfaced: re-derives the
+ * public key from the seed in privateKey[0..32], re-encodes the address and
+ * re-runs the CPU matcher. Throws KeyVerificationError for a broken key pair
+ * and PatternLayoutError for a match the CPU disagrees with.
+ */
+export function verifyGpuKey(found: FoundKey, patterns: PatternSet): void {
+  const seed = found.privateKey.slice(0, 32);
+  const publicKey = ed.getPublicKey(seed);
+
+  if (!bytesEqual(publicKey, found.publicKey)) {
+    throw new KeyVerificationError(
+      `GPU returned public key ${bs58.encode(found.publicKey)} but its seed derives ${bs58.encode(publicKey)}`
+    );
+  }
+  if (!bytesEqual(found.privateKey.slice(32), publicKey)) {
+    throw new KeyVerificationError('GPU private key does not end with its public key');
+  }
+  const address = bs58.encode(publicKey);
+  if (address !== found.address) {
+    throw new KeyVerificationError(`GPU returned address ${found.address} for public key ${address}`);
+  }
+
+  checkGpuMatch(found, patterns);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Parses a GPU result buffer into every match it holds.
+ * ResultBuffer layout:
+ *   count: u32 (offset 0) - atomic, matches found (may exceed the capacity)
+ *   reserved: 3 x u32 (offset 4)
+ *   entries: array<ResultEntry> (offset 16), RESULT_ENTRY_SIZE bytes each:
+ *     thread_id_lo: u32 (+0) - low word of the 64-bit thread id
+ *     address_len: u32 (+4)
+ *     pattern_index: u32 (+8) - PatternSet index of the matching pattern
+ *     thread_id_hi: u32 (+12)
+ *     public_key: array<u32, 8> (+16, 32 bytes)
+ *     private_key: array<u32, 16> (+48, 64 bytes) - seed + public key
+ *     address: array<u32, 12> (+112, 48 bytes)
+ *
+ * The capacity is taken from the length of `data`. Given the kernelParams()
+ * of the dispatch, every match carries its origin, so it can be replayed.
+ * Throws PatternLayoutError if the shader flagged the pattern buffer (count
+ * is RESULT_LAYOUT_MISMATCH).
+ */
+export function parseResultBuffer(data: Uint32Array, attempts: bigint, params?: Uint32Array): FoundKey[] {
+  const count = data[0];
+  if (count === RESULT_LAYOUT_MISMATCH) {
+    throw new PatternLayoutError(`Shader rejected the pattern buffer (expects layout version ${PATTERN_LAYOUT_VERSION})`);
+  }
+
+  const dispatch = params && paramsDispatchKey(params);
+  const stored = Math.min(count, resultCapacity(data));
+  const found: FoundKey[] = [];
+  for (let slot = 0; slot < stored; slot++) {
+    found.push(parseResultEntry(data, (RESULT_HEADER_SIZE + slot * RESULT_ENTRY_SIZE) / 4, attempts, dispatch));
+  }
+  return found;
+}
+
+// Matches the shader counted but had no room to store
+export function droppedResults(data: Uint32Array): number {
+  const count = data[0];
+  if (count === RESULT_LAYOUT_MISMATCH) return 0;
+  return Math.max(0, count - resultCapacity(data));
+}
+
+// The ChaCha20 key and nonce kernelParams() put in a dispatch's params
+function paramsDispatchKey(params: Uint32Array): Omit<GpuKeyOrigin, 'threadId'> {
+  return { key: params.slice(4, 4 + KERNEL_KEY_WORDS), nonceLo: params[2], nonceHi: params[3] };
+}
+
+function resultCapacity(data: Uint32Array): number {
+  return Math.floor((data.byteLength - RESULT_HEADER_SIZE) / RESULT_ENTRY_SIZE);
+}
+
+function parseResultEntry(
+  data: Uint32Array,
+  base: number,
+  attempts: bigint,
+  dispatch?: Omit<GpuKeyOrigin, 'threadId'>
+): FoundKey {
+  const threadId = BigInt(data[base]) | (BigInt(data[base + 3]) << 32n);
+  // A corrupt length can't read past the address field; verifyGpuKey() then rejects the key
+  const addressLen = Math.min(data[base + 1], MAX_PATTERN_LENGTH);
+  const patternIndex = data[base + 2];
+
+  // Extract public key (32 bytes at entry offset 16)
+  const publicKey = wordsToBytes(data.subarray(base + 4, base + 12));
+
+  // Extract private key (64 bytes at entry offset 48)
+  const privateKey = wordsToBytes(data.subarray(base + 12, base + 28));
+
+  // Extract address string (at entry offset 112)
   let address = '';
   for (let i = 0; i < addressLen; i++) {
-    const wordIndex = 28 + Math.floor(i / 4);
+    const wordIndex = base + 28 + Math.floor(i / 4);
     const byteOffset = (i % 4) * 8;
     address += String.fromCharCode((data[wordIndex] >> byteOffset) & 0xff);
   }
@@ -115,5 +401,19 @@ export function parseResultBuffer(data: Uint32Array, attempts: number): FoundKey
     privateKey,
     address,
     attempts,
+    patternIndex,
+    ...(dispatch && { origin: { ...dispatch, threadId } }),
   };
 }
+
+function wordsToBytes(words: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    bytes[i * 4] = word & 0xff;
+    bytes[i * 4 + 1] = (word >> 8) & 0xff;
+    bytes[i * 4 + 2] = (word >> 16) & 0xff;
+    bytes[i * 4 + 3] = (word >> 24) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,176 @@
+// High-level search API: picks a backend, runs the batch loop and yields matches
+import { FoundKey, Grinder, PatternInput, PatternOptions, PatternSet } from './types';
+import { createPatternSet, toPatternSet } from './pattern';
+import { BackendStats, HybridGrinder } from './hybrid-grinder';
+import { BackendChoice, BackendOptions, createGrinder } from './backends';
+import { isSearchAborted, throwIfAborted } from './abort';
+
+export interface GrindOptions extends Partial<PatternOptions>, BackendOptions {
+  count?: number; // Matches to find (default 1)
+  backend?: BackendChoice; // Default 'auto', or 'noble' given a master seed
+  maxAttempts?: number; // Give up after about this many keys, checked between batches
+  timeoutMs?: number; // Give up after this long
+  signal?: AbortSignal; // Aborting rejects the iteration with SearchAbortedError
+  onProgress?: (progress: GrindProgress) => void;
+  progressIntervalMs?: number; // Default 1000
+  batchSize?: number; // Keys per grinder call (default 10000)
+  grinder?: Grinder; // Search with this grinder instead of choosing one; the caller owns it
+}
+
+export interface GrindProgress {
+  backend: string; // Backend that was chosen, 'custom' for a caller's grinder
+  attempts: bigint;
+  rate: number; // Keys/sec over the whole search
+  elapsedMs: number;
+  found: number;
+  backends: BackendStats[]; // One entry per backend grinding
+}
+
+// 'count': every match was found; 'attempts' and 'timeout': a budget ran out
+export type GrindStopReason = 'count' | 'attempts' | 'timeout';
+
+export interface GrindSummary extends GrindProgress {
+  reason: GrindStopReason;
+}
+
+const DEFAULT_BATCH_SIZE = 10_000;
+const DEFAULT_PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * Searches for addresses matching `pattern`, yielding each match as it is
+ * found, until `count` are in or a budget runs out; the iterator's return
+ * value says which. Strings are compiled with the pattern options given.
+ *
+ *   for await (const key of grind('abc', { count: 3, timeoutMs: 60_000 })) {
+ *     save(key);
+ *   }
+ *
+ * Leaving the loop early stops the search and frees the backend.
+ */
+export async function* grind(
+  pattern: string | string[] | PatternInput,
+  options: GrindOptions = {}
+): AsyncGenerator<FoundKey, GrindSummary, undefined> {
+  const patterns = toSearchPatterns(pattern, options);
+  const count = options.count ?? 1;
+  const maxAttempts = options.maxAttempts ?? Infinity;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const progressInterval = options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  checkPositive('match count', count);
+  checkPositive('attempt budget', maxAttempts);
+  checkPositive('batch size', batchSize);
+  if (options.timeoutMs !== undefined) checkPositive('timeout', options.timeoutMs);
+  throwIfAborted(options.signal);
+
+  // One signal for the grinder: the caller's abort or the timeout
+  const stop = new AbortController();
+  const onAbort = () => stop.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer =
+    options.timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          stop.abort(new Error('Search timed out'));
+        }, options.timeoutMs)
+      : undefined;
+
+  let opened: { grinder: Grinder; backend: string; label: string };
+  try {
+    opened = options.grinder
+      ? { grinder: options.grinder, backend: 'custom', label: 'custom' }
+      : await createGrinder(patterns, { ...options, stopAfter: count });
+  } catch (error) {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+    throw error;
+  }
+  const { grinder, backend, label } = opened;
+
+  const startTime = Date.now();
+  const startAttempts = grinder.getStats().attempts;
+  let found = 0;
+  let reason: GrindStopReason = 'count';
+  let lastProgress = startTime;
+
+  const progress = (): GrindProgress => {
+    const attempts = grinder.getStats().attempts - startAttempts;
+    const elapsedMs = Date.now() - startTime;
+    return {
+      backend,
+      attempts,
+      rate: elapsedMs > 0 ? (Number(attempts) / elapsedMs) * 1000 : 0,
+      elapsedMs,
+      found,
+      backends:
+        grinder instanceof HybridGrinder
+          ? grinder.getBackendStats()
+          : [{ name: label, ...grinder.getStats(), share: 1 }],
+    };
+  };
+
+  try {
+    while (found < count) {
+      const attempts = grinder.getStats().attempts - startAttempts;
+      if (attempts >= maxAttempts) {
+        reason = 'attempts';
+        break;
+      }
+
+      let batch: FoundKey[];
+      try {
+        batch = await grinder.searchBatch(Math.min(batchSize, maxAttempts - Number(attempts)), stop.signal);
+      } catch (error) {
+        // The timeout ends the search; the caller's abort is an error
+        if (timedOut && isSearchAborted(error)) {
+          reason = 'timeout';
+          break;
+        }
+        throw error;
+      }
+
+      if (options.onProgress && Date.now() - lastProgress >= progressInterval) {
+        options.onProgress(progress());
+        lastProgress = Date.now();
+      }
+
+      // A GPU batch can hold several matches; keep only as many as were asked for
+      for (const key of batch.slice(0, count - found)) {
+        found++;
+        yield key;
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+    options.onProgress?.(progress());
+    if (!options.grinder && 'destroy' in grinder) (grinder as { destroy(): void }).destroy();
+  }
+
+  return { ...progress(), reason };
+}
+
+/**
+ * Collects the matches of a grind() into an array; any budget or timeout
+ * that ends the search early just leaves it shorter than `count`.
+ */
+export async function grindAll(
+  pattern: string | string[] | PatternInput,
+  options: GrindOptions = {}
+): Promise<FoundKey[]> {
+  const keys: FoundKey[] = [];
+  for await (const key of grind(pattern, options)) keys.push(key);
+  return keys;
+}
+
+function toSearchPatterns(pattern: string | string[] | PatternInput, options: Partial<PatternOptions>): PatternSet {
+  if (typeof pattern === 'string') return createPatternSet([pattern], options);
+  if (Array.isArray(pattern)) return createPatternSet(pattern, options);
+  return toPatternSet(pattern);
+}
+
+function checkPositive(what: string, value: number): void {
+  if (Number.isNaN(value) || value <= 0) {
+    throw new Error(`Invalid ${what} ${value}`);
+  }
+}
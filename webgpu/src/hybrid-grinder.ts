@@ -0,0 +1,148 @@
+import { Grinder, GrinderStats, FoundKey } from './types';
+import { throwIfAborted } from './abort';
+import { isBackendUnavailable } from './backend-error';
+
+export interface HybridBackend {
+  name: string;
+  grinder: Grinder;
+}
+
+export interface BackendStats extends GrinderStats {
+  name: string;
+  share: number; // Fraction of the hybrid's attempts made by this backend
+}
+
+interface BackendState extends HybridBackend {
+  attempts: bigint;
+  busyMs: number;
+  retired: boolean; // Stopped working for good; the others search without it
+}
+
+// Each backend takes slices of about this much work at its measured rate,
+// so a match on one backend stops the others within a slice
+const SLICE_SECONDS = 0.25;
+const INITIAL_SLICE = 1000;
+const MIN_SLICE = 64;
+
+/**
+ * Runs several grinders on the same pattern at once. A batch is a shared
+ * pool of attempts that every backend draws slices from, sized to its
+ * measured rate, until the pool is empty or `stopAfter` matches are in.
+ * A backend that becomes unavailable mid-search (e.g. a GPU that couldn't
+ * be recovered) is retired while any other backend still runs.
+ */
+export class HybridGrinder implements Grinder {
+  private backends: BackendState[];
+  private stopAfter: number;
+  private startTime: number = Date.now();
+
+  constructor(backends: HybridBackend[], stopAfter: number = 1) {
+    if (backends.length === 0) {
+      throw new Error('Hybrid grinder needs at least one backend');
+    }
+    if (!Number.isInteger(stopAfter) || stopAfter < 1) {
+      throw new Error(`Invalid match count ${stopAfter}`);
+    }
+    this.backends = backends.map((backend) => ({ ...backend, attempts: 0n, busyMs: 0, retired: false }));
+    this.stopAfter = stopAfter;
+  }
+
+  async searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]> {
+    throwIfAborted(signal);
+    const found: FoundKey[] = [];
+    let remaining = maxAttempts;
+    let failed = false;
+
+    const run = async (backend: BackendState): Promise<void> => {
+      while (!failed && !backend.retired && remaining > 0 && found.length < this.stopAfter) {
+        const slice = Math.min(remaining, sliceSize(backend));
+        remaining -= slice;
+
+        const before = backend.grinder.getStats().attempts;
+        const start = Date.now();
+        let keys: FoundKey[] = [];
+        let done: number;
+        try {
+          keys = await backend.grinder.searchBatch(slice, signal);
+        } catch (error) {
+          const others = this.backends.some((other) => other !== backend && !other.retired);
+          if (isBackendUnavailable(error) && others) {
+            backend.retired = true;
+          } else {
+            // The others finish their current slice and stop
+            failed = true;
+            throw error;
+          }
+        } finally {
+          // An aborted slice still counts the keys it tried
+          done = Number(backend.grinder.getStats().attempts - before);
+          backend.attempts += BigInt(done);
+          backend.busyMs += Date.now() - start;
+        }
+
+        // A slice cut short by a match or a retirement goes back to the pool
+        remaining += Math.max(0, slice - done);
+        found.push(...keys);
+
+        // A backend that can't make progress (e.g. no GPU) sits the batch out
+        if (done === 0 && keys.length === 0) return;
+      }
+    };
+
+    // Let every backend wind down before reporting a failure or abort
+    const outcomes = await Promise.allSettled(this.backends.map(run));
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') throw outcome.reason;
+    }
+
+    const attempts = this.getStats().attempts;
+    return found.map((key) => ({ ...key, attempts }));
+  }
+
+  getStats(): GrinderStats {
+    const elapsedMs = Date.now() - this.startTime;
+    const elapsedSec = elapsedMs / 1000;
+    const attempts = this.backends.reduce((sum, backend) => sum + backend.attempts, 0n);
+    const incidents = this.backends.flatMap((backend) => backend.grinder.getStats().incidents ?? []);
+    return {
+      attempts,
+      rate: elapsedSec > 0 ? Number(attempts) / elapsedSec : 0,
+      elapsedMs,
+      ...(incidents.length > 0 && { incidents }),
+    };
+  }
+
+  getBackendStats(): BackendStats[] {
+    const total = this.getStats();
+    const elapsedSec = total.elapsedMs / 1000;
+    return this.backends.map((backend) => ({
+      name: backend.name,
+      attempts: backend.attempts,
+      rate: elapsedSec > 0 ? Number(backend.attempts) / elapsedSec : 0,
+      elapsedMs: total.elapsedMs,
+      share: total.attempts > 0n ? Number(backend.attempts) / Number(total.attempts) : 0,
+      incidents: backend.grinder.getStats().incidents,
+    }));
+  }
+
+  reset(): void {
+    for (const backend of this.backends) {
+      backend.grinder.reset();
+      backend.attempts = 0n;
+      backend.busyMs = 0;
+    }
+    this.startTime = Date.now();
+  }
+
+  destroy(): void {
+    for (const { grinder } of this.backends) {
+      if ('destroy' in grinder) (grinder as { destroy(): void }).destroy();
+    }
+  }
+}
+
+function sliceSize(backend: BackendState): number {
+  if (backend.busyMs === 0) return INITIAL_SLICE;
+  const rate = Number(backend.attempts) / (backend.busyMs / 1000);
+  return Math.max(MIN_SLICE, Math.round(rate * SLICE_SECONDS));
+}
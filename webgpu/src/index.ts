@@ -1,4 +1,21 @@
 export * from './types';
+export * from './abort';
+export * from './backend-error';
 export * from './pattern';
+export * from './pattern-syntax';
+export * from './base58-distribution';
+export * from './feasibility';
+export * from './format';
+export * from './platform';
 export { CpuGrinder } from './cpu-grinder';
-export { WebGpuGrinder, createWebGpuGrinder } from './webgpu-grinder';
+export { CpuPoolGrinder } from './cpu-pool-grinder';
+export * from './hybrid-grinder';
+export * from './deterministic-grinder';
+export * from './backends';
+export * from './grind';
+export { GpuGrinder, GpuGrinderOptions, GpuGrinderProviders, GpuSeedSpace } from './gpu-grinder';
+export * from './gpu-adapters';
+export * from './gpu-init-report';
+export { WebGpuGrinder, createWebGpuGrinder, WebGpuGrinderOptions } from './webgpu-grinder';
+export { GpuTuning, TuningCache, DEFAULT_DISPATCH_TARGET_MS } from './gpu-tuner';
+export { FileTuningCache, defaultTuningCachePath } from './gpu-tuning-cache';
@@ -0,0 +1,224 @@
+// TypeScript reference model of the vanity.wgsl kernel
+//
+// Mirrors seed_for() (a ChaCha20 block per thread) and the way main() turns
+// it into a seed, bit for bit. SHA-512 and the base point multiplication are
+// left to @noble/ed25519, so any GPU hit can be recomputed from its dispatch
+// key and thread id. kernelMain() models a whole invocation, pattern matching
+// and result writing included, on the same buffers the shader binds.
+import * as ed from '@noble/ed25519';
+import { sha512 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+import { BASE58_ALPHABET, MAX_PATTERN_LENGTH } from './types';
+import {
+  PATTERN_CONFIG_SIZE,
+  PATTERN_LAYOUT_VERSION,
+  PATTERN_SET_HEADER_SIZE,
+  RESULT_ENTRY_SIZE,
+  RESULT_HEADER_SIZE,
+  RESULT_LAYOUT_MISMATCH,
+} from './gpu-utils';
+
+ed.hashes.sha512 = sha512;
+
+// Params.key and Params.nonce_lo / nonce_hi of a dispatch
+export interface KernelDispatchKey {
+  key: Uint32Array; // 8 words of ChaCha20 key
+  nonceLo: number;
+  nonceHi: number;
+}
+
+export interface KernelKey {
+  seed: Uint8Array; // 32 bytes fed to SHA-512
+  scalar: Uint8Array; // Clamped first half of SHA-512(seed)
+  publicKey: Uint8Array;
+  privateKey: Uint8Array; // seed + public key, as Solana expects
+  address: string;
+}
+
+// "expand 32-byte k"
+const CHACHA_CONSTANTS = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+function rotl(value: number, bits: number): number {
+  return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
+
+// Uint32Array stores wrap additions to u32, like the shader's
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  x[a] += x[b];
+  x[d] = rotl(x[d] ^ x[a], 16);
+  x[c] += x[d];
+  x[b] = rotl(x[b] ^ x[c], 12);
+  x[a] += x[b];
+  x[d] = rotl(x[d] ^ x[a], 8);
+  x[c] += x[d];
+  x[b] = rotl(x[b] ^ x[c], 7);
+}
+
+// The ChaCha20 block function: 20 rounds over a 16-word state, then the state added back in
+export function chachaBlock(state: Uint32Array): Uint32Array {
+  const x = Uint32Array.from(state);
+  for (let round = 0; round < 10; round++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+  for (let i = 0; i < 16; i++) x[i] += state[i];
+  return x;
+}
+
+// The kernel's thread id: params.batch_offset + global_id.x as a u64
+export function kernelThreadId(batchOffset: bigint, globalId: number): bigint {
+  return BigInt.asUintN(64, batchOffset + BigInt(globalId));
+}
+
+/**
+ * seed_for(): the 32-byte seed thread `tid` hashes, the first half of
+ * ChaCha20 block `tid` under the dispatch's key and nonce.
+ */
+export function kernelSeed({ key, nonceLo, nonceHi }: KernelDispatchKey, tid: bigint): Uint8Array {
+  const tidLo = Number(BigInt.asUintN(32, tid));
+  const tidHi = Number(BigInt.asUintN(32, tid >> 32n));
+  const state = Uint32Array.of(...CHACHA_CONSTANTS, ...key, tidLo, tidHi, nonceLo, nonceHi);
+  const block = chachaBlock(state);
+  const seed = new Uint8Array(32);
+  const view = new DataView(seed.buffer);
+  for (let i = 0; i < 8; i++) view.setUint32(i * 4, block[i], true);
+  return seed;
+}
+
+// SHA-512(seed)[0..32] clamped the way main() clamps it before scalar mult
+export function kernelScalar(seed: Uint8Array): Uint8Array {
+  const scalar = sha512(seed).slice(0, 32);
+  scalar[0] &= 0xf8;
+  scalar[31] = (scalar[31] & 0x3f) | 0x40;
+  return scalar;
+}
+
+/**
+ * Recomputes the key pair thread `tid` of a dispatch with this key
+ * derives.
+ */
+export function kernelKey(dispatchKey: KernelDispatchKey, tid: bigint): KernelKey {
+  const seed = kernelSeed(dispatchKey, tid);
+  const publicKey = ed.getPublicKey(seed);
+
+  const privateKey = new Uint8Array(64);
+  privateKey.set(seed, 0);
+  privateKey.set(publicKey, 32);
+
+  return {
+    seed,
+    scalar: kernelScalar(seed),
+    publicKey,
+    privateKey,
+    address: bs58.encode(publicKey),
+  };
+}
+
+// Buffers of the kernel's bind group, as u32 words
+export interface KernelBindings {
+  results: Uint32Array; // binding 0, read_write: ResultBuffer
+  params: Uint32Array; // binding 1: Params
+  patterns: Uint32Array; // binding 2: PatternSet
+}
+
+// mask_allows(): bit `digit` of a vec2<u32> mask
+function maskAllows(lo: number, hi: number, digit: number): boolean {
+  return digit < 32 ? ((lo >>> digit) & 1) !== 0 : ((hi >>> (digit - 32)) & 1) !== 0;
+}
+
+// pattern_matches() for the PatternSet entry whose first word is at `base`
+function entryMatches(address: string, patterns: Uint32Array, base: number): boolean {
+  const headLength = patterns[base];
+  const tailLength = patterns[base + 1];
+  if (address.length < headLength || address.length < tailLength) return false;
+
+  const digits = [...address].map((c) => BASE58_ALPHABET.indexOf(c));
+  const head = base + 4;
+  const tail = base + 4 + MAX_PATTERN_LENGTH * 2;
+  const headMatchesAt = (pos: number): boolean => {
+    for (let i = 0; i < headLength; i++) {
+      if (!maskAllows(patterns[head + i * 2], patterns[head + i * 2 + 1], digits[pos + i])) return false;
+    }
+    return true;
+  };
+
+  if (patterns[base + 2] === 1) {
+    for (let pos = 0; pos <= digits.length - headLength; pos++) {
+      if (headMatchesAt(pos)) return true;
+    }
+    return false;
+  }
+
+  if (!headMatchesAt(0)) return false;
+  const start = digits.length - tailLength;
+  for (let i = 0; i < tailLength; i++) {
+    if (!maskAllows(patterns[tail + i * 2], patterns[tail + i * 2 + 1], digits[start + i])) return false;
+  }
+  return true;
+}
+
+/**
+ * find_matching_entry(): index of the first PatternSet entry the address
+ * matches, or the entry count if none does.
+ */
+export function kernelMatchEntry(address: string, patterns: Uint32Array): number {
+  const count = patterns[1];
+  const entryWords = PATTERN_CONFIG_SIZE / 4;
+  for (let p = 0; p < count; p++) {
+    if (entryMatches(address, patterns, PATTERN_SET_HEADER_SIZE / 4 + p * entryWords)) return p;
+  }
+  return count;
+}
+
+// The dispatch key in a Params buffer laid out by kernelParams()
+export function kernelDispatchKey(params: Uint32Array): KernelDispatchKey {
+  return { key: params.subarray(4, 12), nonceLo: params[2], nonceHi: params[3] };
+}
+
+/**
+ * Models one invocation of main() for `globalId`: refuses a pattern buffer
+ * of another layout, derives the thread's key, and appends a match to the
+ * result buffer (counting it even when there is no slot left for it).
+ */
+export function kernelMain(globalId: number, { results, params, patterns }: KernelBindings): void {
+  const tid = kernelThreadId(BigInt(params[0]) | (BigInt(params[1]) << 32n), globalId);
+
+  if (
+    patterns[0] !== PATTERN_LAYOUT_VERSION ||
+    patterns[2] !== PATTERN_CONFIG_SIZE ||
+    patterns[3] !== MAX_PATTERN_LENGTH
+  ) {
+    results[0] = RESULT_LAYOUT_MISMATCH;
+    return;
+  }
+
+  const key = kernelKey(kernelDispatchKey(params), tid);
+  const entry = kernelMatchEntry(key.address, patterns);
+  if (entry >= patterns[1]) return;
+
+  // atomicAdd on count, then the slot if it is within the entries array
+  const slot = results[0];
+  results[0] = (slot + 1) >>> 0;
+  const capacity = Math.floor((results.byteLength - RESULT_HEADER_SIZE) / RESULT_ENTRY_SIZE);
+  if (slot >= capacity) return;
+
+  const base = (RESULT_HEADER_SIZE + slot * RESULT_ENTRY_SIZE) / 4;
+  const bytesToWords = (bytes: Uint8Array): Uint32Array =>
+    new Uint32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+  results[base] = Number(BigInt.asUintN(32, tid));
+  results[base + 3] = Number(tid >> 32n);
+  results[base + 1] = key.address.length;
+  results[base + 2] = patterns[PATTERN_SET_HEADER_SIZE / 4 + entry * (PATTERN_CONFIG_SIZE / 4) + 3];
+  results.set(bytesToWords(key.publicKey), base + 4);
+  results.set(bytesToWords(key.privateKey), base + 12);
+  for (let i = 0; i < 12; i++) results[base + 28 + i] = 0;
+  for (let i = 0; i < key.address.length && i < 48; i++) {
+    results[base + 28 + (i >> 2)] |= key.address.charCodeAt(i) << ((i % 4) * 8);
+  }
+}
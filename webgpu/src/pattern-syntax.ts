@@ -0,0 +1,280 @@
+// Pattern grammar: compiles pattern strings to per-position Base58 bitmasks
+//
+//   A         literal Base58 character
+//   ?         any character
+//   [abc]     one of a set; ranges like [2-9] or [a-f], negation with [^...]
+//   (sol|SOL) alternation of sub-patterns (may nest)
+import {
+  CharClass,
+  BASE58_ALPHABET,
+  INVALID_BASE58_CHARS,
+  MAX_PATTERN_LENGTH,
+  MAX_PATTERN_ALTERNATIVES,
+} from './types';
+
+export class PatternSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'PatternSyntaxError';
+    this.position = position;
+  }
+}
+
+// Base58 digit index by char code, -1 for characters outside the alphabet
+export const BASE58_INDEX = new Int8Array(128).fill(-1);
+for (let i = 0; i < BASE58_ALPHABET.length; i++) {
+  BASE58_INDEX[BASE58_ALPHABET.charCodeAt(i)] = i;
+}
+
+export const ANY_CHAR: CharClass = { lo: 0xffffffff, hi: 0x3ffffff };
+
+export function charClassHas(cls: CharClass, index: number): boolean {
+  return index < 32 ? ((cls.lo >>> index) & 1) === 1 : ((cls.hi >>> (index - 32)) & 1) === 1;
+}
+
+export function charClassSize(cls: CharClass): number {
+  return popcount(cls.lo) + popcount(cls.hi);
+}
+
+export function isAnyChar(cls: CharClass): boolean {
+  return cls.lo === ANY_CHAR.lo && cls.hi === ANY_CHAR.hi;
+}
+
+// Number of characters in the class with a Base58 digit index below `index`
+export function charClassCountBelow(cls: CharClass, index: number): number {
+  if (index <= 0) return 0;
+  if (index < 32) return popcount(cls.lo & ((1 << index) - 1));
+  if (index === 32) return popcount(cls.lo);
+  return popcount(cls.lo) + popcount(cls.hi & ((1 << (index - 32)) - 1));
+}
+
+export function intersectClasses(a: CharClass, b: CharClass): CharClass {
+  return { lo: (a.lo & b.lo) >>> 0, hi: (a.hi & b.hi) >>> 0 };
+}
+
+function popcount(x: number): number {
+  let n = 0;
+  for (let v = x >>> 0; v !== 0; v &= v - 1) n++;
+  return n;
+}
+
+function addChar(cls: CharClass, index: number): void {
+  if (index < 32) cls.lo = (cls.lo | (1 << index)) >>> 0;
+  else cls.hi = (cls.hi | (1 << (index - 32))) >>> 0;
+}
+
+// Adds the other-case form of every letter in the class, where it exists
+function foldCase(cls: CharClass): CharClass {
+  const folded = { ...cls };
+  for (let i = 0; i < BASE58_ALPHABET.length; i++) {
+    if (!charClassHas(cls, i)) continue;
+    const c = BASE58_ALPHABET[i];
+    for (const variant of [c.toLowerCase(), c.toUpperCase()]) {
+      const index = BASE58_INDEX[variant.charCodeAt(0)];
+      if (index >= 0) addChar(folded, index);
+    }
+  }
+  return folded;
+}
+
+interface ParseState {
+  src: string;
+  pos: number;
+  ignoreCase: boolean;
+}
+
+/**
+ * Compiles a pattern string into its expanded alternatives, each a sequence
+ * of per-position character classes. Alternation expands into separate
+ * alternatives so that `(sol|SOL)` never accepts `sOl`.
+ */
+export function compilePattern(source: string, ignoreCase: boolean): CharClass[][] {
+  if (source === '') throw new PatternSyntaxError('Empty pattern', 0);
+  const state: ParseState = { src: source, pos: 0, ignoreCase };
+  const alternatives = parseSequence(state);
+
+  if (state.pos < source.length) {
+    throw new PatternSyntaxError(
+      `Unexpected '${source[state.pos]}' at position ${state.pos}`,
+      state.pos
+    );
+  }
+
+  for (const alternative of alternatives) {
+    if (alternative.length > MAX_PATTERN_LENGTH) {
+      throw new PatternSyntaxError(
+        `Pattern too long (max ${MAX_PATTERN_LENGTH} characters)`,
+        MAX_PATTERN_LENGTH
+      );
+    }
+  }
+
+  return dedupeAlternatives(alternatives);
+}
+
+// Parses items until end of input, '|' or ')', returning every expansion.
+// An empty sequence would match every address, so it is an error.
+function parseSequence(state: ParseState): CharClass[][] {
+  let alternatives: CharClass[][] = [[]];
+  const start = state.pos;
+
+  while (state.pos < state.src.length) {
+    const c = state.src[state.pos];
+    if (c === '|' || c === ')') break;
+
+    let item: CharClass[][];
+    if (c === '(') {
+      item = parseGroup(state);
+    } else if (c === '[') {
+      item = [[parseClass(state)]];
+    } else {
+      item = [[parseLiteral(state)]];
+    }
+
+    const product: CharClass[][] = [];
+    for (const prefix of alternatives) {
+      for (const suffix of item) {
+        product.push([...prefix, ...suffix]);
+      }
+    }
+    if (product.length > MAX_PATTERN_ALTERNATIVES) {
+      throw new PatternSyntaxError(
+        `Pattern expands to too many alternatives (max ${MAX_PATTERN_ALTERNATIVES}) at position ${start}`,
+        start
+      );
+    }
+    alternatives = product;
+  }
+
+  if (state.pos === start) {
+    throw new PatternSyntaxError(`Empty alternative at position ${start}`, start);
+  }
+  return alternatives;
+}
+
+function parseGroup(state: ParseState): CharClass[][] {
+  const open = state.pos;
+  state.pos++; // '('
+
+  const alternatives: CharClass[][] = [];
+  for (;;) {
+    alternatives.push(...parseSequence(state));
+    if (alternatives.length > MAX_PATTERN_ALTERNATIVES) {
+      throw new PatternSyntaxError(
+        `Pattern expands to too many alternatives (max ${MAX_PATTERN_ALTERNATIVES}) at position ${open}`,
+        open
+      );
+    }
+
+    const c = state.src[state.pos];
+    if (c === '|') {
+      state.pos++;
+    } else if (c === ')') {
+      state.pos++;
+      return alternatives;
+    } else {
+      throw new PatternSyntaxError(`Unclosed group '(' at position ${open}`, open);
+    }
+  }
+}
+
+function parseClass(state: ParseState): CharClass {
+  const open = state.pos;
+  state.pos++; // '['
+
+  const negate = state.src[state.pos] === '^';
+  if (negate) state.pos++;
+
+  let cls: CharClass = { lo: 0, hi: 0 };
+  while (state.src[state.pos] !== ']') {
+    if (state.pos >= state.src.length) {
+      throw new PatternSyntaxError(`Unclosed character class '[' at position ${open}`, open);
+    }
+
+    const first = state.pos;
+    const from = classChar(state);
+    const isRange =
+      state.src[state.pos] === '-' && state.pos + 1 < state.src.length && state.src[state.pos + 1] !== ']';
+    if (isRange) {
+      state.pos++; // '-'
+      const to = classChar(state);
+      if (to < from) {
+        throw new PatternSyntaxError(
+          `Invalid range '${state.src.slice(first, state.pos)}' at position ${first}`,
+          first
+        );
+      }
+      // Ranges follow character codes and skip characters outside the alphabet
+      for (let code = from; code <= to; code++) {
+        const index = BASE58_INDEX[code];
+        if (index >= 0) addChar(cls, index);
+      }
+    } else {
+      addChar(cls, BASE58_INDEX[from]);
+    }
+  }
+  state.pos++; // ']'
+
+  // Fold before negating so that [^a] excludes 'A' too when ignoring case
+  if (state.ignoreCase) cls = foldCase(cls);
+  if (negate) {
+    cls = { lo: (~cls.lo & ANY_CHAR.lo) >>> 0, hi: (~cls.hi & ANY_CHAR.hi) >>> 0 };
+  }
+  if (charClassSize(cls) === 0) {
+    throw new PatternSyntaxError(`Empty character class at position ${open}`, open);
+  }
+
+  return cls;
+}
+
+// Reads one Base58 character inside a class and returns its char code
+function classChar(state: ParseState): number {
+  const c = state.src[state.pos];
+  checkBase58(c, state.pos);
+  state.pos++;
+  return c.charCodeAt(0);
+}
+
+function parseLiteral(state: ParseState): CharClass {
+  const c = state.src[state.pos];
+  if (c === '?') {
+    state.pos++;
+    return { ...ANY_CHAR };
+  }
+
+  checkBase58(c, state.pos);
+  state.pos++;
+
+  const cls: CharClass = { lo: 0, hi: 0 };
+  addChar(cls, BASE58_INDEX[c.charCodeAt(0)]);
+  return state.ignoreCase ? foldCase(cls) : cls;
+}
+
+function checkBase58(c: string, position: number): void {
+  if (INVALID_BASE58_CHARS.includes(c)) {
+    throw new PatternSyntaxError(
+      `Invalid character '${c}' at position ${position}. Base58 alphabet does not include: 0, O, I, l`,
+      position
+    );
+  }
+
+  if (!BASE58_ALPHABET.includes(c)) {
+    throw new PatternSyntaxError(
+      `Invalid character '${c}' at position ${position}. Not in Base58 alphabet.`,
+      position
+    );
+  }
+}
+
+// Case folding can make alternatives identical, e.g. (sol|SOL) ignoring case
+function dedupeAlternatives(alternatives: CharClass[][]): CharClass[][] {
+  const seen = new Set<string>();
+  return alternatives.filter((alternative) => {
+    const key = alternative.map((cls) => `${cls.lo}:${cls.hi}`).join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
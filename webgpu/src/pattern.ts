@@ -1,30 +1,30 @@
 import {
+  CharClass,
   Pattern,
+  PatternAlternative,
+  PatternSegment,
+  SegmentAnchor,
+  PatternSet,
+  PatternInput,
   PatternOptions,
   DifficultyStats,
-  BASE58_ALPHABET,
-  INVALID_BASE58_CHARS,
+  MAX_PATTERN_LENGTH,
+  MAX_PATTERN_SET_SIZE,
+  MAX_PATTERN_ALTERNATIVES,
 } from './types';
+import {
+  ANY_CHAR,
+  BASE58_INDEX,
+  compilePattern,
+  intersectClasses,
+  charClassHas,
+  charClassSize,
+  isAnyChar,
+} from './pattern-syntax';
+import { alternativeProbability, anywhereProbability, classProbability } from './base58-distribution';
 
 export function validatePattern(patternStr: string): void {
-  if (patternStr.length > 44) {
-    throw new Error('Pattern too long (max 44 characters)');
-  }
-
-  for (let i = 0; i < patternStr.length; i++) {
-    const c = patternStr[i];
-    if (c === '?') continue; // Wildcard
-
-    if (INVALID_BASE58_CHARS.includes(c)) {
-      throw new Error(
-        `Invalid character '${c}' at position ${i}. Base58 alphabet does not include: 0, O, I, l`
-      );
-    }
-
-    if (!BASE58_ALPHABET.includes(c)) {
-      throw new Error(`Invalid character '${c}' at position ${i}. Not in Base58 alphabet.`);
-    }
-  }
+  compilePattern(patternStr, false);
 }
 
 export function parsePatternWithCount(input: string): { pattern: string; count: number } {
@@ -40,75 +40,264 @@ export function parsePatternWithCount(input: string): { pattern: string; count:
 }
 
 export function createPattern(raw: string, options: Partial<PatternOptions> = {}): Pattern {
-  validatePattern(raw);
+  const ignoreCase = options.ignoreCase ?? true;
+  const matchMode = options.matchMode ?? 'prefix';
+  if (matchMode === 'composite') {
+    throw new Error('Composite patterns are built from segments, use createCompositePattern');
+  }
+
   return {
     raw,
-    options: {
-      ignoreCase: options.ignoreCase ?? true,
-      matchMode: options.matchMode ?? 'prefix',
-    },
+    options: { ignoreCase, matchMode },
+    alternatives: compilePattern(raw, ignoreCase).map((classes) =>
+      matchMode === 'suffix' ? { head: [], tail: classes } : { head: classes, tail: [] }
+    ),
+  };
+}
+
+/**
+ * Creates a pattern whose segments must all match, each pinned to the start,
+ * the end, or a fixed index of the address, e.g. starts with `ABC` and ends
+ * with `XYZ`. Every combination of segment alternatives becomes one
+ * alternative of the pattern; segments that overlap must agree where they do.
+ */
+export function createCompositePattern(
+  segments: PatternSegment[],
+  options: { ignoreCase?: boolean } = {}
+): Pattern {
+  if (segments.length === 0) {
+    throw new Error('Composite pattern must contain at least one segment');
+  }
+  const ignoreCase = options.ignoreCase ?? true;
+
+  let alternatives: PatternAlternative[] = [{ head: [], tail: [] }];
+  for (const segment of segments) {
+    const anchor = segment.anchor;
+    if (typeof anchor === 'number' && (!Number.isInteger(anchor) || anchor < 0)) {
+      throw new Error(`Invalid segment index ${anchor}`);
+    }
+
+    const sequences = compilePattern(segment.raw, ignoreCase);
+    if (typeof anchor === 'number' && anchor + Math.max(...sequences.map((c) => c.length)) > MAX_PATTERN_LENGTH) {
+      throw new Error(`Segment '${segment.raw}' at index ${anchor} runs past the end of an address`);
+    }
+
+    const product: PatternAlternative[] = [];
+    for (const alternative of alternatives) {
+      for (const classes of sequences) {
+        product.push(placeSegment(alternative, classes, anchor));
+      }
+    }
+    if (product.length > MAX_PATTERN_ALTERNATIVES) {
+      throw new Error(`Pattern expands to too many alternatives (max ${MAX_PATTERN_ALTERNATIVES})`);
+    }
+    alternatives = product;
+  }
+
+  return {
+    raw: segments.map(describeSegment).join(' '),
+    options: { ignoreCase, matchMode: 'composite' },
+    alternatives,
+  };
+}
+
+function describeSegment(segment: PatternSegment): string {
+  if (segment.anchor === 'start') return `^${segment.raw}`;
+  if (segment.anchor === 'end') return `${segment.raw}$`;
+  return `@${segment.anchor}:${segment.raw}`;
+}
+
+function placeSegment(
+  alternative: PatternAlternative,
+  classes: CharClass[],
+  anchor: SegmentAnchor
+): PatternAlternative {
+  if (anchor === 'end') {
+    // Overlay from the end: work on reversed copies so index 0 is the last character
+    const tail = overlay([...alternative.tail].reverse(), [...classes].reverse(), 0, 'from the end');
+    return { head: alternative.head, tail: tail.reverse() };
+  }
+  const offset = anchor === 'start' ? 0 : anchor;
+  return { head: overlay(alternative.head, classes, offset, 'from the start'), tail: alternative.tail };
+}
+
+// Intersects classes into target at offset, padding any gap with wildcards
+function overlay(target: CharClass[], classes: CharClass[], offset: number, side: string): CharClass[] {
+  const merged = [...target];
+  while (merged.length < offset + classes.length) merged.push({ ...ANY_CHAR });
+
+  for (let i = 0; i < classes.length; i++) {
+    const cls = intersectClasses(merged[offset + i], classes[i]);
+    if (charClassSize(cls) === 0) {
+      throw new Error(`Segments conflict at position ${offset + i} ${side}`);
+    }
+    merged[offset + i] = cls;
+  }
+  return merged;
+}
+
+export function createPatternSet(
+  patterns: Array<string | Pattern>,
+  options: Partial<PatternOptions> = {}
+): PatternSet {
+  if (patterns.length === 0) {
+    throw new Error('Pattern set must contain at least one pattern');
+  }
+  if (patterns.length > MAX_PATTERN_SET_SIZE) {
+    throw new Error(`Too many patterns (max ${MAX_PATTERN_SET_SIZE})`);
+  }
+
+  return {
+    patterns: patterns.map((p) => (typeof p === 'string' ? createPattern(p, options) : p)),
   };
 }
 
+export function isPatternSet(input: PatternInput): input is PatternSet {
+  return Array.isArray((input as PatternSet).patterns);
+}
+
+export function toPatternSet(input: PatternInput): PatternSet {
+  return isPatternSet(input) ? input : { patterns: [input] };
+}
+
+/**
+ * Returns the index of the first pattern in the set that matches the address,
+ * or -1 if none does.
+ */
+export function findMatchingPattern(address: string, patterns: PatternSet): number {
+  for (let i = 0; i < patterns.patterns.length; i++) {
+    if (matchesPattern(address, patterns.patterns[i])) return i;
+  }
+  return -1;
+}
+
 export function matchesPattern(address: string, pattern: Pattern): boolean {
-  const { raw, options } = pattern;
-  const { ignoreCase, matchMode } = options;
-
-  const normalizedAddress = ignoreCase ? address.toLowerCase() : address;
-  const normalizedPattern = ignoreCase ? raw.toLowerCase() : raw;
-
-  switch (matchMode) {
-    case 'prefix':
-      return matchesAt(normalizedAddress, normalizedPattern, 0);
-    case 'suffix':
-      if (address.length < raw.length) return false;
-      return matchesAt(normalizedAddress, normalizedPattern, address.length - raw.length);
-    case 'anywhere':
-      for (let i = 0; i <= address.length - raw.length; i++) {
-        if (matchesAt(normalizedAddress, normalizedPattern, i)) return true;
+  for (const { head, tail } of pattern.alternatives) {
+    if (pattern.options.matchMode === 'anywhere') {
+      for (let i = 0; i <= address.length - head.length; i++) {
+        if (matchesAt(address, head, i)) return true;
       }
-      return false;
+    } else if (
+      address.length >= tail.length &&
+      matchesAt(address, head, 0) &&
+      matchesAt(address, tail, address.length - tail.length)
+    ) {
+      return true;
+    }
   }
+  return false;
 }
 
-function matchesAt(address: string, pattern: string, start: number): boolean {
-  if (start + pattern.length > address.length) return false;
+function matchesAt(address: string, classes: CharClass[], start: number): boolean {
+  if (start + classes.length > address.length) return false;
 
-  for (let i = 0; i < pattern.length; i++) {
-    const patternChar = pattern[i];
-    if (patternChar === '?') continue; // Wildcard matches any
-    if (address[start + i] !== patternChar) return false;
+  for (let i = 0; i < classes.length; i++) {
+    const index = BASE58_INDEX[address.charCodeAt(start + i)] ?? -1;
+    if (index < 0 || !charClassHas(classes[i], index)) return false;
   }
   return true;
 }
 
+export function calculateDifficulty(patternStr: string, options: PatternOptions): DifficultyStats;
+export function calculateDifficulty(patterns: PatternSet): DifficultyStats;
 export function calculateDifficulty(
-  patternStr: string,
-  options: PatternOptions
+  input: string | PatternSet,
+  options?: PatternOptions
 ): DifficultyStats {
-  // Count non-wildcard characters
-  let effectiveLength = 0;
-  for (const c of patternStr) {
-    if (c !== '?') effectiveLength++;
+  if (typeof input !== 'string') {
+    return combineDifficulty(input.patterns.map(patternDifficulty));
   }
+  return patternDifficulty(createPattern(input, options));
+}
 
-  // Case-insensitive: ~34 unique values, case-sensitive: 58
+/**
+ * Alternatives that another one already covers (e.g. `AB` next to `A`) add
+ * nothing and are dropped. The rest are combined like a pattern set, as if
+ * they matched independently; where they still overlap that is a slight
+ * overestimate of the odds.
+ */
+function patternDifficulty(pattern: Pattern): DifficultyStats {
+  // Of two alternatives that cover each other, the first one stays
+  const covered = (alternative: PatternAlternative, i: number) =>
+    pattern.alternatives.some((other, j) => {
+      if (j === i || !coversAlternative(other, alternative)) return false;
+      return j < i || !coversAlternative(alternative, other);
+    });
+  const alternatives = pattern.alternatives.filter((alternative, i) => !covered(alternative, i));
+  return combineDifficulty(alternatives.map((alternative) => alternativeDifficulty(alternative, pattern.options)));
+}
+
+// Whether every address `specific` matches is also matched by `general`
+function coversAlternative(general: PatternAlternative, specific: PatternAlternative): boolean {
+  if (general.head.length > specific.head.length || general.tail.length > specific.tail.length) return false;
+  const covers = (outer: CharClass, inner: CharClass) =>
+    ((outer.lo & inner.lo) >>> 0) === inner.lo && ((outer.hi & inner.hi) >>> 0) === inner.hi;
+  const tailOffset = specific.tail.length - general.tail.length;
+  return (
+    general.head.every((cls, i) => covers(cls, specific.head[i])) &&
+    general.tail.every((cls, i) => covers(cls, specific.tail[tailOffset + i]))
+  );
+}
+
+function alternativeDifficulty(alternative: PatternAlternative, options: PatternOptions): DifficultyStats {
+  // Case-insensitive: ~34 unique values, case-sensitive: 58 (reported only,
+  // the odds come from the exact distribution of each position)
   const alphabetSize = options.ignoreCase ? 34 : 58;
 
-  let combinations = Math.pow(alphabetSize, effectiveLength);
+  // Wildcards don't count towards the effective length
+  const positionProbabilities: number[] = [];
+  alternative.head.forEach((cls, i) => {
+    if (!isAnyChar(cls)) positionProbabilities.push(classProbability(cls, i));
+  });
+  alternative.tail.forEach((cls, i) => {
+    if (!isAnyChar(cls)) positionProbabilities.push(classProbability(cls, alternative.tail.length - 1 - i, true));
+  });
+
+  const matchProbability =
+    options.matchMode === 'anywhere' ? anywhereProbability(alternative) : alternativeProbability(alternative);
 
-  // Anywhere match has more positions to match
-  if (options.matchMode === 'anywhere' && patternStr.length < 44) {
-    const positions = 44 - patternStr.length + 1;
-    combinations /= positions;
+  return {
+    effectiveLength: positionProbabilities.length,
+    alphabetSize,
+    ...attemptsFor(matchProbability),
+    positionProbabilities,
+  };
+}
+
+// Mean and median of the geometric distribution of attempts until a match
+function attemptsFor(
+  matchProbability: number
+): Pick<DifficultyStats, 'matchProbability' | 'expectedAttempts' | 'p50Attempts'> {
+  if (matchProbability <= 0) {
+    return { matchProbability: 0, expectedAttempts: Infinity, p50Attempts: Infinity };
+  }
+  return {
+    matchProbability,
+    expectedAttempts: 1 / matchProbability,
+    p50Attempts: matchProbability >= 1 ? 1 : Math.LN2 / -Math.log1p(-matchProbability),
+  };
+}
+
+/**
+ * Combines per-pattern difficulties into the odds that a single key matches
+ * any of them. Per-attempt miss probabilities multiply; log1p keeps tiny
+ * probabilities from rounding away.
+ */
+function combineDifficulty(stats: DifficultyStats[]): DifficultyStats {
+  if (stats.length === 1) return stats[0];
+
+  let logMiss = 0;
+  for (const s of stats) {
+    logMiss += Math.log1p(-s.matchProbability);
   }
 
-  const p50Attempts = combinations * 0.693; // ln(2)
+  // Report the length, alphabet and positions of the easiest pattern in the set
+  const easiest = stats.reduce((a, b) => (b.matchProbability > a.matchProbability ? b : a));
 
   return {
-    effectiveLength,
-    alphabetSize,
-    expectedAttempts: combinations,
-    p50Attempts,
+    effectiveLength: easiest.effectiveLength,
+    alphabetSize: easiest.alphabetSize,
+    ...attemptsFor(-Math.expm1(logMiss)),
+    positionProbabilities: easiest.positionProbabilities,
   };
 }
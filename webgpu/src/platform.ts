@@ -0,0 +1,18 @@
+// What the grinder core needs from its host. Node and browsers each supply
+// these, so the grinders themselves import nothing platform-specific.
+
+// Key generation and seed randomness; Web Crypto in both Node and browsers
+export type CryptoProvider = Pick<Crypto, 'getRandomValues' | 'subtle'>;
+
+// Where GPU adapters come from: navigator.gpu, or Dawn's bindings in Node
+export type GpuProvider = Pick<GPU, 'requestAdapter'>;
+
+// Source of the WGSL kernel: bundled into browser builds, read from disk in Node
+export type ShaderSource = () => string | Promise<string>;
+
+export function defaultCrypto(): CryptoProvider {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Web Crypto is not available, pass a crypto provider');
+  }
+  return globalThis.crypto;
+}
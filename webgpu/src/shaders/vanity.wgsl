@@ -6,35 +6,66 @@
 // Structures
 // ============================================================================
 
+// One expanded alternative of a pattern, compiled to per-position bitmasks
+// (bit i = BASE58[i]). Anchored entries match head at the start of the
+// address and tail at its end; anywhere entries slide head across it.
 struct PatternConfig {
-    length: u32,
-    match_mode: u32,  // 0=prefix, 1=suffix, 2=anywhere
-    ignore_case: u32,
-    pad: u32,
-    pattern0: vec4<u32>,  // First 16 bytes (chars 0-15)
-    pattern1: vec4<u32>,  // Second 16 bytes (chars 16-31)
+    head_length: u32,
+    tail_length: u32,
+    match_mode: u32,     // 0=anchored, 1=anywhere
+    pattern_index: u32,  // PatternSet index this entry was compiled from
+    head: array<vec2<u32>, 44>,  // Allowed Base58 digits per position from the start
+    tail: array<vec2<u32>, 44>,  // Allowed Base58 digits per position of the last tail_length
 }
 
-struct ResultBuffer {
-    found: atomic<u32>,
-    thread_id: u32,
+// Must equal PATTERN_LAYOUT_VERSION in gpu-utils.ts
+const PATTERN_LAYOUT_VERSION: u32 = 2u;
+// Written to results.count when the pattern buffer has another layout
+const RESULT_LAYOUT_MISMATCH: u32 = 0xFFFFFFFFu;
+
+struct PatternSet {
+    version: u32,     // PATTERN_LAYOUT_VERSION of the host that packed it
+    count: u32,
+    entry_size: u32,  // Bytes per PatternConfig
+    max_length: u32,  // Positions per head/tail mask array
+    entries: array<PatternConfig>,
+}
+
+struct ResultEntry {
+    thread_id_lo: u32,   // 64-bit thread id of the match, low word
     address_len: u32,
-    pad: u32,
+    pattern_index: u32,  // PatternSet index of the matching pattern
+    thread_id_hi: u32,
     public_key: array<u32, 8>,    // 32 bytes
     private_key: array<u32, 16>,  // 64 bytes
     address: array<u32, 12>,      // 48 bytes
 }
 
+// Append-only list of matches: each match claims the next slot with
+// atomicAdd. count keeps growing past the capacity (the entries array
+// length), so the host can tell how many matches didn't fit.
+struct ResultBuffer {
+    count: atomic<u32>,
+    reserved0: u32,
+    reserved1: u32,
+    reserved2: u32,
+    entries: array<ResultEntry>,
+}
+
+// Each dispatch gets a fresh 256-bit ChaCha20 key from the host's CSPRNG;
+// the nonce keeps grinders that share a search apart (see seed_for()).
+// Thread ids are 64-bit, so they don't repeat however long a search runs.
 struct Params {
-    batch_offset: u32,
-    base_seed_lo: u32,
-    base_seed_hi: u32,
-    unused: u32,
+    batch_offset_lo: u32,
+    batch_offset_hi: u32,
+    nonce_lo: u32,
+    nonce_hi: u32,
+    key: array<vec4<u32>, 2>,  // 32 bytes, uniform arrays need 16-byte elements
 }
 
 @group(0) @binding(0) var<storage, read_write> results: ResultBuffer;
 @group(0) @binding(1) var<uniform> params: Params;
-@group(0) @binding(2) var<uniform> pattern: PatternConfig;
+@group(0) @binding(2) var<storage, read> patterns: PatternSet;
 
 // ============================================================================
 // 64-bit Integer Emulation using vec2<u32>
@@ -87,19 +118,6 @@ fn u64_not(a: vec2<u32>) -> vec2<u32> {
     return vec2<u32>(~a.x, ~a.y);
 }
 
-fn u64_mul(a: vec2<u32>, b: vec2<u32>) -> vec2<u32> {
-    let a0 = a.x & 0xFFFFu; let a1 = a.x >> 16u;
-    let a2 = a.y & 0xFFFFu; let a3 = a.y >> 16u;
-    let b0 = b.x & 0xFFFFu; let b1 = b.x >> 16u;
-    let b2 = b.y & 0xFFFFu; let b3 = b.y >> 16u;
-    var r0 = a0 * b0;
-    var r1 = a1 * b0 + a0 * b1 + (r0 >> 16u);
-    r0 = (r0 & 0xFFFFu) | ((r1 & 0xFFFFu) << 16u);
-    var r2 = a2 * b0 + a1 * b1 + a0 * b2 + (r1 >> 16u);
-    var r3 = a3 * b0 + a2 * b1 + a1 * b2 + a0 * b3 + (r2 >> 16u);
-    return vec2<u32>(r0, (r2 & 0xFFFFu) | ((r3 & 0xFFFFu) << 16u));
-}
-
 // ============================================================================
 // SHA-512 Constants and Functions
 // ============================================================================
@@ -616,101 +634,124 @@ fn base58_encode(input: ptr<function, array<u32, 8>>, output: ptr<function, arra
 // Pattern Matching
 // ============================================================================
 
-fn to_lower(c: u32) -> u32 {
-    if (c >= 0x41u && c <= 0x5Au) { return c + 32u; }
-    return c;
-}
-
-// Get pattern byte at index i from vec4 pattern storage
-fn get_pattern_byte(i: u32) -> u32 {
-    // Each vec4 holds 16 bytes (4 u32s × 4 bytes each)
-    // pattern0 = bytes 0-15, pattern1 = bytes 16-31
-    let word_idx = i / 4u;        // Which u32 (0-7)
-    let byte_idx = i % 4u;        // Which byte in the u32
-    var word: u32;
-    if (word_idx < 4u) {
-        // From pattern0
-        switch (word_idx) {
-            case 0u: { word = pattern.pattern0.x; }
-            case 1u: { word = pattern.pattern0.y; }
-            case 2u: { word = pattern.pattern0.z; }
-            default: { word = pattern.pattern0.w; }
-        }
-    } else {
-        // From pattern1
-        switch (word_idx - 4u) {
-            case 0u: { word = pattern.pattern1.x; }
-            case 1u: { word = pattern.pattern1.y; }
-            case 2u: { word = pattern.pattern1.z; }
-            default: { word = pattern.pattern1.w; }
-        }
+// Base58 digit index of an alphabet character (inverse of BASE58)
+fn base58_index(c: u32) -> u32 {
+    if (c <= 0x39u) { return c - 0x31u; }        // 1-9
+    if (c <= 0x48u) { return c - 0x41u + 9u; }   // A-H
+    if (c <= 0x4Eu) { return c - 0x4Au + 17u; }  // J-N
+    if (c <= 0x5Au) { return c - 0x50u + 22u; }  // P-Z
+    if (c <= 0x6Bu) { return c - 0x61u + 33u; }  // a-k
+    return c - 0x6Du + 44u;                      // m-z
+}
+
+// Bit d of the mask is set when Base58 digit d is allowed
+fn mask_allows(mask: vec2<u32>, digit: u32) -> bool {
+    if (digit < 32u) { return ((mask.x >> digit) & 1u) != 0u; }
+    return ((mask.y >> (digit - 32u)) & 1u) != 0u;
+}
+
+fn addr_char(addr: ptr<function, array<u32, 12>>, i: u32) -> u32 {
+    return ((*addr)[i/4u] >> ((i%4u)*8u)) & 0xFFu;
+}
+
+fn head_matches_at(addr: ptr<function, array<u32, 12>>, pos: u32, p: u32) -> bool {
+    let hlen = patterns.entries[p].head_length;
+    for (var i = 0u; i < hlen; i++) {
+        if (!mask_allows(patterns.entries[p].head[i], base58_index(addr_char(addr, pos + i)))) { return false; }
     }
-    return (word >> (byte_idx * 8u)) & 0xFFu;
-}
-
-fn pattern_matches(addr: ptr<function, array<u32, 12>>, addr_len: u32) -> bool {
-    let plen = pattern.length;
-    if (plen == 0u || addr_len < plen) { return false; }
-
-    var start: u32; var end: u32;
-    if (pattern.match_mode == 0u) { start = 0u; end = 1u; }
-    else if (pattern.match_mode == 1u) { start = addr_len - plen; end = start + 1u; }
-    else { start = 0u; end = addr_len - plen + 1u; }
-
-    for (var pos = start; pos < end; pos++) {
-        var matched = true;
-        for (var i = 0u; i < plen && matched; i++) {
-            var pc = get_pattern_byte(i);
-            var ac = ((*addr)[(pos+i)/4u] >> (((pos+i)%4u)*8u)) & 0xFFu;
-            if (pc == 0x3Fu) { continue; }
-            if (pattern.ignore_case != 0u) { pc = to_lower(pc); ac = to_lower(ac); }
-            if (pc != ac) { matched = false; }
+    return true;
+}
+
+fn pattern_matches(addr: ptr<function, array<u32, 12>>, addr_len: u32, p: u32) -> bool {
+    let hlen = patterns.entries[p].head_length;
+    let tlen = patterns.entries[p].tail_length;
+    if (addr_len < hlen || addr_len < tlen) { return false; }
+
+    if (patterns.entries[p].match_mode == 1u) {
+        for (var pos = 0u; pos <= addr_len - hlen; pos++) {
+            if (head_matches_at(addr, pos, p)) { return true; }
         }
-        if (matched) { return true; }
+        return false;
     }
-    return false;
+
+    if (!head_matches_at(addr, 0u, p)) { return false; }
+    let start = addr_len - tlen;
+    for (var i = 0u; i < tlen; i++) {
+        if (!mask_allows(patterns.entries[p].tail[i], base58_index(addr_char(addr, start + i)))) { return false; }
+    }
+    return true;
+}
+
+// Returns the index of the first matching PatternSet entry, or count if none
+fn find_matching_entry(addr: ptr<function, array<u32, 12>>, addr_len: u32) -> u32 {
+    let count = patterns.count;
+    for (var p = 0u; p < count; p++) {
+        if (pattern_matches(addr, addr_len, p)) { return p; }
+    }
+    return count;
 }
 
 // ============================================================================
-// RNG (xorshift128+)
+// Key seeds (ChaCha20)
 // ============================================================================
 
-struct Rng { s0: vec2<u32>, s1: vec2<u32>, }
-
-fn rng_next(rng: ptr<function, Rng>) -> vec2<u32> {
-    var x = (*rng).s0; let y = (*rng).s1;
-    (*rng).s0 = y;
-    x = u64_xor(x, u64_shl(x, 23u));
-    (*rng).s1 = u64_xor(u64_xor(x, y), u64_xor(u64_shr(x, 17u), u64_shr(y, 26u)));
-    return u64_add((*rng).s1, y);
-}
-
-fn rng_init(tid: u32) -> Rng {
-    var rng: Rng;
-    rng.s0 = u64_xor(vec2<u32>(params.base_seed_lo, params.base_seed_hi),
-                     u64_mul(vec2<u32>(tid, 0u), vec2<u32>(0x7F4A7C15u, 0x9E3779B9u)));
-    rng.s1 = u64_xor(vec2<u32>(params.base_seed_hi, params.base_seed_lo),
-                     u64_mul(vec2<u32>(tid, 0u), vec2<u32>(0xBB67AE85u, 0x6A09E667u)));
-    for (var i = 0u; i < 8u; i++) { _ = rng_next(&rng); }
-    return rng;
+fn chacha_quarter_round(x: ptr<function, array<u32, 16>>, a: u32, b: u32, c: u32, d: u32) {
+    (*x)[a] += (*x)[b]; (*x)[d] ^= (*x)[a]; (*x)[d] = ((*x)[d] << 16u) | ((*x)[d] >> 16u);
+    (*x)[c] += (*x)[d]; (*x)[b] ^= (*x)[c]; (*x)[b] = ((*x)[b] << 12u) | ((*x)[b] >> 20u);
+    (*x)[a] += (*x)[b]; (*x)[d] ^= (*x)[a]; (*x)[d] = ((*x)[d] << 8u) | ((*x)[d] >> 24u);
+    (*x)[c] += (*x)[d]; (*x)[b] ^= (*x)[c]; (*x)[b] = ((*x)[b] << 7u) | ((*x)[b] >> 25u);
+}
+
+// The 32-byte Ed25519 seed of thread `tid`: the first half of ChaCha20 block
+// number `tid` (64-bit block counter, 64-bit nonce, as in the original ChaCha)
+// under this dispatch's key. Every key the kernel tries is a ChaCha20 output
+// under a fresh 256-bit key, so it is as strong as 256 random bits. The block
+// counter is the 64-bit thread id, which never wraps within a search, so no two
+// threads share a seed.
+fn seed_for(tid: vec2<u32>, seed: ptr<function, array<u32, 8>>) {
+    var state: array<u32, 16>;
+    state[0] = 0x61707865u; state[1] = 0x3320646eu; state[2] = 0x79622d32u; state[3] = 0x6b206574u;
+    for (var i = 0u; i < 4u; i++) {
+        state[4u + i] = params.key[0][i];
+        state[8u + i] = params.key[1][i];
+    }
+    state[12] = tid.x; state[13] = tid.y;
+    state[14] = params.nonce_lo; state[15] = params.nonce_hi;
+
+    var x = state;
+    for (var round = 0u; round < 10u; round++) {
+        chacha_quarter_round(&x, 0u, 4u, 8u, 12u);
+        chacha_quarter_round(&x, 1u, 5u, 9u, 13u);
+        chacha_quarter_round(&x, 2u, 6u, 10u, 14u);
+        chacha_quarter_round(&x, 3u, 7u, 11u, 15u);
+        chacha_quarter_round(&x, 0u, 5u, 10u, 15u);
+        chacha_quarter_round(&x, 1u, 6u, 11u, 12u);
+        chacha_quarter_round(&x, 2u, 7u, 8u, 13u);
+        chacha_quarter_round(&x, 3u, 4u, 9u, 14u);
+    }
+    // Keystream words are little-endian, like the bytes sha512() reads
+    for (var i = 0u; i < 8u; i++) { (*seed)[i] = x[i] + state[i]; }
 }
 
 // ============================================================================
 // Main Kernel
 // ============================================================================
 
-@compute @workgroup_size(64)
+// Threads per workgroup, set per pipeline by the host's auto-tuner
+override WORKGROUP_SIZE: u32 = 64u;
+
+@compute @workgroup_size(WORKGROUP_SIZE)
 fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
-    let tid = global_id.x + params.batch_offset;
+    let tid = u64_add(vec2<u32>(params.batch_offset_lo, params.batch_offset_hi), vec2<u32>(global_id.x, 0u));
 
-    var rng = rng_init(tid);
+    // Refuse to match against a pattern buffer packed for another layout
+    if (patterns.version != PATTERN_LAYOUT_VERSION || patterns.entry_size != 720u || patterns.max_length != 44u) {
+        atomicStore(&results.count, RESULT_LAYOUT_MISMATCH);
+        return;
+    }
 
-    // Generate seed
     var seed: array<u32, 8>;
-    for (var i = 0u; i < 4u; i++) {
-        let r = rng_next(&rng);
-        seed[i*2u] = r.x; seed[i*2u+1u] = r.y;
-    }
+    seed_for(tid, &seed);
 
     // SHA-512
     var hash: array<u32, 16>;
@@ -734,17 +775,19 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     let addr_len = base58_encode(&pk, &address);
 
     // Match
-    if (pattern_matches(&address, addr_len)) {
-        // Use atomicMax instead of atomicCompareExchangeWeak - more robust under heavy contention
-        let prev = atomicMax(&results.found, 1u);
-        if (prev == 0u) {
-            // We were the first to set found=1, write our result
-            results.thread_id = tid;
-            results.address_len = addr_len;
-            for (var i = 0u; i < 8u; i++) { results.public_key[i] = pk[i]; }
-            for (var i = 0u; i < 8u; i++) { results.private_key[i] = hash[i]; }
-            for (var i = 0u; i < 8u; i++) { results.private_key[i+8u] = pk[i]; }
-            for (var i = 0u; i < 12u; i++) { results.address[i] = address[i]; }
+    let entry = find_matching_entry(&address, addr_len);
+    if (entry < patterns.count) {
+        let slot = atomicAdd(&results.count, 1u);
+        if (slot < arrayLength(&results.entries)) {
+            results.entries[slot].thread_id_lo = tid.x;
+            results.entries[slot].thread_id_hi = tid.y;
+            results.entries[slot].address_len = addr_len;
+            results.entries[slot].pattern_index = patterns.entries[entry].pattern_index;
+            for (var i = 0u; i < 8u; i++) { results.entries[slot].public_key[i] = pk[i]; }
+            // Solana keypairs store the seed, not the clamped scalar derived from it
+            for (var i = 0u; i < 8u; i++) { results.entries[slot].private_key[i] = seed[i]; }
+            for (var i = 0u; i < 8u; i++) { results.entries[slot].private_key[i+8u] = pk[i]; }
+            for (var i = 0u; i < 12u; i++) { results.entries[slot].address[i] = address[i]; }
         }
     }
 }
@@ -0,0 +1,4 @@
+// Testing entry point (grincel-webgpu/testing): the TypeScript model of the
+// kernel, to replay GPU matches, and the software WebGPU device it runs on
+export * from './kernel-model';
+export * from './fake-gpu';
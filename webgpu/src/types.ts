@@ -1,30 +1,86 @@
-export type MatchMode = 'prefix' | 'suffix' | 'anywhere';
+export type MatchMode = 'prefix' | 'suffix' | 'anywhere' | 'composite';
+
+// Where a composite pattern segment is pinned: the start of the address, its
+// end, or a fixed index counted from the start
+export type SegmentAnchor = 'start' | 'end' | number;
+
+export interface PatternSegment {
+  raw: string;
+  anchor: SegmentAnchor;
+}
 
 export interface PatternOptions {
   ignoreCase: boolean;
   matchMode: MatchMode;
 }
 
+// Set of Base58 characters allowed at one pattern position. Bit i stands for
+// BASE58_ALPHABET[i]: lo holds bits 0-31, hi holds bits 32-57.
+export interface CharClass {
+  lo: number;
+  hi: number;
+}
+
+// One fully expanded alternative of a pattern (case already folded). Anchored
+// patterns match head at the start of the address and tail at its end;
+// 'anywhere' patterns slide head across the address and leave tail empty.
+export interface PatternAlternative {
+  head: CharClass[];
+  tail: CharClass[];
+}
+
 export interface Pattern {
   raw: string;
   options: PatternOptions;
+  alternatives: PatternAlternative[];
+}
+
+// Several patterns searched in the same pass; a key matches if any entry does
+export interface PatternSet {
+  patterns: Pattern[];
 }
 
+export type PatternInput = Pattern | PatternSet;
+
 export interface FoundKey {
   publicKey: Uint8Array;
   privateKey: Uint8Array;
   address: string;
-  attempts: number;
+  attempts: bigint; // Exact past 2^53, where a number would start skipping
+  patternIndex: number; // Index into the PatternSet of the pattern that matched
+  counter?: number; // Seed counter of deterministic backends, to replay the hit
+  origin?: GpuKeyOrigin; // GPU backends: where the seed came from, to replay the hit
+}
+
+// The dispatch key and thread a GPU key came from; kernelKey(origin, origin.threadId) recomputes it
+export interface GpuKeyOrigin {
+  key: Uint32Array; // ChaCha20 key of the dispatch
+  nonceLo: number;
+  nonceHi: number;
+  threadId: bigint;
 }
 
 export interface GrinderStats {
-  attempts: number;
+  attempts: bigint;
   rate: number;
   elapsedMs: number;
+  incidents?: GrinderIncident[]; // Failures the grinder recovered from (or gave up on), oldest first
+}
+
+// A backend failure during a search, and what the grinder did about it
+export interface GrinderIncident {
+  kind: 'device-lost' | 'gpu-error' | 'hang' | 'dispatch-failed';
+  message: string;
+  time: number; // Date.now() when it was noticed
+  attempts: bigint; // The grinder's attempts at that point
+  outcome: 'recovered' | 'fallback' | 'failed' | 'pending';
 }
 
 export interface Grinder {
-  searchBatch(maxAttempts: number): Promise<FoundKey | null>;
+  // Every match found in the batch, empty if none. CPU grinders end the
+  // batch at their first match; GPU grinders return all matches of a dispatch.
+  // Rejects with SearchAbortedError once `signal` fires.
+  searchBatch(maxAttempts: number, signal?: AbortSignal): Promise<FoundKey[]>;
   getStats(): GrinderStats;
   reset(): void;
 }
@@ -32,9 +88,29 @@ export interface Grinder {
 export interface DifficultyStats {
   effectiveLength: number;
   alphabetSize: number;
+  matchProbability: number; // Exact per-attempt odds under the Base58 address distribution
   expectedAttempts: number;
   p50Attempts: number;
+  positionProbabilities: number[]; // Odds of each constrained position on its own (easiest alternative)
+}
+
+// 'impossible': no 32-byte public key has a matching address.
+// 'astronomical': possible, but expected to take centuries even at a generous rate.
+export type FeasibilityVerdict = 'feasible' | 'astronomical' | 'impossible';
+
+export interface FeasibilityReport {
+  verdict: FeasibilityVerdict;
+  reason: string;
+  difficulty: DifficultyStats;
+  rate: number; // Keys/sec the expected time was judged at
+  expectedSeconds: number;
+  unmatchablePatterns: number[]; // PatternSet indices that no key can match
 }
 
 export const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 export const INVALID_BASE58_CHARS = ['0', 'O', 'I', 'l'];
+export const MAX_PATTERN_SET_SIZE = 256;
+export const MAX_PATTERN_LENGTH = 44;
+export const MAX_PATTERN_ALTERNATIVES = 64;
+export const FEASIBILITY_REFERENCE_RATE = 1_000_000_000; // keys/sec, beyond any single machine
+export const ASTRONOMICAL_SECONDS = 100 * 365 * 86400; // a century
@@ -0,0 +1,29 @@
+// WebGPU for Node.js through Dawn's bindings (the `webgpu` package)
+import { BackendUnavailableError } from './backend-error';
+
+interface DawnModule {
+  create(flags: string[]): GPU;
+  globals: Record<string, unknown>;
+}
+
+let nodeGpu: GPU | null = null;
+
+/**
+ * Returns Node's equivalent of `navigator.gpu`, creating it on first use.
+ * Also installs the WebGPU globals (GPUBufferUsage, GPUMapMode, ...) that
+ * browsers provide, since the grinder code uses them.
+ */
+export function getNodeGpu(): GPU {
+  if (nodeGpu) return nodeGpu;
+
+  let dawn: DawnModule;
+  try {
+    dawn = require('webgpu');
+  } catch (error) {
+    throw new BackendUnavailableError('webgpu', `webgpu package not available (${(error as Error).message})`);
+  }
+
+  Object.assign(globalThis, dawn.globals);
+  nodeGpu = dawn.create([]);
+  return nodeGpu;
+}